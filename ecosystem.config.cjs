@@ -3,7 +3,7 @@ module.exports = {
     {
       name: 'omega-arbiter',
       script: './node_modules/.bin/tsx',
-      args: 'src/index.ts',
+      args: 'src/boot.ts',   // Boot guard: rolls back self-edit merges that break startup
       cwd: '/home/claudeuser/omega-arbiter',
       autorestart: true,
       watch: false,
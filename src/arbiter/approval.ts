@@ -0,0 +1,193 @@
+/**
+ * Approval Gate
+ * Holds committed self-edit sessions until an authorized user approves or
+ * rejects the merge (via reaction or chat command), or the review times out
+ */
+
+import { ChatMessage, ChatReaction } from '../types.js';
+import type { AuthSubject } from './authorization.js';
+
+export const APPROVE_EMOJI = '✅';
+export const REJECT_EMOJI = '❌';
+
+export const DEFAULT_REVIEW_TIMEOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Outcome of a review
+ */
+export interface ApprovalDecision {
+  outcome: 'approved' | 'rejected' | 'timeout';
+  reviewer?: AuthSubject;   // Unset on timeout
+}
+
+/**
+ * A session waiting for review
+ */
+export interface PendingApproval {
+  sessionId: string;
+  channelId: string;
+  reviewMessageId: string | null;   // Status message reactions are accepted on (if the transport returns IDs)
+  requestedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A parsed approve/reject chat command
+ */
+export interface ApprovalCommand {
+  approve: boolean;
+  sessionId?: string;
+}
+
+interface PendingEntry extends PendingApproval {
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Parse "approve [session-id]" / "reject [session-id]" commands
+ */
+export function parseApprovalCommand(content: string): ApprovalCommand | null {
+  const match = content.trim().match(/^(approve|reject)(?:\s+(sess-[\w-]+))?\s*$/i);
+  if (!match) return null;
+
+  return {
+    approve: match[1].toLowerCase() === 'approve',
+    sessionId: match[2],
+  };
+}
+
+/**
+ * Details shown in a review request
+ */
+export interface ReviewRequest {
+  sessionId: string;
+  branchName: string;
+  commitHash: string;
+  requestedBy: string;
+  changedFiles: string[];
+  diffStat: string;
+  timeoutMs: number;
+  acceptsReactions: boolean;
+  maxLength: number;
+}
+
+/**
+ * Build the chat message asking for a merge review
+ */
+export function formatReviewRequest(request: ReviewRequest): string {
+  const maxFiles = 20;
+  const files = request.changedFiles.slice(0, maxFiles).map((f) => `• \`${f}\``).join('\n');
+  const moreFiles = request.changedFiles.length > maxFiles
+    ? `\n…and ${request.changedFiles.length - maxFiles} more`
+    : '';
+
+  const howTo = request.acceptsReactions
+    ? `React ${APPROVE_EMOJI} to merge or ${REJECT_EMOJI} to reject, or reply \`approve ${request.sessionId}\` / \`reject ${request.sessionId}\`.`
+    : `Reply \`approve ${request.sessionId}\` to merge or \`reject ${request.sessionId}\` to discard.`;
+
+  const header =
+    `🔍 **Review required before merge**\n` +
+    `Session: \`${request.sessionId}\`\n` +
+    `Requested by: ${request.requestedBy}\n` +
+    `Branch: \`${request.branchName}\` (commit \`${request.commitHash.slice(0, 8)}\`)\n\n` +
+    `**Changed files (${request.changedFiles.length}):**\n${files}${moreFiles}\n\n`;
+  const footer =
+    `\n\n${howTo}\n` +
+    `Needs the **maintainer** role. Discarded if not reviewed within ${Math.round(request.timeoutMs / 60000)} minutes.`;
+
+  // Fit the diffstat into whatever room is left
+  const room = request.maxLength - header.length - footer.length - 20;
+  let stat = request.diffStat.replace(/^\n+/, '').trimEnd();
+  if (stat.length > room) {
+    stat = room > 100 ? stat.slice(0, room - 20) + '\n...(truncated)' : '';
+  }
+
+  return header + (stat ? '```\n' + stat + '\n```' : '') + footer;
+}
+
+export class ApprovalGate {
+  private pending: Map<string, PendingEntry> = new Map();
+
+  /**
+   * Wait for a session to be approved, rejected or time out
+   */
+  request(
+    sessionId: string,
+    channelId: string,
+    reviewMessageId: string | null,
+    timeoutMs: number
+  ): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(sessionId, { outcome: 'timeout' });
+      }, timeoutMs);
+
+      this.pending.set(sessionId, {
+        sessionId,
+        channelId,
+        reviewMessageId,
+        requestedAt: new Date(),
+        expiresAt: new Date(Date.now() + timeoutMs),
+        resolve,
+        timer,
+      });
+    });
+  }
+
+  /**
+   * Resolve a pending review
+   * @returns false if the session isn't awaiting review
+   */
+  settle(sessionId: string, decision: ApprovalDecision): boolean {
+    const entry = this.pending.get(sessionId);
+    if (!entry) return false;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(sessionId);
+    entry.resolve(decision);
+    return true;
+  }
+
+  /**
+   * Find the review a reaction applies to (approve/reject emoji on a review message)
+   */
+  findByReaction(reaction: ChatReaction): { approval: PendingApproval; approve: boolean } | null {
+    if (reaction.emoji !== APPROVE_EMOJI && reaction.emoji !== REJECT_EMOJI) {
+      return null;
+    }
+
+    for (const entry of this.pending.values()) {
+      if (entry.reviewMessageId && entry.reviewMessageId === reaction.messageId) {
+        return { approval: this.toPublic(entry), approve: reaction.emoji === APPROVE_EMOJI };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the review a chat command applies to
+   * Without an explicit session ID, the command applies if exactly one review is pending in the channel
+   */
+  findByCommand(message: ChatMessage, command: ApprovalCommand): PendingApproval | null {
+    if (command.sessionId) {
+      const entry = this.pending.get(command.sessionId);
+      return entry ? this.toPublic(entry) : null;
+    }
+
+    const inChannel = Array.from(this.pending.values()).filter((e) => e.channelId === message.channelId);
+    return inChannel.length === 1 ? this.toPublic(inChannel[0]) : null;
+  }
+
+  /**
+   * Get all sessions awaiting review
+   */
+  getPending(): PendingApproval[] {
+    return Array.from(this.pending.values()).map((e) => this.toPublic(e));
+  }
+
+  private toPublic(entry: PendingEntry): PendingApproval {
+    const { resolve: _resolve, timer: _timer, ...approval } = entry;
+    return approval;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Authorization
+ * Role-based permissions for actions that change the running bot
+ * (starting self-edit sessions, merging to main, restarting)
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ChatMessage } from '../types.js';
+import { getLogStore } from '../logs/index.js';
+
+/**
+ * Roles, in increasing order of privilege
+ */
+export type ArbiterRole = 'viewer' | 'requester' | 'maintainer';
+
+/**
+ * Actions that require authorization
+ */
+export type AuthAction = 'self_edit' | 'merge' | 'restart';
+
+const ROLE_ORDER: ArbiterRole[] = ['viewer', 'requester', 'maintainer'];
+
+/**
+ * Minimum role required for each action
+ */
+const REQUIRED_ROLES: Record<AuthAction, ArbiterRole> = {
+  self_edit: 'requester',
+  merge: 'maintainer',
+  restart: 'maintainer',
+};
+
+const RoleSchema = z.enum(['viewer', 'requester', 'maintainer']);
+
+/**
+ * Zod schema for the authorization file
+ */
+const AuthorizationFileSchema = z.object({
+  defaultRole: RoleSchema.default('viewer'),
+  users: z.record(z.string(), RoleSchema).default({}),   // authorId -> role
+  // Discord role ID -> role (names aren't unique and can be renamed, so they're refused)
+  roles: z.record(z.string().regex(/^\d+$/, 'Roles must be keyed by role ID, not name'), RoleSchema).default({}),
+});
+
+export type AuthorizationFile = z.infer<typeof AuthorizationFileSchema>;
+
+/**
+ * Who is asking - a chat message, or a reaction's author
+ */
+export type AuthSubject = Pick<ChatMessage, 'authorId' | 'authorName' | 'authorRoles' | 'channelId'> & {
+  content?: string;
+};
+
+/**
+ * Result of an authorization check
+ */
+export interface AuthResult {
+  allowed: boolean;
+  role: ArbiterRole;
+  required: ArbiterRole;
+}
+
+/**
+ * Load and validate an authorization file
+ * @throws Error if the file can't be read or doesn't match the schema
+ */
+export function loadAuthorization(path: string): AuthorizationFile {
+  const raw = JSON.parse(readFileSync(path, 'utf8'));
+  return AuthorizationFileSchema.parse(raw);
+}
+
+/**
+ * Resolves roles for message authors and checks permissions
+ */
+export class Authorizer {
+  constructor(private config: AuthorizationFile) {}
+
+  /**
+   * Get the highest role granted to a message's author
+   */
+  getRole(message: AuthSubject): ArbiterRole {
+    const granted: ArbiterRole[] = [this.config.defaultRole];
+
+    const userRole = this.config.users[message.authorId];
+    if (userRole) {
+      granted.push(userRole);
+    }
+
+    for (const role of message.authorRoles ?? []) {
+      const mapped = this.config.roles[role];
+      if (mapped) {
+        granted.push(mapped);
+      }
+    }
+
+    return granted.reduce((highest, role) =>
+      ROLE_ORDER.indexOf(role) > ROLE_ORDER.indexOf(highest) ? role : highest
+    );
+  }
+
+  /**
+   * Check whether a message's author may perform an action
+   */
+  check(message: AuthSubject, action: AuthAction): AuthResult {
+    const role = this.getRole(message);
+    const required = REQUIRED_ROLES[action];
+    return {
+      allowed: ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required),
+      role,
+      required,
+    };
+  }
+}
+
+/**
+ * Record a refused action in the audit log
+ */
+export function auditDenial(message: AuthSubject, action: AuthAction, result: AuthResult, sessionId?: string): void {
+  console.log(`[Auth] Denied ${action} for ${message.authorName} (${result.role}, needs ${result.required})`);
+  getLogStore().warn('Auth', `Denied ${action} for ${message.authorName}`, {
+    action,
+    authorId: message.authorId,
+    authorName: message.authorName,
+    channelId: message.channelId,
+    role: result.role,
+    required: result.required,
+    sessionId,
+    messagePreview: message.content?.slice(0, 100),
+  });
+}
+
+/**
+ * Build a polite denial message for chat
+ */
+export function formatDenial(message: AuthSubject, action: AuthAction, result: AuthResult): string {
+  const what = {
+    self_edit: 'start a self-edit session',
+    merge: 'merge changes to main',
+    restart: 'restart the bot',
+  }[action];
+
+  return `🔒 Sorry ${message.authorName}, I can't ${what} for you - that needs the **${result.required}** role ` +
+    `and you're currently a **${result.role}**. A maintainer can grant access if you need it.`;
+}
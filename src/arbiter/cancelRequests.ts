@@ -0,0 +1,85 @@
+/**
+ * Cancel Requests
+ * The dashboard runs in its own process, so it asks the bot to cancel a session
+ * by queueing a row in PostgreSQL; the arbiter polls for new rows
+ */
+
+import { getPool, isDbAvailable } from '../db/index.js';
+
+export const CANCEL_POLL_MS = 5000;
+
+/**
+ * A cancel request from the dashboard
+ */
+export interface CancelRequest {
+  sessionId: string;
+  keepWip: boolean;          // Commit the work so far to the session branch and keep it
+  requestedBy: string;
+}
+
+/**
+ * Initialize the session_cancel_requests table
+ */
+export async function initializeCancelRequestTable(): Promise<boolean> {
+  const pool = getPool();
+  if (!pool) {
+    return false;
+  }
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS session_cancel_requests (
+        id SERIAL PRIMARY KEY,
+        session_id VARCHAR(100) NOT NULL,
+        keep_wip BOOLEAN NOT NULL DEFAULT FALSE,
+        requested_by VARCHAR(255) NOT NULL,
+        requested_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        handled_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_session_cancel_requests_pending
+        ON session_cancel_requests(handled_at) WHERE handled_at IS NULL;
+    `);
+    console.log('[CancelRequests] session_cancel_requests table ready');
+    return true;
+  } catch (error) {
+    console.error('[CancelRequests] Failed to create table:', error);
+    return false;
+  }
+}
+
+/**
+ * Queue a cancel request for the bot to pick up
+ * @throws Error if PostgreSQL isn't available
+ */
+export async function queueCancelRequest(request: CancelRequest): Promise<void> {
+  const pool = getPool();
+  if (!pool || !isDbAvailable()) {
+    throw new Error('Database not available');
+  }
+
+  await initializeCancelRequestTable();
+  await pool.query(
+    `INSERT INTO session_cancel_requests (session_id, keep_wip, requested_by) VALUES ($1, $2, $3)`,
+    [request.sessionId, request.keepWip, request.requestedBy]
+  );
+}
+
+/**
+ * Claim all unhandled cancel requests (each one is returned once)
+ */
+export async function takeCancelRequests(): Promise<CancelRequest[]> {
+  const pool = getPool();
+  if (!pool || !isDbAvailable()) return [];
+
+  const result = await pool.query<{ session_id: string; keep_wip: boolean; requested_by: string }>(
+    `UPDATE session_cancel_requests SET handled_at = NOW()
+     WHERE handled_at IS NULL
+     RETURNING session_id, keep_wip, requested_by`
+  );
+  return result.rows.map((row) => ({
+    sessionId: row.session_id,
+    keepWip: row.keep_wip,
+    requestedBy: row.requested_by,
+  }));
+}
@@ -0,0 +1,112 @@
+/**
+ * Channel Policy
+ * Per-channel/guild allowlist controlling which actions the arbiter may take,
+ * the confidence threshold to act, and where session notifications are posted
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { ActionType, ChatMessage } from '../types.js';
+
+const ACTION_TYPES = ['ignore', 'acknowledge', 'respond', 'self_edit', 'apply_patch', 'research', 'defer'] as const;
+
+/**
+ * Policy fields shared by channel, guild and default entries
+ */
+const PolicyFieldsSchema = z.object({
+  allowedActions: z.array(z.enum(ACTION_TYPES)).optional(),
+  confidenceThreshold: z.number().min(0).max(100).optional(),
+  statusChannelId: z.string().optional(),
+});
+
+/**
+ * Zod schema for the channel policy file
+ */
+const ChannelPolicyFileSchema = z.object({
+  // Applied to channels that match no channel/guild entry; omit to ignore unlisted channels
+  default: PolicyFieldsSchema.optional(),
+  guilds: z.array(PolicyFieldsSchema.extend({
+    id: z.string(),
+  })).default([]),
+  channels: z.array(PolicyFieldsSchema.extend({
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }).refine((c) => c.id || c.name, 'Channel entry needs an id or name')).default([]),
+});
+
+export type ChannelPolicyFile = z.infer<typeof ChannelPolicyFileSchema>;
+
+/**
+ * Effective policy for a single message
+ */
+export interface ResolvedChannelPolicy {
+  allowedActions: ActionType[];
+  confidenceThreshold: number;
+  statusChannelId?: string;
+  matchedBy: 'channel' | 'guild' | 'default';
+}
+
+/**
+ * Actions allowed when an entry doesn't list any
+ */
+const DEFAULT_ALLOWED_ACTIONS: ActionType[] = ['ignore', 'acknowledge', 'respond', 'research', 'defer'];
+
+/**
+ * Load and validate a channel policy file
+ * @throws Error if the file can't be read or doesn't match the schema
+ */
+export function loadChannelPolicy(path: string): ChannelPolicyFile {
+  const raw = JSON.parse(readFileSync(path, 'utf8'));
+  return ChannelPolicyFileSchema.parse(raw);
+}
+
+/**
+ * Resolves the effective policy for incoming messages
+ */
+export class ChannelPolicyStore {
+  constructor(
+    private policy: ChannelPolicyFile,
+    private defaultThreshold: number
+  ) {}
+
+  /**
+   * Resolve the policy for a message
+   * Channel entries override guild entries, which override the default.
+   * Messages in a thread get the policy of the thread's channel.
+   * Returns null if the channel is not allowed at all.
+   */
+  resolve(message: ChatMessage): ResolvedChannelPolicy | null {
+    const channelId = message.parentChannelId ?? message.channelId;
+    const channelEntry = this.policy.channels.find(
+      (c) => (c.id && c.id === channelId) || (!c.id && c.name === message.channelName)
+    );
+    const guildEntry = message.guildId
+      ? this.policy.guilds.find((g) => g.id === message.guildId)
+      : undefined;
+    const defaultEntry = this.policy.default;
+
+    const matchedBy = channelEntry ? 'channel' : guildEntry ? 'guild' : defaultEntry ? 'default' : null;
+    if (!matchedBy) {
+      return null;
+    }
+
+    // Merge fields from most to least specific
+    const layers = [channelEntry, guildEntry, defaultEntry];
+    const pick = <K extends keyof z.infer<typeof PolicyFieldsSchema>>(key: K) =>
+      layers.find((layer) => layer?.[key] !== undefined)?.[key];
+
+    return {
+      allowedActions: pick('allowedActions') ?? DEFAULT_ALLOWED_ACTIONS,
+      confidenceThreshold: pick('confidenceThreshold') ?? this.defaultThreshold,
+      statusChannelId: pick('statusChannelId'),
+      matchedBy,
+    };
+  }
+}
+
+/**
+ * Check whether an action is allowed by a resolved policy
+ */
+export function isActionAllowed(policy: ResolvedChannelPolicy, actionType: ActionType): boolean {
+  return actionType === 'ignore' || policy.allowedActions.includes(actionType);
+}
@@ -5,6 +5,7 @@
 
 import { WorkSession, ChatMessage } from '../types.js';
 import { WorktreeManager } from '../git/worktree.js';
+import { IngestedAttachment, formatAttachmentsForPrompt } from '../claude/attachments.js';
 
 /**
  * Create a checkpoint commit for the current work in progress
@@ -56,7 +57,8 @@ export async function getCommittedDiff(
  */
 export function buildContinuationPrompt(
   session: WorkSession,
-  previousDiff: string
+  previousDiff: string,
+  attachments: IngestedAttachment[] = []
 ): string {
   const originalTask = session.triggeredBy.content;
   const followUps = session.pendingMessages
@@ -82,7 +84,7 @@ ${diffContent}
 
 ### New Instructions from User
 ${followUps}
-
+${attachments.length ? `\n${formatAttachmentsForPrompt(attachments)}\n` : ''}
 ### Your Task
 Continue from where you left off, incorporating the new instructions above.
 - Do NOT redo work that's already been committed
@@ -0,0 +1,184 @@
+/**
+ * Arbiter Chat Commands
+ * "!arbiter <command>" messages for inspecting and controlling sessions,
+ * handled before the decision system ever sees the message
+ */
+
+import type { ActiveSession, CoordinatorState, PendingAction } from './coordinator.js';
+import type { QueuedSessionRequest } from './scheduler.js';
+import type { LogEntry } from '../logs/index.js';
+
+/**
+ * A parsed "!arbiter" command
+ * Session IDs are optional where the active session in the channel is a sensible default
+ */
+export type ArbiterCommand =
+  | { name: 'help'; error?: string }
+  | { name: 'status' }
+  | { name: 'sessions' }
+  | { name: 'cancel'; id?: string; keepWip?: boolean }   // Session ID or queued request ID
+  | { name: 'diff'; sessionId?: string }
+  | { name: 'logs'; sessionId?: string }
+  | { name: 'usage'; target?: string }   // "me" or a session ID; omitted = everyone today
+  | { name: 'restart'; reason?: string };
+
+const USAGE = [
+  '`!arbiter status` - bot state, active sessions and queue',
+  '`!arbiter sessions` - list active and queued sessions',
+  '`!arbiter cancel [id] [keep]` - stop a running session, `keep` commits its work so far to the branch (or withdraw a queued request)',
+  '`!arbiter diff [id]` - show what a session has changed so far',
+  '`!arbiter logs [id]` - recent log lines for a session',
+  '`!arbiter usage [me|id]` - tokens and cost today (overall or yours), or for a session',
+  '`!arbiter restart [reason]` - restart once running sessions finish (maintainers)',
+].join('\n');
+
+/**
+ * Parse a "!arbiter ..." message
+ * @returns null if the message isn't a command at all
+ */
+export function parseArbiterCommand(content: string): ArbiterCommand | null {
+  const match = content.trim().match(/^!arbiter(?:\s+(\S+))?(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+
+  const name = (match[1] ?? 'help').toLowerCase();
+  const arg = match[2]?.trim() || undefined;
+
+  switch (name) {
+    case 'help':
+      return { name: 'help' };
+    case 'status':
+    case 'sessions':
+      return { name };
+    case 'cancel': {
+      const words = arg?.split(/\s+/) ?? [];
+      const keepWip = words.at(-1)?.toLowerCase() === 'keep';
+      if (keepWip) words.pop();
+      const id = words.join(' ') || undefined;
+      if (id && !/^(sess|queue)-[\w-]+$/.test(id)) {
+        return { name: 'help', error: `\`${id}\` isn't a session or queued request ID.` };
+      }
+      return keepWip ? { name: 'cancel', id, keepWip } : { name: 'cancel', id };
+    }
+    case 'diff':
+    case 'logs':
+      if (arg && !/^sess-[\w-]+$/.test(arg)) {
+        return { name: 'help', error: `\`${arg}\` isn't a session ID.` };
+      }
+      return { name, sessionId: arg };
+    case 'usage':
+      if (arg && !/^(me|sess-[\w-]+)$/i.test(arg)) {
+        return { name: 'help', error: `\`${arg}\` isn't \`me\` or a session ID.` };
+      }
+      return { name: 'usage', target: arg };
+    case 'restart':
+      return { name: 'restart', reason: arg };
+    default:
+      return { name: 'help', error: `Unknown command \`${name}\`.` };
+  }
+}
+
+/**
+ * Command list, optionally after what was wrong with the last command
+ */
+export function formatHelp(error?: string): string {
+  return (error ? `❓ ${error}\n\n` : '') + `**Arbiter commands**\n${USAGE}`;
+}
+
+/**
+ * Elapsed time, e.g. "4m 12s"
+ */
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * List active sessions and queued requests
+ */
+export function formatSessionList(active: ActiveSession[], queued: QueuedSessionRequest[]): string {
+  const lines: string[] = [];
+
+  lines.push(`**Active sessions (${active.length})**`);
+  if (active.length === 0) {
+    lines.push('None');
+  }
+  for (const s of active) {
+    lines.push(`• \`${s.id}\` - ${s.channelName || 'DM'}, ${s.triggeredBy}, ${formatElapsed(Date.now() - s.startedAt.getTime())}: ${s.description.slice(0, 80)}`);
+  }
+
+  if (queued.length > 0) {
+    lines.push('', `**Queued (${queued.length})**`);
+    queued.forEach((r, i) => {
+      const trigger = r.messages[r.messages.length - 1];
+      lines.push(`${i + 1}. \`${r.id}\` - ${trigger.authorName}, waiting ${formatElapsed(Date.now() - r.queuedAt.getTime())}: ${trigger.content.slice(0, 80)}`);
+    });
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Everything "!arbiter status" reports
+ */
+export interface StatusReport {
+  state: CoordinatorState;
+  active: ActiveSession[];
+  queued: QueuedSessionRequest[];
+  maxParallel: number;
+  pendingActions: PendingAction[];
+  pendingReviews: number;
+  uptimeMs: number;
+}
+
+export function formatStatus(report: StatusReport): string {
+  const slots = report.maxParallel > 0 ? `${report.active.length}/${report.maxParallel}` : `${report.active.length}`;
+  const lines = [
+    `📊 **Arbiter status**`,
+    `State: ${report.state}`,
+    `Uptime: ${formatElapsed(report.uptimeMs)}`,
+    `Sessions: ${slots} running, ${report.queued.length} queued, ${report.pendingReviews} awaiting review`,
+  ];
+  for (const action of report.pendingActions) {
+    lines.push(`Pending ${action.type}: ${action.reason}`);
+  }
+  if (report.active.length > 0 || report.queued.length > 0) {
+    lines.push('', formatSessionList(report.active, report.queued));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Recent log lines, oldest first
+ */
+export function formatLogLines(sessionId: string, entries: LogEntry[]): string {
+  if (entries.length === 0) {
+    return `No logs recorded for session \`${sessionId}\`.`;
+  }
+
+  const lines = [...entries].reverse().map((e) =>
+    `${e.timestamp.slice(11, 19)} ${e.level.padEnd(6)} ${e.source}: ${e.message.replace(/\s+/g, ' ').slice(0, 120)}`
+  );
+  return `**Logs for \`${sessionId}\`** (last ${entries.length})\n\`\`\`\n${lines.join('\n')}\n\`\`\``;
+}
+
+/**
+ * Fit a diff into a code block within the transport's message length
+ */
+export function formatDiff(sessionId: string, diff: string, maxLength: number): string {
+  if (!diff.trim()) {
+    return `Session \`${sessionId}\` hasn't changed anything yet.`;
+  }
+
+  const header = `**Diff for \`${sessionId}\`**\n`;
+  const room = maxLength - header.length - 40;
+  // A ``` in the diff (e.g. a changed Markdown file) would close the code block early
+  let body = diff.trimEnd().replace(/```/g, '`\u200b``');
+  if (body.length > room) {
+    body = body.slice(0, room) + '\n...(truncated)';
+  }
+  return header + '```diff\n' + body + '\n```';
+}
@@ -35,6 +35,7 @@ export interface ActiveSession {
   startedAt: Date;
   triggeredBy: string;
   description: string;
+  statusChannelId?: string; // Per-channel status channel (falls back to the global one)
 }
 
 /**
@@ -58,6 +59,7 @@ export interface CoordinatorEvents {
   'action:completed': (action: PendingAction) => void;
   'all:drained': () => void;
   'notify': (message: string, channelId?: string) => void;
+  'signal': (signal: string) => void;
 }
 
 /**
@@ -69,6 +71,7 @@ export class SessionCoordinator extends EventEmitter {
   private pendingActions: PendingAction[] = [];
   private actionIdCounter = 0;
   private statusChannelId: string | null = null;
+  private exitHandler: (code: number) => void = (code) => process.exit(code);
 
   constructor() {
     super();
@@ -83,6 +86,13 @@ export class SessionCoordinator extends EventEmitter {
     console.log(`[Coordinator] Status channel set to ${channelId}`);
   }
 
+  /**
+   * Replace process.exit for restart/shutdown (e.g. so tests can observe a restart)
+   */
+  setExitHandler(handler: (code: number) => void): void {
+    this.exitHandler = handler;
+  }
+
   /**
    * Get the current state
    */
@@ -122,7 +132,7 @@ export class SessionCoordinator extends EventEmitter {
    * Register a new session
    * @throws Error if not accepting new sessions
    */
-  registerSession(session: WorkSession): ActiveSession {
+  registerSession(session: WorkSession, statusChannelId?: string): ActiveSession {
     if (!this.canStartSession()) {
       const pendingAction = this.pendingActions[0];
       throw new Error(
@@ -137,6 +147,7 @@ export class SessionCoordinator extends EventEmitter {
       startedAt: new Date(),
       triggeredBy: session.triggeredBy.authorName,
       description: session.triggeredBy.content.slice(0, 100),
+      statusChannelId,
     };
 
     this.activeSessions.set(session.id, activeSession);
@@ -156,7 +167,8 @@ export class SessionCoordinator extends EventEmitter {
       `ID: \`${session.id}\`\n` +
       `Channel: ${activeSession.channelName || 'DM'}\n` +
       `Requested by: ${activeSession.triggeredBy}\n` +
-      `Task: ${activeSession.description}`
+      `Task: ${activeSession.description}`,
+      activeSession.statusChannelId
     );
 
     return activeSession;
@@ -193,7 +205,8 @@ export class SessionCoordinator extends EventEmitter {
       `ID: \`${sessionId}\`\n` +
       `Duration: ${duration}\n` +
       `Remaining sessions: ${remaining}` +
-      (summary ? `\n\nSummary: ${summary.slice(0, 200)}` : '')
+      (summary ? `\n\nSummary: ${summary.slice(0, 200)}` : ''),
+      session.statusChannelId
     );
 
     this.emit('session:completed', session, remaining);
@@ -338,7 +351,7 @@ export class SessionCoordinator extends EventEmitter {
         // Give time for the message to be sent
         await this.sleep(1000);
         console.log('[Coordinator] Exiting for restart...');
-        process.exit(0);
+        this.exitHandler(0);
         break;
 
       case 'shutdown':
@@ -350,7 +363,7 @@ export class SessionCoordinator extends EventEmitter {
         );
         await this.sleep(1000);
         console.log('[Coordinator] Exiting for shutdown...');
-        process.exit(0);
+        this.exitHandler(0);
         break;
 
       case 'cleanup':
@@ -374,6 +387,9 @@ export class SessionCoordinator extends EventEmitter {
       }
 
       this.requestShutdown(`Received ${signal} signal`);
+
+      // Let running sessions wrap up early instead of draining to completion
+      this.emit('signal', signal);
     };
 
     process.on('SIGINT', () => handleSignal('SIGINT'));
@@ -4,7 +4,6 @@
  * Uses AI to evaluate context and decide on appropriate action
  */
 
-import OpenAI from 'openai';
 import { z } from 'zod';
 import {
   ArbiterDecision,
@@ -12,18 +11,10 @@ import {
   MessageContext,
   ActionType,
 } from '../types.js';
-
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+import { getLlmProvider } from '../llm/index.js';
+import { getUsageLedger } from '../usage/index.js';
+import { extractPatch, stripPatch } from '../git/patch.js';
+import { classifyAttachment } from '../claude/attachments.js';
 
 /**
  * Zod schema for structured AI decision output
@@ -37,29 +28,34 @@ const DecisionSchema = z.object({
     'acknowledge',
     'respond',
     'self_edit',
+    'apply_patch',
     'research',
     'defer',
   ]).describe('The type of action to take'),
   suggestedApproach: z.string().optional().describe('How to approach this task if acting'),
 });
 
-type DecisionOutput = z.infer<typeof DecisionSchema>;
+// Mentions around a patch: <@123> / <@!123> (Discord, Slack) and @name (CLI)
+const MENTION = /<@!?\w+>|(?:^|\s)@[\w-]+/g;
 
+// All a bare patch may say besides the diff
+const APPLY_ONLY = /^(?:(?:please|pls|can you|could you)\s+)?(?:apply|merge)(?:\s+(?:this|it|that|my|the))?(?:\s+(?:patch|diff|fix|change))?(?:\s+please)?[\s.!:]*$/i;
 
 /**
  * Make a decision about how to handle an incoming message
+ * `model` overrides the model configured for this feature
  */
 export async function makeDecision(
   message: ChatMessage,
   context: MessageContext,
-  model: string = 'gpt-4o-mini'
+  model?: string
 ): Promise<ArbiterDecision> {
   const { botId, botName, messages } = context;
 
   // Quick checks for obvious cases
   const quickDecision = getQuickDecision(message, botId);
   if (quickDecision) {
-    return quickDecision;
+    return await applyBudget(message, quickDecision);
   }
 
   // Use AI for all decision making
@@ -68,9 +64,8 @@ export async function makeDecision(
     const contextFlags = buildContextFlags(message);
     const prompt = buildDecisionPrompt(message, historyContext, contextFlags, botName);
 
-    const response = await getOpenAI().chat.completions.create({
-      model,
-      messages: [
+    const validated = await getLlmProvider('decision').completeJson(
+      [
         {
           role: 'system',
           content: `You are a decision-making system. Respond ONLY with valid JSON matching this schema:
@@ -78,7 +73,7 @@ export async function makeDecision(
   "shouldAct": boolean,
   "confidence": number (0-100),
   "reason": string,
-  "actionType": "ignore" | "acknowledge" | "respond" | "self_edit" | "research" | "defer",
+  "actionType": "ignore" | "acknowledge" | "respond" | "self_edit" | "apply_patch" | "research" | "defer",
   "suggestedApproach": string (optional)
 }`,
         },
@@ -87,25 +82,21 @@ export async function makeDecision(
           content: prompt,
         },
       ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from AI');
-    }
-
-    const parsed = JSON.parse(content) as DecisionOutput;
-    const validated = DecisionSchema.parse(parsed);
-
-    return {
+      DecisionSchema,
+      {
+        model,
+        temperature: 0.3,
+        usage: { feature: 'decision', userId: message.authorId, channelId: message.channelId },
+      }
+    );
+
+    return await applyBudget(message, {
       shouldAct: validated.shouldAct,
       confidence: validated.confidence,
       reason: validated.reason,
       actionType: validated.actionType as ActionType,
       suggestedApproach: validated.suggestedApproach,
-    };
+    });
   } catch (error) {
     console.error('[Arbiter] Decision error:', error);
     // Default to cautious response on error
@@ -118,10 +109,59 @@ export async function makeDecision(
   }
 }
 
+// Actions that start Claude, and what the budget notice says can't be done
+const BUDGETED_ACTIONS: Partial<Record<ArbiterDecision['actionType'], string>> = {
+  self_edit: 'make code changes',
+  apply_patch: 'make code changes',
+  research: 'start research',
+};
+
+/**
+ * Refuse actions that start Claude (self_edit, apply_patch, research) once today's budget
+ * (overall or the requester's) is spent
+ * The user still gets a reply, with a notice explaining why nothing was started
+ */
+async function applyBudget(message: ChatMessage, decision: ArbiterDecision): Promise<ArbiterDecision> {
+  const refused = BUDGETED_ACTIONS[decision.actionType];
+  if (!refused) {
+    return decision;
+  }
+
+  const budget = await getUsageLedger().checkBudget(message.authorId);
+  if (!budget.exceeded) {
+    return decision;
+  }
+
+  console.log(`[Arbiter] Refusing ${decision.actionType} for ${message.authorName}: ${budget.reason}`);
+  return {
+    ...decision,
+    actionType: 'respond',
+    reason: `${decision.reason} (${budget.reason})`,
+    notice: `💸 ${budget.reason} - I can't ${refused} until it resets at midnight UTC.`,
+  };
+}
+
 /**
  * Quick decision for obvious cases (no AI needed)
  */
 function getQuickDecision(message: ChatMessage, botId: string): ArbiterDecision | null {
+  // Apply a bare patch handed to the bot ("@bot apply this" + diff); a diff posted for
+  // discussion or with further instructions goes to the model
+  const addressed = message.channelName === 'DM' || message.mentionsBotId || message.repliesToBot;
+  if (addressed && isBarePatch(message)) {
+    return {
+      shouldAct: true,
+      confidence: 95,
+      reason: 'Patch sent to the bot to apply',
+      actionType: 'apply_patch',
+    };
+  }
+
+  // Any other patch needs the model to tell discussion, apply_patch and self_edit apart
+  if (hasPatch(message)) {
+    return null;
+  }
+
   // Always respond to DMs
   if (message.channelName === 'DM') {
     return {
@@ -155,6 +195,25 @@ function getQuickDecision(message: ChatMessage, botId: string): ArbiterDecision
   return null;
 }
 
+/**
+ * Whether a message carries a unified diff, in its text or as a .patch/.diff attachment
+ */
+export function hasPatch(message: ChatMessage): boolean {
+  return extractPatch(message.content) !== null
+    || (message.attachments ?? []).some((a) => classifyAttachment(a) === 'patch');
+}
+
+/**
+ * Whether a message is only a patch, with nothing around it but mentions and a short "apply this"
+ */
+export function isBarePatch(message: ChatMessage): boolean {
+  if (!hasPatch(message) || (message.attachments ?? []).some((a) => classifyAttachment(a) !== 'patch')) {
+    return false;
+  }
+  const note = stripPatch(message.content).replace(MENTION, '').trim();
+  return note === '' || APPLY_ONLY.test(note);
+}
+
 /**
  * Format message history for context
  */
@@ -184,6 +243,10 @@ function buildContextFlags(message: ChatMessage): string {
     flags.push('- This is a reply to a previous message');
   }
 
+  if (hasPatch(message)) {
+    flags.push('- Contains a unified diff / patch');
+  }
+
   return flags.length > 0 ? '\n\n**Context Flags:**\n' + flags.join('\n') : '';
 }
 
@@ -221,6 +284,14 @@ Examples that MUST be self_edit:
 - "create an API endpoint" → self_edit
 - "make a discord bot" → self_edit
 
+### **apply_patch** - The message contains a ready-made diff to apply
+Choose apply_patch only when the user asks for a unified diff (pasted or a .patch file) to be applied as-is, with no other changes.
+If they share a diff to discuss it ("here's what I tried"), use respond. If they want it applied AND something else done, or used as a starting point, use self_edit.
+
+### **research** - Questions that need digging through the code
+Choose research when answering means investigating ${botName}'s own codebase: how something works, where it is handled, why it behaves a certain way.
+A read-only Claude session reads the code and answers with file:line citations. Nothing is changed.
+
 ### **respond** - Only for conversation/questions
 Choose respond ONLY when:
 - User is asking a question that needs explanation, not code
@@ -243,6 +314,7 @@ ${historyContext}${contextFlags}
 ## DECISION RULES
 - If the message asks to BUILD, CREATE, SETUP, FIX, or MAKE anything → **self_edit**
 - If it mentions specific tech (nextjs, react, postgres, api, etc.) with an action → **self_edit**
+- If they ask HOW or WHERE something works in the bot's own code, without asking for a change → **research**
 - Only use "respond" if they clearly want conversation, not code
 - Be BIASED toward self_edit - you're a coding bot, not just a chatbot
 
@@ -0,0 +1,110 @@
+/**
+ * Follow-up Classification
+ * Decides whether a message posted while a session is running belongs to that session,
+ * so small talk and unrelated requests don't get fed to Claude (and force a checkpoint).
+ * Cheap rules settle the obvious cases; the rest go to the follow-up model.
+ */
+
+import { z } from 'zod';
+import { ChatMessage, WorkSession } from '../types.js';
+import { getLlmProvider } from '../llm/index.js';
+
+export type FollowUpKind =
+  | 'follow_up'        // More instructions or feedback for the running session
+  | 'new_request'      // A separate task - goes through the decision system like any message
+  | 'chatter';         // Conversation that isn't meant for the session
+
+/**
+ * How a message relates to the session running in its channel
+ */
+export interface FollowUpClassification {
+  kind: FollowUpKind;
+  reason: string;
+  source: 'rule' | 'llm';
+}
+
+const FollowUpSchema = z.object({
+  kind: z.enum(['follow_up', 'new_request', 'chatter']),
+  reason: z.string(),
+});
+
+// Reactions and acknowledgements that never change the task
+const CHATTER = /^(?:(?:ok(?:ay)?|k|kk|thanks?|thank you|thx|ty|nice|cool|great|awesome|lol|lmao|haha+|wow|gg|brb|\+1|[\p{Extended_Pictographic}\s]+)[\s!.]*)+$/iu;
+
+/**
+ * Classify a message against the session it might be a follow-up to
+ */
+export async function classifyFollowUp(message: ChatMessage, session: WorkSession): Promise<FollowUpClassification> {
+  const ruled = classifyByRules(message, session);
+  if (ruled) {
+    return ruled;
+  }
+
+  const fromRequester = message.authorId === session.triggeredBy.authorId;
+  try {
+    const result = await getLlmProvider('followup').completeJson(
+      [
+        {
+          role: 'system',
+          content: `You route chat messages for a bot that is currently changing its own code. Respond ONLY with valid JSON:
+{
+  "kind": "follow_up" | "new_request" | "chatter",
+  "reason": string
+}
+follow_up: the message adds to, corrects or comments on the task in progress and should be passed to the coding session.
+new_request: the message asks for something separate from that task.
+chatter: conversation, jokes, thanks or anything not meant for the session.`,
+        },
+        {
+          role: 'user',
+          content:
+            `Task in progress (requested by ${session.triggeredBy.authorName}): ${session.triggeredBy.content.slice(0, 500)}\n` +
+            (session.pendingMessages.length > 0
+              ? `Follow-ups already queued: ${session.pendingMessages.map((m) => m.content.slice(0, 100)).join(' | ')}\n`
+              : '') +
+            `\nNew message from ${message.authorName}${fromRequester ? ' (the requester)' : ''}: ${message.content.slice(0, 1000)}`,
+        },
+      ],
+      FollowUpSchema,
+      {
+        temperature: 0,
+        usage: { feature: 'followup', sessionId: session.id, userId: message.authorId, channelId: message.channelId },
+      }
+    );
+    return { ...result, source: 'llm' };
+  } catch (error) {
+    console.error('[FollowUp] Classification error:', error);
+    // Without a model, only the requester can steer their own session
+    return fromRequester
+      ? { kind: 'follow_up', reason: 'Classifier unavailable - message from the requester', source: 'rule' }
+      : { kind: 'chatter', reason: 'Classifier unavailable - message from someone else', source: 'rule' };
+  }
+}
+
+/**
+ * The cases that don't need a model
+ * A reply to one of the session's messages wins over everything else
+ */
+export function classifyByRules(message: ChatMessage, session: WorkSession): FollowUpClassification | null {
+  if (message.replyToId) {
+    const sessionMessageIds = [
+      ...(session.statusMessageIds ?? []),
+      session.triggeredBy.id,
+      ...session.relatedMessages.map((m) => m.id),
+    ];
+    if (sessionMessageIds.includes(message.replyToId)) {
+      return { kind: 'follow_up', reason: 'Reply to the session', source: 'rule' };
+    }
+  }
+
+  const text = message.content.trim();
+  if (CHATTER.test(text) || (!text && !message.attachments?.length)) {
+    return { kind: 'chatter', reason: 'Acknowledgement or reaction', source: 'rule' };
+  }
+
+  if (session.threadId && message.threadId === session.threadId && message.authorId === session.triggeredBy.authorId) {
+    return { kind: 'follow_up', reason: "Requester posted in the session's thread", source: 'rule' };
+  }
+
+  return null;
+}
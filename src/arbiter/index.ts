@@ -9,24 +9,81 @@
  */
 
 import { EventEmitter } from 'events';
+import { join } from 'path';
 import {
   Transport,
   ChatMessage,
+  ChatReaction,
   ArbiterDecision,
   ArbiterConfig,
   WorkSession,
   MessageContext,
+  Attachment,
 } from '../types.js';
 import { WorktreeManager, MergeResult } from '../git/worktree.js';
+import type { ForgeAdapter } from '../git/forge.js';
+import type { SessionStore } from '../git/sessionStore.js';
+import { isEditableTransport, isThreadedTransport } from '../transports/base.js';
 import { MessageQueue, MessageAggregator, QueuedMessage } from '../queue/messageQueue.js';
-import { makeDecision, detectErrorPatterns } from './decision.js';
+import { makeDecision, detectErrorPatterns, isBarePatch } from './decision.js';
 import { generateResponse, getQuickAcknowledgment } from './respond.js';
-import { ClaudeRunner, buildClaudePrompt, DiscordOutputStream } from '../claude/index.js';
+import { ClaudeRunner, buildClaudePrompt, buildResearchPrompt, LiveOutputStream } from '../claude/index.js';
+import type { ClaudeRunnerConfig, ClaudeRunResult } from '../claude/index.js';
 import { createCheckpoint, buildContinuationPrompt } from './checkpoint.js';
 import { getCoordinator, SessionCoordinator } from './coordinator.js';
+import {
+  Authorizer,
+  AuthorizationFile,
+  AuthAction,
+  AuthResult,
+  AuthSubject,
+  auditDenial,
+  formatDenial,
+} from './authorization.js';
+import {
+  ApprovalGate,
+  ApprovalDecision,
+  APPROVE_EMOJI,
+  REJECT_EMOJI,
+  DEFAULT_REVIEW_TIMEOUT_MS,
+  formatReviewRequest,
+  parseApprovalCommand,
+} from './approval.js';
+import { runVerification, describeFailure, buildFixupPrompt } from './verification.js';
+import { RateLimiter, RateLimits, describeRateLimit, formatRetryAfter } from './rateLimit.js';
+import { SessionScheduler, QueuedSessionRequest } from './scheduler.js';
+import { CANCEL_POLL_MS, initializeCancelRequestTable, takeCancelRequests } from './cancelRequests.js';
+import { classifyFollowUp } from './followUp.js';
+import {
+  DEFAULT_ATTACHMENT_MAX_BYTES,
+  DEFAULT_ATTACHMENT_MAX_FILES,
+  IngestedAttachment,
+  classifyAttachment,
+  formatAttachmentStatus,
+  ingestAttachments,
+  saveToScratch,
+} from '../claude/attachments.js';
+import { extractPatch, formatRejectReport, patchedFiles, stripPatch } from '../git/patch.js';
+import {
+  ArbiterCommand,
+  parseArbiterCommand,
+  formatHelp,
+  formatStatus,
+  formatSessionList,
+  formatDiff,
+  formatLogLines,
+} from './commands.js';
+import { recordPendingMerge, takeRollbackNotice } from './rollback.js';
+import {
+  ChannelPolicyStore,
+  ChannelPolicyFile,
+  ResolvedChannelPolicy,
+  isActionAllowed,
+} from './channelPolicy.js';
 import type { PromptContext } from '../claude/index.js';
-import { DiscordTransport } from '../transports/discord.js';
 import { getLogStore } from '../logs/index.js';
+import { isDbAvailable } from '../db/index.js';
+import { formatUsageSummary, getUsageLedger, startOfDay } from '../usage/index.js';
 import { processMessageForProfiling, getUserProfileSummary, buildProfileContext } from '../psychology/index.js';
 
 /**
@@ -42,6 +99,30 @@ export interface ArbiterEvents {
   'error': (error: Error) => void;
 }
 
+/**
+ * How to cancel a running session
+ */
+export interface CancelOptions {
+  by: string;            // Who cancelled it (user name, "dashboard", "SIGTERM")
+  keepWip?: boolean;     // Commit the work so far and keep the branch instead of deleting it
+}
+
+/**
+ * Outcome of a cancel request, with a chat-ready explanation
+ */
+export interface CancelResult {
+  cancelled: boolean;
+  message: string;
+}
+
+/**
+ * How mergeCommittedSession gets a branch onto main
+ */
+interface MergeOptions {
+  checks?: string[];     // Pre-merge checks (default: verifyCommands)
+  useClaude?: boolean;   // false: failed checks and conflicts stop the merge instead of going to Claude
+}
+
 export class Arbiter extends EventEmitter {
   private transports: Map<string, Transport> = new Map();
   private worktreeManager: WorktreeManager;
@@ -50,6 +131,21 @@ export class Arbiter extends EventEmitter {
   private config: ArbiterConfig;
   private coordinator: SessionCoordinator;
   private statusChannelId: string | null = null;
+  private channelPolicy: ChannelPolicyStore | null = null;
+  // Without an authorization file everyone is a maintainer
+  private authorizer = new Authorizer({ defaultRole: 'maintainer', users: {}, roles: {} });
+  private approvalGate = new ApprovalGate();
+  private rateLimiter: RateLimiter | null = null;
+  private sessionStore: SessionStore | null = null;
+  private scheduler: SessionScheduler;
+  // Claude runs that can be cancelled, and how cancelled sessions should be wrapped up
+  private activeRunners: Map<string, ClaudeRunner> = new Map();
+  private cancelledSessions: Map<string, CancelOptions> = new Map();
+  private forge: ForgeAdapter | null = null;
+  private pullRequestPoller: NodeJS.Timeout | null = null;
+  private cancelRequestPoller: NodeJS.Timeout | null = null;
+  private startupNotifier: NodeJS.Timeout | null = null;
+  private createClaudeRunner: () => ClaudeRunner = () => new ClaudeRunner();
 
   constructor(config: ArbiterConfig) {
     super();
@@ -59,6 +155,9 @@ export class Arbiter extends EventEmitter {
     this.coordinator = getCoordinator();
     this.setupCoordinatorHandlers();
 
+    // Initialize session scheduler (caps concurrent self-edit sessions)
+    this.scheduler = new SessionScheduler(config.maxParallelSessions ?? 0);
+
     // Initialize worktree manager
     this.worktreeManager = new WorktreeManager({
       repoPath: config.gitRepoPath,
@@ -83,29 +182,67 @@ export class Arbiter extends EventEmitter {
    * Set up handlers for coordinator events
    */
   private setupCoordinatorHandlers(): void {
-    // Handle notification events
-    this.coordinator.on('notify', async (message: string, channelId?: string) => {
-      const targetChannel = channelId || this.statusChannelId;
-      if (!targetChannel) {
-        console.log(`[Arbiter] Notification (no channel): ${message}`);
-        return;
-      }
+    this.coordinator.on('notify', this.handleCoordinatorNotify);
+    this.coordinator.on('state:changed', this.handleCoordinatorStateChange);
+    this.coordinator.on('session:completed', this.handleCoordinatorSessionCompleted);
+    this.coordinator.on('signal', this.handleCoordinatorSignal);
+  }
 
-      // Find a transport that can send to this channel
-      for (const transport of this.transports.values()) {
-        try {
-          await transport.send(targetChannel, message);
-          break;
-        } catch {
-          // Try next transport
-        }
-      }
-    });
+  /**
+   * Forward coordinator notifications to the target (or status) channel
+   */
+  private handleCoordinatorNotify = async (message: string, channelId?: string): Promise<void> => {
+    const targetChannel = channelId || this.statusChannelId;
+    if (!targetChannel) {
+      console.log(`[Arbiter] Notification (no channel): ${message}`);
+      return;
+    }
 
-    // Log state changes
-    this.coordinator.on('state:changed', (oldState, newState) => {
-      console.log(`[Arbiter] Coordinator state: ${oldState} → ${newState}`);
-    });
+    await this.sendToChannel(targetChannel, message);
+  };
+
+  /**
+   * Log coordinator state changes
+   */
+  private handleCoordinatorStateChange = (oldState: string, newState: string): void => {
+    console.log(`[Arbiter] Coordinator state: ${oldState} → ${newState}`);
+    // Back to running without a restart (e.g. after a cleanup action) - pick up queued requests
+    if (newState === 'running') {
+      this.startQueuedSessions();
+    }
+  };
+
+  /**
+   * A session slot freed up - start the next queued request
+   */
+  private handleCoordinatorSessionCompleted = (): void => {
+    // Deferred so a restart requested right after the completion (merge → restart) drains first
+    setImmediate(() => this.startQueuedSessions());
+  };
+
+  /**
+   * SIGTERM/SIGINT - cancel running Claude sessions (keeping their work) so shutdown doesn't wait on them
+   */
+  private handleCoordinatorSignal = (signal: string): void => {
+    for (const sessionId of this.activeRunners.keys()) {
+      this.cancelSession(sessionId, { by: signal, keepWip: true })
+        .then((result) => console.log(`[Arbiter] ${signal}: ${result.message}`))
+        .catch((error) => console.error(`[Arbiter] Failed to cancel ${sessionId} on ${signal}:`, error));
+    }
+  };
+
+  /**
+   * Send to a channel through whichever transport accepts it
+   */
+  private async sendToChannel(channelId: string, content: string): Promise<void> {
+    for (const transport of this.transports.values()) {
+      try {
+        await transport.send(channelId, content);
+        return;
+      } catch {
+        // Try next transport
+      }
+    }
   }
 
   /**
@@ -117,6 +254,62 @@ export class Arbiter extends EventEmitter {
     console.log(`[Arbiter] Status channel set to ${channelId}`);
   }
 
+  /**
+   * Set the per-channel policy (allowlist, allowed actions, thresholds)
+   * Without a policy, every channel the transports deliver is allowed
+   */
+  setChannelPolicy(policy: ChannelPolicyFile): void {
+    this.channelPolicy = new ChannelPolicyStore(policy, this.config.confidenceThreshold);
+    console.log(`[Arbiter] Channel policy set (${policy.channels.length} channels, ${policy.guilds.length} guilds)`);
+  }
+
+  /**
+   * Set role-based authorization for self-edit, merge and restart
+   */
+  setAuthorization(config: AuthorizationFile): void {
+    this.authorizer = new Authorizer(config);
+    console.log(`[Arbiter] Authorization set (default role: ${config.defaultRole})`);
+  }
+
+  /**
+   * Limit how often self-edit sessions can be started, per user, per channel and globally
+   */
+  setRateLimits(limits: RateLimits): void {
+    this.rateLimiter = new RateLimiter(limits);
+    if (this.sessionStore) {
+      this.rateLimiter.setStore(this.sessionStore);
+    }
+    const described = (Object.keys(limits) as (keyof RateLimits)[])
+      .map((scope) => `${scope} ${describeRateLimit(limits[scope]!)}`);
+    console.log(`[Arbiter] Self-edit rate limits set (${described.join(', ') || 'none'})`);
+  }
+
+  /**
+   * Open pull requests through a forge instead of merging to main directly
+   */
+  setForge(forge: ForgeAdapter): void {
+    this.forge = forge;
+    console.log(`[Arbiter] Pull request mode enabled (${forge.name})`);
+  }
+
+  /**
+   * Persist work sessions, the session queue and rate limits (call before start() so they are restored)
+   */
+  setSessionStore(store: SessionStore): void {
+    this.sessionStore = store;
+    this.worktreeManager.setStore(store);
+    this.scheduler.setStore(store);
+    this.rateLimiter?.setStore(store);
+    console.log(`[Arbiter] Session store set (${store.name})`);
+  }
+
+  /**
+   * Replace how Claude runners are created (e.g. a FakeClaudeRunner in tests)
+   */
+  setClaudeRunnerFactory(factory: () => ClaudeRunner): void {
+    this.createClaudeRunner = factory;
+  }
+
   /**
    * Add a transport (Discord, Slack, CLI, etc.)
    */
@@ -128,6 +321,10 @@ export class Arbiter extends EventEmitter {
       await this.handleIncomingMessage(message, transport);
     });
 
+    transport.onReaction?.(async (reaction) => {
+      await this.handleReaction(reaction, transport);
+    });
+
     transport.onReady(() => {
       console.log(`[Arbiter] Transport '${name}' ready`);
     });
@@ -161,12 +358,50 @@ export class Arbiter extends EventEmitter {
       }
     }
 
+    // Rate limits carry over restarts, or every merge would refill them
+    await this.rateLimiter?.restore();
+
+    // Pick up requests that were still queued when the process stopped (e.g. behind a merge)
+    const restored = await this.scheduler.restore((request) => this.transportFor(request.messages[request.messages.length - 1]));
+    if (restored.length > 0) {
+      console.log(`[Arbiter] Restored ${restored.length} queued request(s)`);
+      getLogStore().info('Scheduler', `Restored ${restored.length} queued request(s)`, {
+        requestIds: restored.map((r) => r.id),
+      });
+      this.startQueuedSessions();
+    }
+
+    // Track pull requests opened in PR mode
+    if (this.forge) {
+      this.pullRequestPoller = setInterval(() => {
+        this.refreshPullRequests().catch((error) => {
+          console.error('[Arbiter] Pull request refresh failed:', error);
+        });
+      }, this.config.pullRequestPollMs ?? 60000);
+    }
+
+    // Pick up cancel requests from the dashboard (it runs in its own process)
+    if (isDbAvailable() && await initializeCancelRequestTable()) {
+      this.cancelRequestPoller = setInterval(() => {
+        this.processCancelRequests().catch((error) => {
+          console.error('[Arbiter] Cancel request poll failed:', error);
+        });
+      }, CANCEL_POLL_MS);
+    }
+
     this.emit('ready');
     console.log('[Arbiter] Started successfully');
 
     // Notify startup (after a short delay to ensure Discord is ready)
-    setTimeout(() => {
+    this.startupNotifier = setTimeout(() => {
+      this.startupNotifier = null;
       this.coordinator.notifyStartup();
+      this.reportInterruptedSessions().catch((error) => {
+        console.error('[Arbiter] Failed to report interrupted sessions:', error);
+      });
+      this.announceRollback().catch((error) => {
+        console.error('[Arbiter] Failed to announce rollback:', error);
+      });
     }, 2000);
   }
 
@@ -178,6 +413,27 @@ export class Arbiter extends EventEmitter {
 
     this.messageQueue.stop();
 
+    if (this.pullRequestPoller) {
+      clearInterval(this.pullRequestPoller);
+      this.pullRequestPoller = null;
+    }
+
+    if (this.cancelRequestPoller) {
+      clearInterval(this.cancelRequestPoller);
+      this.cancelRequestPoller = null;
+    }
+
+    if (this.startupNotifier) {
+      clearTimeout(this.startupNotifier);
+      this.startupNotifier = null;
+    }
+
+    // The coordinator is shared, so don't leave this arbiter's handlers on it
+    this.coordinator.off('notify', this.handleCoordinatorNotify);
+    this.coordinator.off('state:changed', this.handleCoordinatorStateChange);
+    this.coordinator.off('session:completed', this.handleCoordinatorSessionCompleted);
+    this.coordinator.off('signal', this.handleCoordinatorSignal);
+
     for (const [name, transport] of this.transports) {
       try {
         await transport.disconnect();
@@ -200,6 +456,28 @@ export class Arbiter extends EventEmitter {
     this.emit('message', message);
 
     try {
+      // Enforce channel policy before doing any work on the message
+      const policy = this.resolveChannelPolicy(message);
+      if (!policy) {
+        console.log(`[Arbiter] Ignoring message from channel ${message.channelId} (not in channel policy)`);
+        return;
+      }
+
+      // "!arbiter ..." session control commands
+      if (await this.handleArbiterCommand(message, transport)) {
+        return;
+      }
+
+      // Approve/reject commands for sessions awaiting review
+      if (await this.handleApprovalCommand(message, transport)) {
+        return;
+      }
+
+      // Resume/abandon commands for sessions interrupted by a restart
+      if (await this.handleRecoveryCommand(message, transport)) {
+        return;
+      }
+
       // Process psychological profiling for this message (non-blocking, runs in parallel)
       // This builds/updates the user's psychological profile over time
       processMessageForProfiling(message).then(({ profile, analysis, summary }) => {
@@ -211,10 +489,26 @@ export class Arbiter extends EventEmitter {
         console.error('[Psychology] Profile update error:', err);
       });
 
-      // Check if there's an active session for this channel
-      const existingSession = this.worktreeManager.findSessionByChannel(message.channelId);
+      // Check if there's an active session for this thread or channel, and whether the message is meant for it
+      const existingSession = this.findSessionForMessage(message);
+      const followUp = existingSession ? await classifyFollowUp(message, existingSession) : null;
+
+      if (existingSession && followUp) {
+        console.log(`[Arbiter] Message during session ${existingSession.id}: ${followUp.kind} (${followUp.source}: ${followUp.reason})`);
+        getLogStore().info('FollowUp', `${followUp.kind}: ${followUp.reason}`, {
+          sessionId: existingSession.id,
+          source: followUp.source,
+          author: message.authorName,
+          messagePreview: message.content.slice(0, 100),
+        });
+      }
+
+      if (existingSession && followUp?.kind === 'follow_up') {
+        // A follow-up means another Claude run, so it counts against the budget too
+        if (!(await this.withinBudget(message, transport, 'pass this on to the running session'))) {
+          return;
+        }
 
-      if (existingSession) {
         // Add message to existing session's context
         this.worktreeManager.addMessageToSession(existingSession.id, message);
         this.messageQueue.associateWithSession(message.id, existingSession.id);
@@ -222,8 +516,9 @@ export class Arbiter extends EventEmitter {
         // Add to pending messages for checkpoint & continue
         existingSession.pendingMessages.push(message);
         existingSession.shouldCheckpoint = true;
+        this.worktreeManager.saveSession(existingSession.id);
 
-        // Notify Discord that message was received
+        // Notify the channel that the message was received
         await transport.send(
           message.channelId,
           `📝 Got it! Will incorporate "${message.content.slice(0, 50)}${message.content.length > 50 ? '...' : ''}" after current operation completes.`
@@ -235,10 +530,17 @@ export class Arbiter extends EventEmitter {
 
       // Get context and make a decision immediately - be responsive!
       const context = await this.buildMessageContext(message, transport);
-      const decision = await makeDecision(message, context, this.config.model);
+      const decision = this.applyChannelPolicy(
+        await makeDecision(message, context),
+        policy
+      );
 
       this.emit('decision', message, decision);
 
+      if (decision.notice) {
+        await transport.send(message.channelId, decision.notice);
+      }
+
       // Log the decision
       getLogStore().info('Decision', `${decision.actionType} (${decision.confidence}%): ${decision.reason}`, {
         actionType: decision.actionType,
@@ -249,10 +551,11 @@ export class Arbiter extends EventEmitter {
       });
 
       // Act on the decision - be eager to engage!
-      if (decision.shouldAct && decision.confidence >= this.config.confidenceThreshold) {
+      if (decision.shouldAct && decision.confidence >= policy.confidenceThreshold) {
         if (decision.actionType === 'self_edit') {
-          // Start a self-edit session
-          await this.startSelfEditSession([message], decision, transport);
+          await this.startSelfEditSession([message], decision, transport, policy.statusChannelId);
+        } else if (decision.actionType === 'apply_patch') {
+          await this.applyPatchSession([message], decision, transport, policy.statusChannelId);
         } else {
           // Process immediately - don't queue, just respond!
           await this.processMessageDirectly(message, decision, context, transport);
@@ -261,7 +564,9 @@ export class Arbiter extends EventEmitter {
         // Even with lower confidence, if there's some reason to engage, do it
         console.log(`[Arbiter] Low confidence (${decision.confidence}%) but considering response...`);
         if (decision.actionType !== 'ignore') {
-          await this.processMessageDirectly(message, decision, context, transport);
+          // Not sure enough to spend a Claude run on research - just answer
+          const lowConfidence = decision.actionType === 'research' ? { ...decision, actionType: 'respond' as const } : decision;
+          await this.processMessageDirectly(message, lowConfidence, context, transport);
         }
       }
     } catch (error) {
@@ -271,132 +576,983 @@ export class Arbiter extends EventEmitter {
   }
 
   /**
-   * Process a message directly without queueing
+   * Resolve the channel policy for a message (null = channel not allowed)
    */
-  private async processMessageDirectly(
+  private resolveChannelPolicy(message: ChatMessage): ResolvedChannelPolicy | null {
+    if (!this.channelPolicy) {
+      return {
+        allowedActions: ['ignore', 'acknowledge', 'respond', 'self_edit', 'apply_patch', 'research', 'defer'],
+        confidenceThreshold: this.config.confidenceThreshold,
+        matchedBy: 'default',
+      };
+    }
+    return this.channelPolicy.resolve(message);
+  }
+
+  /**
+   * Downgrade a decision whose action isn't allowed in the channel
+   * Code changes (self_edit, apply_patch) fall back to respond (so the user still gets an answer), anything else to ignore
+   */
+  private applyChannelPolicy(decision: ArbiterDecision, policy: ResolvedChannelPolicy): ArbiterDecision {
+    if (isActionAllowed(policy, decision.actionType)) {
+      return decision;
+    }
+
+    const changesCode = decision.actionType === 'self_edit' || decision.actionType === 'apply_patch';
+    const fallback = changesCode && isActionAllowed(policy, 'respond')
+      ? 'respond'
+      : 'ignore';
+
+    console.log(`[Arbiter] Action ${decision.actionType} not allowed by channel policy, using ${fallback}`);
+    getLogStore().info('Policy', `Downgraded ${decision.actionType} to ${fallback}`, {
+      actionType: decision.actionType,
+      fallback,
+      matchedBy: policy.matchedBy,
+    });
+
+    return {
+      ...decision,
+      actionType: fallback,
+      shouldAct: fallback !== 'ignore' && decision.shouldAct,
+      reason: `${decision.reason} (${decision.actionType} not allowed in this channel)`,
+    };
+  }
+
+  /**
+   * Take a session token for the message's user and channel (self-edits, patches and research share the buckets)
+   * Called once a session has its slot, so refused and queued requests don't use up tokens
+   * @returns false (after telling the user when to retry) if a limit is exhausted
+   */
+  private async checkSessionRateLimit(
     message: ChatMessage,
-    decision: ArbiterDecision,
-    context: MessageContext,
-    transport: Transport
-  ): Promise<void> {
-    console.log(`[Arbiter] Direct processing: ${decision.actionType} (${decision.confidence}%)`);
+    transport: Transport,
+    actionType: ArbiterDecision['actionType']
+  ): Promise<boolean> {
+    if (!this.rateLimiter) {
+      return true;
+    }
 
-    switch (decision.actionType) {
-      case 'acknowledge':
-        const ack = getQuickAcknowledgment(message);
-        await transport.send(message.channelId, ack);
-        console.log(`[Arbiter] Acknowledged: "${ack}"`);
-        break;
+    const result = this.rateLimiter.tryConsume(message);
+    if (result.allowed) {
+      return true;
+    }
 
-      case 'respond':
-      case 'research':
-        try {
-          console.log(`[Arbiter] Generating response...`);
-          const response = await generateResponse(message, context, this.config.model);
-          await transport.send(message.channelId, response);
-          console.log(`[Arbiter] Sent response:\n${response}`);
-        } catch (error) {
-          console.error('[Arbiter] Response generation failed:', error);
-        }
-        break;
+    const scopeText = result.scope === 'user' ? 'per user' : result.scope === 'channel' ? 'in this channel' : 'overall';
+    const retryAt = new Date(Date.now() + result.retryAfterMs!);
+    console.log(`[Arbiter] ${actionType} rate limited (${result.scope}) for ${message.authorName}, retry in ${formatRetryAfter(result.retryAfterMs!)}`);
+    getLogStore().warn('RateLimit', `Throttled ${actionType} from ${message.authorName} (${result.scope} limit)`, {
+      scope: result.scope,
+      limit: describeRateLimit(result.limit!),
+      retryAfterMs: result.retryAfterMs,
+      userId: message.authorId,
+      channelId: message.channelId,
+      messagePreview: message.content.slice(0, 100),
+    });
 
-      case 'defer':
-        // Still acknowledge that we saw it
-        await transport.send(message.channelId, "I'll look into that when I have a moment.");
-        break;
+    await transport.send(
+      message.channelId,
+      `⏳ **Slow down** - ${actionType === 'research' ? 'research sessions' : 'self-edits'} are limited to ${describeRateLimit(result.limit!)} ${scopeText}. ` +
+        `Try again in ${formatRetryAfter(result.retryAfterMs!)} (after ${retryAt.toISOString().slice(11, 16)} UTC).`
+    );
+    return false;
+  }
 
-      default:
-        break;
+  /**
+   * Handle approve/reject reactions on review messages
+   */
+  private async handleReaction(reaction: ChatReaction, transport: Transport): Promise<void> {
+    const match = this.approvalGate.findByReaction(reaction);
+    if (!match) {
+      return;
     }
+
+    await this.settleReview(match.approval.sessionId, match.approve, reaction, transport);
   }
 
   /**
-   * Process aggregated messages
+   * Handle "approve"/"reject" chat commands
+   * @returns true if the message was a command for a pending review
    */
-  private async processAggregatedMessages(
-    messages: ChatMessage[],
-    transport: Transport
-  ): Promise<void> {
-    if (messages.length === 0) return;
+  private async handleApprovalCommand(message: ChatMessage, transport: Transport): Promise<boolean> {
+    const command = parseApprovalCommand(message.content);
+    if (!command) {
+      return false;
+    }
 
-    // Use the most recent message for decision making
-    const primaryMessage = messages[messages.length - 1];
-    const context = await this.buildMessageContext(primaryMessage, transport);
+    const approval = this.approvalGate.findByCommand(message, command);
+    if (!approval) {
+      if (command.sessionId) {
+        await transport.send(message.channelId, `❓ Session \`${command.sessionId}\` isn't awaiting review.`);
+        return true;
+      }
+      // Probably just a chat message that happens to say "approve"
+      return false;
+    }
 
-    // Add all messages to context
-    context.messages = [...messages, ...context.messages];
+    await this.settleReview(approval.sessionId, command.approve, message, transport);
+    return true;
+  }
 
-    const decision = await makeDecision(primaryMessage, context, this.config.model);
+  /**
+   * Handle "resume <session-id>" / "abandon <session-id>" for interrupted sessions
+   * @returns true if the message was a recovery command
+   */
+  private async handleRecoveryCommand(message: ChatMessage, transport: Transport): Promise<boolean> {
+    const match = message.content.trim().match(/^(resume|abandon)\s+(sess-[\w-]+)\s*$/i);
+    if (!match) {
+      return false;
+    }
 
-    this.emit('decision', primaryMessage, decision);
+    const [, verb, sessionId] = match;
+    const session = this.worktreeManager.getSession(sessionId);
+    if (!session || session.status !== 'interrupted') {
+      await transport.send(message.channelId, `❓ Session \`${sessionId}\` isn't an interrupted session.`);
+      return true;
+    }
 
-    if (decision.shouldAct && decision.confidence >= this.config.confidenceThreshold) {
-      if (decision.actionType === 'self_edit') {
-        await this.startSelfEditSession(messages, decision, transport);
-      } else {
-        // Queue the primary message
-        this.messageQueue.enqueue(primaryMessage, { priority: 'normal' });
-      }
+    const auth = this.authorize(message, 'self_edit', sessionId);
+    if (!auth.allowed) {
+      await transport.send(message.channelId, formatDenial(message, 'self_edit', auth));
+      return true;
+    }
+
+    if (verb.toLowerCase() === 'abandon') {
+      await this.worktreeManager.abandonSession(sessionId);
+      getLogStore().info('Arbiter', `Abandoned interrupted session ${sessionId}`, { sessionId, by: message.authorName });
+      await transport.send(message.channelId, `🗑️ Abandoned session \`${sessionId}\` and deleted branch \`${session.branchName}\`.`);
+    } else {
+      await this.resumeSession(session, message, transport);
     }
+    return true;
   }
 
   /**
-   * Start a self-editing session with Claude Code CLI
+   * "!arbiter usage" (today), "!arbiter usage me" (the sender, today) and "!arbiter usage <session-id>"
    */
-  private async startSelfEditSession(
-    messages: ChatMessage[],
-    decision: ArbiterDecision,
+  private async usageFromCommand(
+    command: Extract<ArbiterCommand, { name: 'usage' }>,
+    message: ChatMessage,
     transport: Transport
   ): Promise<void> {
-    const primaryMessage = messages[messages.length - 1];
-    const taskDescription = decision.suggestedApproach ?? primaryMessage.content.slice(0, 50);
-    const channelId = primaryMessage.channelId;
+    const ledger = getUsageLedger();
+    const target = command.target;
+    let report: string;
+
+    if (target?.toLowerCase().startsWith('sess-')) {
+      const summary = await ledger.summarize({ sessionId: target });
+      report = summary.total.calls > 0
+        ? formatUsageSummary(`Usage for session ${target}`, summary)
+        : `❓ No usage recorded for session \`${target}\`.`;
+    } else {
+      const mine = target?.toLowerCase() === 'me';
+      const summary = await ledger.summarize({
+        since: startOfDay(),
+        userId: mine ? message.authorId : undefined,
+      });
+      const budget = await ledger.checkBudget(message.authorId);
+      report = formatUsageSummary(mine ? `Usage today for ${message.authorName}` : 'Usage today', summary, budget);
+    }
 
-    // Check if we're accepting new sessions
-    if (!this.coordinator.canStartSession()) {
-      const pendingActions = this.coordinator.getPendingActions();
-      const reason = pendingActions[0]?.reason || 'pending action';
+    await transport.send(message.channelId, report);
+  }
+
+  /**
+   * Withdraw a queued self_edit/apply_patch request (requester or maintainer only)
+   */
+  private async cancelQueuedRequest(request: QueuedSessionRequest, message: ChatMessage, transport: Transport): Promise<void> {
+    const requester = request.messages[request.messages.length - 1];
+    if (!this.mayControl(requester, message)) {
       await transport.send(
-        channelId,
-        `⏳ **Cannot start new session**\n` +
-        `Reason: ${reason}\n` +
-        `Active sessions: ${this.coordinator.getActiveSessionCount()}\n\n` +
-        `Please wait for the bot to restart and try again.`
+        message.channelId,
+        `🚫 Only ${requester.authorName} or a **maintainer** can cancel \`${request.id}\`.`
       );
       return;
     }
 
-    // Cast to DiscordTransport for edit capabilities
-    const discordTransport = transport as DiscordTransport;
-
-    let session: WorkSession | null = null;
-    let outputStream: DiscordOutputStream | null = null;
-    let sessionRegistered = false;
+    this.scheduler.cancel(request.id);
+    console.log(`[Arbiter] Cancelled queued request ${request.id} (by ${message.authorName})`);
+    getLogStore().info('Scheduler', `Cancelled queued request ${request.id}`, {
+      requestId: request.id,
+      by: message.authorName,
+      requestedBy: requester.authorName,
+      queued: this.scheduler.getQueue().length,
+    });
+    await transport.send(
+      message.channelId,
+      `🗑️ Cancelled queued request \`${request.id}\`: ${requester.content.slice(0, 100)}`
+    );
+  }
 
-    try {
-      // Create work session
-      session = await this.worktreeManager.createSession(primaryMessage, taskDescription);
+  /**
+   * Whether a message's author may cancel or otherwise control someone's request
+   */
+  private mayControl(requester: Pick<ChatMessage, 'authorId'>, message: ChatMessage): boolean {
+    return requester.authorId === message.authorId || this.authorizer.getRole(message) === 'maintainer';
+  }
 
-      // Register with coordinator
-      this.coordinator.registerSession(session);
-      sessionRegistered = true;
+  /**
+   * Handle "!arbiter <command>" (status, sessions, cancel, diff, logs, restart)
+   * @returns true if the message was an arbiter command
+   */
+  private async handleArbiterCommand(message: ChatMessage, transport: Transport): Promise<boolean> {
+    const command = parseArbiterCommand(message.content);
+    if (!command) {
+      return false;
+    }
 
-      // Set logging context for this session
-      getLogStore().setContext({
-        sessionId: session.id,
-        channelId: primaryMessage.channelId,
-        userId: primaryMessage.authorId,
-      });
+    getLogStore().info('Command', `!arbiter ${command.name} from ${message.authorName}`, {
+      command: command.name,
+      authorId: message.authorId,
+      channelId: message.channelId,
+    });
 
-      // Note: status channel should be configured via STATUS_CHANNEL_NAME or STATUS_CHANNEL_ID env vars
-      // This auto-setting is removed to prevent sessions in other channels from hijacking notifications
+    switch (command.name) {
+      case 'help':
+        await transport.send(message.channelId, formatHelp(command.error));
+        break;
 
-      // Add all related messages
-      for (const msg of messages.slice(0, -1)) {
-        this.worktreeManager.addMessageToSession(session.id, msg);
-      }
+      case 'status':
+        await transport.send(message.channelId, formatStatus({
+          state: this.coordinator.getState(),
+          active: this.coordinator.getActiveSessions(),
+          queued: this.scheduler.getQueue(),
+          maxParallel: this.scheduler.getMaxParallel(),
+          pendingActions: this.coordinator.getPendingActions(),
+          pendingReviews: this.approvalGate.getPending().length,
+          uptimeMs: process.uptime() * 1000,
+        }));
+        break;
 
-      this.emit('session:created', session);
+      case 'sessions':
+        await transport.send(
+          message.channelId,
+          formatSessionList(this.coordinator.getActiveSessions(), this.scheduler.getQueue())
+        );
+        break;
+
+      case 'cancel':
+        await this.cancelFromCommand(command, message, transport);
+        break;
+
+      case 'diff':
+      case 'logs':
+        await this.inspectFromCommand(command, message, transport);
+        break;
+
+      case 'usage':
+        await this.usageFromCommand(command, message, transport);
+        break;
+
+      case 'restart': {
+        const auth = this.authorize(message, 'restart');
+        if (!auth.allowed) {
+          await transport.send(message.channelId, formatDenial(message, 'restart', auth));
+          break;
+        }
+        if (!this.coordinator.canStartSession()) {
+          await transport.send(message.channelId, `⏳ A ${this.coordinator.getPendingActions()[0]?.type ?? 'restart'} is already pending.`);
+          break;
+        }
+        this.coordinator.requestRestart(
+          command.reason ?? `Requested by ${message.authorName}`,
+          message.authorName,
+          message.channelId
+        );
+        break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Find the session a command refers to: by ID, or the active session in the channel
+   */
+  private resolveCommandSession(message: ChatMessage, sessionId?: string): WorkSession | undefined {
+    return sessionId
+      ? this.worktreeManager.getSession(sessionId)
+      : this.findSessionForMessage(message);
+  }
+
+  /**
+   * The active session a message is a follow-up to
+   * Messages in a thread belong to the thread's session; sessions with their own thread
+   * don't claim messages in the parent channel, so several can run in one channel
+   */
+  private findSessionForMessage(message: ChatMessage): WorkSession | undefined {
+    const session = message.threadId
+      ? this.worktreeManager.findSessionByThread(message.threadId)
+      : this.worktreeManager.findSessionByChannel(message.channelId);
+    if (session || !message.replyToId) {
+      return session;
+    }
+
+    // A reply to a session's request or status message belongs to it wherever it was posted
+    const replyToId = message.replyToId;
+    return this.worktreeManager.getActiveSessions().find(
+      (s) => s.status === 'active' && !s.readOnly && (s.triggeredBy.id === replyToId || !!s.statusMessageIds?.includes(replyToId))
+    );
+  }
+
+  /**
+   * Remember a session's status message so replies to it are routed to the session
+   */
+  private trackStatusMessage(session: WorkSession, outputStream: LiveOutputStream): void {
+    const messageId = outputStream.getMessageId();
+    if (!messageId) return;
+    session.statusMessageIds = [...(session.statusMessageIds ?? []), messageId];
+    this.worktreeManager.saveSession(session.id);
+  }
+
+  /**
+   * The session's triggering message, answered where the session posts (for budget refusals mid-session)
+   */
+  private sessionRequester(session: WorkSession): ChatMessage {
+    return { ...session.triggeredBy, channelId: this.sessionChannelId(session) };
+  }
+
+  /**
+   * Where a session posts its output - its thread if it has one
+   */
+  private sessionChannelId(session: WorkSession): string {
+    return session.threadId ?? session.triggeredBy.channelId;
+  }
+
+  /**
+   * Give a new session its own thread on the triggering message
+   * Messages already in a thread keep the session there, unless another session already posts into it;
+   * without thread support it uses the channel
+   * @returns the channel ID the session should post into
+   * @throws Error if the message's thread belongs to another session and no new thread can be opened
+   */
+  private async openSessionThread(session: WorkSession, message: ChatMessage, transport: Transport, taskDescription: string): Promise<string> {
+    const threadOwner = message.threadId
+      ? this.worktreeManager.getActiveSessions().find((s) => s.id !== session.id && s.threadId === message.threadId)
+      : undefined;
+
+    if (threadOwner) {
+      session.threadId = await this.openThreadBeside(threadOwner, session, message, transport, taskDescription);
+    } else if (message.threadId) {
+      session.threadId = message.threadId;
+    } else if (this.config.sessionThreads !== false && isThreadedTransport(transport)) {
+      try {
+        session.threadId = await transport.createThread(message.channelId, message.id, `${session.id}: ${taskDescription}`);
+        console.log(`[Arbiter] Opened thread ${session.threadId} for session ${session.id}`);
+      } catch (error) {
+        console.error(`[Arbiter] Failed to open a thread for session ${session.id}, posting in the channel:`, error);
+      }
+    }
+
+    if (session.threadId) {
+      this.worktreeManager.saveSession(session.id);
+    }
+    return this.sessionChannelId(session);
+  }
+
+  /**
+   * Open a thread in the parent channel for a new request made inside another session's thread
+   * Threads can't be nested, so the new thread hangs off a starter message the bot posts
+   * @returns the new thread's channel ID
+   */
+  private async openThreadBeside(
+    owner: WorkSession,
+    session: WorkSession,
+    message: ChatMessage,
+    transport: Transport,
+    taskDescription: string
+  ): Promise<string> {
+    const parentChannelId = message.parentChannelId;
+    if (!parentChannelId || this.config.sessionThreads === false || !isThreadedTransport(transport) || !isEditableTransport(transport)) {
+      throw new Error(`This thread belongs to session \`${owner.id}\` - ask in the channel to start another session`);
+    }
+
+    const starterId = await transport.sendAndGetId(
+      parentChannelId,
+      `🧵 **${session.id}**: ${taskDescription.slice(0, 200)} (requested by ${message.authorName} in the thread of \`${owner.id}\`)`
+    );
+    const threadId = await transport.createThread(parentChannelId, starterId, `${session.id}: ${taskDescription}`);
+    console.log(`[Arbiter] Opened thread ${threadId} for session ${session.id} beside ${owner.id}'s thread`);
+
+    await transport.send(message.channelId, `↪️ Started \`${session.id}\` in a new thread - this one stays with \`${owner.id}\`.`);
+    return threadId;
+  }
+
+  /**
+   * "!arbiter cancel [id]" - withdraw a queued request or stop a running Claude session
+   * Without an ID: the sender's latest queued request in the channel, else the channel's running session
+   */
+  private async cancelFromCommand(
+    command: Extract<ArbiterCommand, { name: 'cancel' }>,
+    message: ChatMessage,
+    transport: Transport
+  ): Promise<void> {
+    if (!command.id || command.id.startsWith('queue-')) {
+      const request = this.scheduler.findByCommand(message, { requestId: command.id });
+      if (request) {
+        await this.cancelQueuedRequest(request, message, transport);
+        return;
+      }
+      if (command.id) {
+        await transport.send(message.channelId, `❓ Request \`${command.id}\` isn't queued.`);
+        return;
+      }
+    }
+
+    const session = this.resolveCommandSession(message, command.id);
+    if (!session || !this.coordinator.getActiveSessions().some((s) => s.id === session.id)) {
+      await transport.send(
+        message.channelId,
+        command.id ? `❓ Session \`${command.id}\` isn't running.` : `❓ There's no running session in this channel.`
+      );
+      return;
+    }
+
+    if (!this.mayControl(session.triggeredBy, message)) {
+      await transport.send(
+        message.channelId,
+        `🚫 Only ${session.triggeredBy.authorName} or a **maintainer** can cancel \`${session.id}\`.`
+      );
+      return;
+    }
+
+    const result = await this.cancelSession(session.id, { by: message.authorName, keepWip: command.keepWip });
+    await transport.send(message.channelId, result.message);
+  }
+
+  /**
+   * Cancel a running session: abort its Claude run, then (once the run has stopped)
+   * optionally commit the work in progress, abandon the session and complete it in the coordinator
+   * Used by "!arbiter cancel", the dashboard and SIGTERM handling
+   */
+  async cancelSession(sessionId: string, options: CancelOptions): Promise<CancelResult> {
+    const session = this.worktreeManager.getSession(sessionId);
+    if (!session || !this.coordinator.getActiveSessions().some((s) => s.id === sessionId)) {
+      return { cancelled: false, message: `❓ Session \`${sessionId}\` isn't running.` };
+    }
+
+    if (session.status === 'reviewing') {
+      return { cancelled: false, message: `🔍 \`${sessionId}\` is awaiting review - reply \`reject ${sessionId}\` to discard it.` };
+    }
+
+    if (this.cancelledSessions.has(sessionId)) {
+      return { cancelled: false, message: `⏳ \`${sessionId}\` is already being cancelled.` };
+    }
+
+    const runner = this.activeRunners.get(sessionId);
+    if (!runner) {
+      return {
+        cancelled: false,
+        message: `⏳ \`${sessionId}\` isn't running Claude right now (it's between steps, verifying or merging). Try again in a moment.`,
+      };
+    }
+
+    this.cancelledSessions.set(sessionId, options);
+    console.log(`[Arbiter] Cancelling session ${sessionId} (requested by ${options.by})`);
+    getLogStore().info('Arbiter', `Cancel requested for session ${sessionId}`, {
+      sessionId,
+      by: options.by,
+      keepWip: options.keepWip ?? false,
+    });
+    runner.abort();
+
+    return {
+      cancelled: true,
+      message: `🛑 Cancelling \`${sessionId}\`${options.keepWip ? ' (keeping the work in progress)' : ''}...`,
+    };
+  }
+
+  /**
+   * Cancel sessions the dashboard asked to cancel
+   */
+  private async processCancelRequests(): Promise<void> {
+    for (const request of await takeCancelRequests()) {
+      const result = await this.cancelSession(request.sessionId, {
+        by: `${request.requestedBy} (dashboard)`,
+        keepWip: request.keepWip,
+      });
+      getLogStore().info('Arbiter', `Dashboard cancel for ${request.sessionId}: ${result.message}`, {
+        sessionId: request.sessionId,
+        cancelled: result.cancelled,
+      });
+    }
+  }
+
+  /**
+   * "!arbiter diff [id]" / "!arbiter logs [id]"
+   */
+  private async inspectFromCommand(
+    command: Extract<ArbiterCommand, { name: 'diff' | 'logs' }>,
+    message: ChatMessage,
+    transport: Transport
+  ): Promise<void> {
+    const session = this.resolveCommandSession(message, command.sessionId);
+    if (!session) {
+      await transport.send(
+        message.channelId,
+        command.sessionId ? `❓ Unknown session \`${command.sessionId}\`.` : `❓ There's no active session in this channel.`
+      );
+      return;
+    }
+
+    if (command.name === 'logs') {
+      const entries = await getLogStore().getLogsFromDb({ sessionId: session.id, limit: 10 });
+      await transport.send(message.channelId, formatLogLines(session.id, entries));
+      return;
+    }
+
+    if (!['creating', 'active', 'reviewing'].includes(session.status)) {
+      await transport.send(message.channelId, `❓ Session \`${session.id}\` is ${session.status}, its worktree is gone.`);
+      return;
+    }
+
+    // Committed checkpoints, then whatever Claude hasn't committed yet
+    const diff = [
+      await this.worktreeManager.getDiff(session.id, true),
+      await this.worktreeManager.getDiff(session.id),
+    ].filter((d) => d.trim()).join('\n');
+    await transport.send(message.channelId, formatDiff(session.id, diff, transport.maxMessageLength ?? 2000));
+  }
+
+  /**
+   * Give back a slot taken for a session that won't start after all
+   */
+  private releaseUnusedSlot(): void {
+    this.scheduler.release();
+    this.startQueuedSessions();
+  }
+
+  /**
+   * Start queued self-edit and apply-patch requests while there are free slots
+   */
+  private startQueuedSessions(): void {
+    while (
+      this.coordinator.canStartSession() &&
+      this.scheduler.hasCapacity(this.coordinator.getActiveSessionCount())
+    ) {
+      const request = this.scheduler.dequeue();
+      if (!request) {
+        return;
+      }
+
+      const waited = Math.round((Date.now() - request.queuedAt.getTime()) / 1000);
+      console.log(`[Arbiter] Starting queued request ${request.id} (waited ${waited}s, ${this.scheduler.getQueue().length} still queued)`);
+      getLogStore().info('Scheduler', `Starting queued request ${request.id}`, {
+        requestId: request.id,
+        waitedSeconds: waited,
+        queued: this.scheduler.getQueue().length,
+      });
+
+      // Both take their slot before their first await, so the loop sees it
+      const start = request.decision.actionType === 'apply_patch'
+        ? this.applyPatchSession(request.messages, request.decision, request.transport, request.statusChannelId)
+        : this.startSelfEditSession(request.messages, request.decision, request.transport, request.statusChannelId);
+      start
+        .catch((error) => {
+          console.error(`[Arbiter] Failed to start queued request ${request.id}:`, error);
+          this.emit('error', error instanceof Error ? error : new Error(String(error)));
+        });
+    }
+  }
+
+  /**
+   * Check today's budget right before running Claude for a follow-up, resume, research session,
+   * verification fix-up or conflict resolution
+   * Tells the user what can't be done if it is spent
+   */
+  private async withinBudget(message: ChatMessage, transport: Transport, refused: string): Promise<boolean> {
+    const budget = await getUsageLedger().checkBudget(message.authorId);
+    if (!budget.exceeded) {
+      return true;
+    }
+
+    console.log(`[Arbiter] Budget reached, not going to ${refused} for ${message.authorName}: ${budget.reason}`);
+    await transport.send(message.channelId, `💸 ${budget.reason} - I can't ${refused} until it resets at midnight UTC.`);
+    return false;
+  }
+
+  /**
+   * Continue an interrupted session in its (possibly recreated) worktree
+   */
+  private async resumeSession(session: WorkSession, message: ChatMessage, transport: Transport): Promise<void> {
+    if (!this.coordinator.canStartSession()) {
+      await transport.send(message.channelId, `⏳ **Cannot resume right now** - a restart is pending. Try again afterwards.`);
+      return;
+    }
+
+    if (!(await this.withinBudget(message, transport, 'resume sessions'))) {
+      return;
+    }
+
+    // A resumed session runs Claude again, so it needs a slot like a new one
+    if (!this.scheduler.tryAcquire(this.coordinator.getActiveSessionCount())) {
+      await transport.send(
+        message.channelId,
+        `⏳ **Cannot resume right now** - all ${this.scheduler.getMaxParallel()} session slots are busy. Try again when one frees up.`
+      );
+      return;
+    }
+
+    let sessionRegistered = false;
+    try {
+      await this.worktreeManager.reopenSession(session.id);
+      this.coordinator.registerSession(session, this.resolveChannelPolicy(message)?.statusChannelId);
+      sessionRegistered = true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await transport.send(message.channelId, `❌ Failed to resume session \`${session.id}\`: ${errorMessage}`);
+      return;
+    } finally {
+      this.scheduler.release();
+      if (!sessionRegistered) {
+        this.startQueuedSessions();
+      }
+    }
+
+    getLogStore().setContext({
+      sessionId: session.id,
+      channelId: message.channelId,
+      userId: message.authorId,
+    });
+    getLogStore().info('Arbiter', `Resuming interrupted session ${session.id}`, { sessionId: session.id, by: message.authorName });
+
+    const outputStream = new LiveOutputStream(transport, this.sessionChannelId(session), 2000);
+    await outputStream.start(
+      `🔁 **Resuming interrupted session**\n` +
+      `Branch: \`${session.branchName}\`\n` +
+      `Task: ${session.triggeredBy.content.slice(0, 100)}`
+    );
+    this.trackStatusMessage(session, outputStream);
+
+    // Without queued follow-ups, ask Claude to pick the original task back up
+    if (session.pendingMessages.length === 0) {
+      session.pendingMessages.push({
+        ...message,
+        content: 'The previous run was interrupted by a restart. Finish the original task.',
+      });
+    }
+
+    await this.handleCheckpointContinuation(session, outputStream, transport);
+  }
+
+  /**
+   * Announce a rollback performed by the boot guard in the status channel
+   */
+  private async announceRollback(): Promise<void> {
+    const notice = takeRollbackNotice(this.config.gitRepoPath);
+    if (!notice) return;
+
+    getLogStore().error('Rollback', `Rolled back session ${notice.sessionId}: ${notice.reason}`, {
+      sessionId: notice.sessionId,
+      mergeCommit: notice.mergeCommit,
+      revertCommit: notice.revertCommit,
+    });
+
+    const channelId = this.statusChannelId ?? notice.channelId;
+    if (!channelId) {
+      console.log(`[Arbiter] Rollback (no channel): session ${notice.sessionId}`);
+      return;
+    }
+
+    await this.sendToChannel(
+      channelId,
+      `⏪ **Automatic rollback**\n` +
+      `Session: \`${notice.sessionId}\`\n` +
+      `Reverted merge \`${notice.mergeCommit.slice(0, 8)}\` as \`${notice.revertCommit.slice(0, 8)}\` because ${notice.reason}.\n` +
+      `The session's branch is still available if you want to fix and retry.`
+    );
+  }
+
+  /**
+   * Tell each channel about sessions that were interrupted by the last restart
+   */
+  private async reportInterruptedSessions(): Promise<void> {
+    for (const session of this.worktreeManager.getInterruptedSessions()) {
+      const pending = session.pendingMessages.length;
+      await this.sendToChannel(
+        this.sessionChannelId(session),
+        `⚠️ **Session interrupted by a restart**\n` +
+        `Session: \`${session.id}\`\n` +
+        `Task: ${session.triggeredBy.content.slice(0, 100)}\n` +
+        `Branch: \`${session.branchName}\` (${session.commits.length} commit(s)` +
+        `${pending ? `, ${pending} unprocessed follow-up(s)` : ''})\n\n` +
+        `Reply \`resume ${session.id}\` to continue or \`abandon ${session.id}\` to discard it.`
+      );
+    }
+  }
+
+  /**
+   * Approve or reject a pending review if the reviewer may merge
+   */
+  private async settleReview(
+    sessionId: string,
+    approve: boolean,
+    reviewer: AuthSubject,
+    transport: Transport
+  ): Promise<void> {
+    const auth = this.authorize(reviewer, 'merge', sessionId);
+    if (!auth.allowed) {
+      await transport.send(reviewer.channelId, formatDenial(reviewer, 'merge', auth));
+      return;
+    }
+
+    const outcome = approve ? 'approved' : 'rejected';
+    getLogStore().info('Review', `Session ${sessionId} ${outcome} by ${reviewer.authorName}`, {
+      sessionId,
+      outcome,
+      reviewerId: reviewer.authorId,
+    });
+    this.approvalGate.settle(sessionId, { outcome, reviewer });
+  }
+
+  /**
+   * Check an action against the author's role, auditing refusals
+   */
+  private authorize(message: AuthSubject, action: AuthAction, sessionId?: string): AuthResult {
+    const result = this.authorizer.check(message, action);
+    if (!result.allowed) {
+      auditDenial(message, action, result, sessionId);
+    }
+    return result;
+  }
+
+  /**
+   * Request a restart after a merge, if the requester may restart the bot
+   */
+  private async requestRestartAfterMerge(
+    message: AuthSubject,
+    taskDescription: string,
+    sessionId: string,
+    transport: Transport
+  ): Promise<void> {
+    const auth = this.authorize(message, 'restart', sessionId);
+    if (!auth.allowed) {
+      await transport.send(
+        message.channelId,
+        `${formatDenial(message, 'restart', auth)}\nThe merged changes will go live on the next restart.`
+      );
+      return;
+    }
+
+    this.coordinator.requestRestart(
+      `Code merged to main: ${taskDescription}`,
+      message.authorName,
+      message.channelId
+    );
+  }
+
+  /**
+   * Finalize a session whose changes were committed but whose requester may not merge
+   */
+  private async finalizeUnauthorizedMerge(
+    session: WorkSession,
+    commitHash: string,
+    auth: AuthResult,
+    outputStream: LiveOutputStream
+  ): Promise<void> {
+    await outputStream.finalize(
+      `**Changes committed but not merged**\n\n` +
+      `${formatDenial(session.triggeredBy, 'merge', auth)}\n\n` +
+      `Branch \`${session.branchName}\` has been kept for a maintainer to review and merge.\n` +
+      `Commit: \`${commitHash.slice(0, 8)}\``,
+      false
+    );
+
+    this.coordinator.completeSession(session.id, true, 'Committed, awaiting maintainer merge');
+  }
+
+  /**
+   * Process a message directly without queueing
+   */
+  private async processMessageDirectly(
+    message: ChatMessage,
+    decision: ArbiterDecision,
+    context: MessageContext,
+    transport: Transport
+  ): Promise<void> {
+    console.log(`[Arbiter] Direct processing: ${decision.actionType} (${decision.confidence}%)`);
+
+    switch (decision.actionType) {
+      case 'acknowledge':
+        const ack = getQuickAcknowledgment(message);
+        await transport.send(message.channelId, ack);
+        console.log(`[Arbiter] Acknowledged: "${ack}"`);
+        break;
+
+      case 'research':
+        await this.startResearchSession(message, decision, context, transport);
+        break;
+
+      case 'respond':
+        try {
+          console.log(`[Arbiter] Generating response...`);
+          const response = await generateResponse(message, context);
+          await transport.send(message.channelId, response);
+          console.log(`[Arbiter] Sent response:\n${response}`);
+        } catch (error) {
+          console.error('[Arbiter] Response generation failed:', error);
+        }
+        break;
+
+      case 'defer':
+        // Still acknowledge that we saw it
+        await transport.send(message.channelId, "I'll look into that when I have a moment.");
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Process aggregated messages
+   */
+  private async processAggregatedMessages(
+    messages: ChatMessage[],
+    transport: Transport
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    // Use the most recent message for decision making
+    const primaryMessage = messages[messages.length - 1];
+    const policy = this.resolveChannelPolicy(primaryMessage);
+    if (!policy) return;
+
+    const context = await this.buildMessageContext(primaryMessage, transport);
+
+    // Add all messages to context
+    context.messages = [...messages, ...context.messages];
+
+    const decision = this.applyChannelPolicy(
+      await makeDecision(primaryMessage, context),
+      policy
+    );
+
+    this.emit('decision', primaryMessage, decision);
+
+    if (decision.shouldAct && decision.confidence >= policy.confidenceThreshold) {
+      if (decision.actionType === 'self_edit') {
+        await this.startSelfEditSession(messages, decision, transport, policy.statusChannelId);
+      } else if (decision.actionType === 'apply_patch') {
+        await this.applyPatchSession(messages, decision, transport, policy.statusChannelId);
+      } else {
+        // Queue the primary message
+        this.messageQueue.enqueue(primaryMessage, { priority: 'normal' });
+      }
+    }
+  }
+
+  /**
+   * Queue a self_edit/apply_patch request until a session slot frees up
+   */
+  private async queueSessionRequest(
+    messages: ChatMessage[],
+    decision: ArbiterDecision,
+    transport: Transport,
+    taskDescription: string,
+    statusChannelId?: string
+  ): Promise<void> {
+    const primaryMessage = messages[messages.length - 1];
+    const { request, position } = this.scheduler.enqueue({ messages, decision, transport, statusChannelId });
+    const active = this.coordinator.getActiveSessionCount();
+    console.log(`[Arbiter] Queued ${decision.actionType} request ${request.id} at position ${position}`);
+    getLogStore().info('Scheduler', `Queued ${decision.actionType} request ${request.id}`, {
+      requestId: request.id,
+      actionType: decision.actionType,
+      position,
+      activeSessions: active,
+      maxParallel: this.scheduler.getMaxParallel(),
+      requestedBy: primaryMessage.authorName,
+      taskDescription,
+    });
+    await transport.send(
+      primaryMessage.channelId,
+      `🕒 **Queued** - position ${position} (\`${request.id}\`)\n` +
+      `All ${this.scheduler.getMaxParallel()} session slots are busy. ` +
+      `I'll start on "${taskDescription}" when one frees up.\n` +
+      `Reply \`!arbiter cancel ${request.id}\` to withdraw the request.`
+    );
+  }
+
+  /**
+   * Start a self-editing session with Claude Code CLI
+   */
+  private async startSelfEditSession(
+    messages: ChatMessage[],
+    decision: ArbiterDecision,
+    transport: Transport,
+    statusChannelId?: string
+  ): Promise<void> {
+    const primaryMessage = messages[messages.length - 1];
+    const taskDescription = decision.suggestedApproach ?? primaryMessage.content.slice(0, 50);
+    const channelId = primaryMessage.channelId;
+
+    // Check the requester may trigger self-edits at all
+    const selfEditAuth = this.authorize(primaryMessage, 'self_edit');
+    if (!selfEditAuth.allowed) {
+      await transport.send(channelId, formatDenial(primaryMessage, 'self_edit', selfEditAuth));
+      return;
+    }
+
+    // Check if we're accepting new sessions
+    if (!this.coordinator.canStartSession()) {
+      const pendingActions = this.coordinator.getPendingActions();
+      const reason = pendingActions[0]?.reason || 'pending action';
+      await transport.send(
+        channelId,
+        `⏳ **Cannot start new session**\n` +
+        `Reason: ${reason}\n` +
+        `Active sessions: ${this.coordinator.getActiveSessionCount()}\n\n` +
+        `Please wait for the bot to restart and try again.`
+      );
+      return;
+    }
+
+    // Queue the request if the maximum number of sessions is already running
+    if (!this.scheduler.tryAcquire(this.coordinator.getActiveSessionCount())) {
+      await this.queueSessionRequest(messages, decision, transport, taskDescription, statusChannelId);
+      return;
+    }
+
+    if (!(await this.checkSessionRateLimit(primaryMessage, transport, 'self_edit'))) {
+      this.releaseUnusedSlot();
+      return;
+    }
+
+    let session: WorkSession | null = null;
+    let outputStream: LiveOutputStream | null = null;
+    let sessionRegistered = false;
+
+    try {
+      try {
+        // Create work session
+        session = await this.worktreeManager.createSession(primaryMessage, taskDescription);
+
+        // Register with coordinator
+        this.coordinator.registerSession(session, statusChannelId);
+        sessionRegistered = true;
+      } finally {
+        // From here the coordinator's active count covers the session
+        this.scheduler.release();
+        if (!sessionRegistered) {
+          this.startQueuedSessions();
+        }
+      }
+
+      // Set logging context for this session
+      getLogStore().setContext({
+        sessionId: session.id,
+        channelId: primaryMessage.channelId,
+        userId: primaryMessage.authorId,
+      });
+
+      // Note: status channel should be configured via STATUS_CHANNEL_NAME or STATUS_CHANNEL_ID env vars
+      // This auto-setting is removed to prevent sessions in other channels from hijacking notifications
+
+      // Add all related messages
+      for (const msg of messages.slice(0, -1)) {
+        this.worktreeManager.addMessageToSession(session.id, msg);
+      }
+
+      this.emit('session:created', session);
 
       getLogStore().info('Arbiter', `Created self-edit session ${session.id}`, {
         branchName: session.branchName,
@@ -405,8 +1561,10 @@ export class Arbiter extends EventEmitter {
       });
       console.log(`[Arbiter] Created self-edit session ${session.id}`);
 
-      // Create output stream for Discord
-      outputStream = new DiscordOutputStream(discordTransport, channelId, 2000);
+      // Create live output stream (edits in place where the transport supports it),
+      // in the session's own thread where possible
+      const outputChannelId = await this.openSessionThread(session, primaryMessage, transport, taskDescription);
+      outputStream = new LiveOutputStream(transport, outputChannelId, 2000);
 
       // Send initial status message
       await outputStream.start(
@@ -415,6 +1573,10 @@ export class Arbiter extends EventEmitter {
         `Task: ${taskDescription}\n\n` +
         `⏳ Building enhanced prompt...`
       );
+      this.trackStatusMessage(session, outputStream);
+
+      // Download attachments (and apply patches) before Claude starts
+      const attachments = await this.ingestSessionAttachments(session, messages, outputStream);
 
       // Build context for Claude
       const context = await this.buildMessageContext(primaryMessage, transport);
@@ -426,6 +1588,8 @@ export class Arbiter extends EventEmitter {
         conversationHistory: context.messages,
         repoPath: session.worktreePath,
         branchName: session.branchName,
+        attachments,
+        usage: { sessionId: session.id, userId: primaryMessage.authorId, channelId },
       };
 
       // Build enhanced prompt using AI
@@ -440,11 +1604,12 @@ export class Arbiter extends EventEmitter {
 
       // Run Claude Code CLI with checkpoint support
       let checkpointAborted = false;
-      const runner = new ClaudeRunner();
+      const runner = this.createClaudeRunner();
 
-      const result = await runner.run({
+      const result = await this.runSessionClaude(session, runner, {
         workdir: session.worktreePath,
         prompt: claudePrompt,
+        transcriptPath: this.transcriptPath(session.id),
         onOutput: async (event) => {
           await outputStream!.handleEvent(event);
 
@@ -461,10 +1626,16 @@ export class Arbiter extends EventEmitter {
       });
 
       console.log(`[Arbiter] Claude finished with exit code ${result.exitCode}`);
+      this.recordClaudeUsage(session, result);
+
+      if (this.cancelledSessions.has(session.id)) {
+        await this.finishCancelledSession(session, outputStream);
+        return;
+      }
 
       // Handle checkpoint continuation
       if (checkpointAborted) {
-        await this.handleCheckpointContinuation(session, outputStream, discordTransport);
+        await this.handleCheckpointContinuation(session, outputStream, transport);
         return; // Continuation handles the rest
       }
 
@@ -479,64 +1650,14 @@ export class Arbiter extends EventEmitter {
         );
 
         if (commitHash) {
-          // Merge to main
-          outputStream.append('\n\n🔀 Merging to main...');
-          await outputStream.flush();
-
-          let mergeResult = await this.worktreeManager.mergeToMain(session.id);
-
-          // If merge failed due to conflicts, spawn Claude to fix them
-          if (!mergeResult.success && mergeResult.conflictType) {
-            outputStream.append('\n\n⚠️ Merge conflict detected! Spawning Claude to resolve...');
-            await outputStream.flush();
-
-            const conflictResolved = await this.resolveConflictsWithClaude(
-              session,
-              mergeResult,
-              outputStream,
-              discordTransport
-            );
-
-            if (conflictResolved) {
-              // Retry the merge
-              outputStream.append('\n\n🔀 Retrying merge...');
-              await outputStream.flush();
-              mergeResult = await this.worktreeManager.mergeToMain(session.id);
-            }
-          }
-
-          if (mergeResult.success) {
-            // Send success summary
-            await outputStream.finalize(
-              `**Changes merged to main!**\n\n` +
-              `Commit: \`${commitHash.slice(0, 8)}\`\n` +
-              `Branch: \`${session.branchName}\`\n\n` +
-              `**Summary:**\n${String(result.summary || 'No output').slice(0, 1500)}`,
-              true
-            );
-
-            this.emit('session:completed', session);
-
-            // Complete session with coordinator and request restart
-            this.coordinator.completeSession(session.id, true, taskDescription);
-            this.coordinator.requestRestart(
-              `Code merged to main: ${taskDescription}`,
-              primaryMessage.authorName,
-              channelId
-            );
-          } else {
-            // Merge failed even after conflict resolution attempt
-            await outputStream.finalize(
-              `**Changes committed but merge failed**\n\n` +
-              `Error: ${mergeResult.error}\n\n` +
-              `Branch \`${session.branchName}\` has been kept for manual resolution.\n` +
-              `Commit: \`${commitHash.slice(0, 8)}\``,
-              false
-            );
-
-            // Complete session as failed
-            this.coordinator.completeSession(session.id, false, mergeResult.error);
-          }
+          await this.mergeCommittedSession(
+            session,
+            commitHash,
+            String(result.summary || 'No output'),
+            taskDescription,
+            outputStream,
+            transport
+          );
         } else {
           // No changes to commit
           await outputStream.finalize(
@@ -554,50 +1675,493 @@ export class Arbiter extends EventEmitter {
         await outputStream.finalize(
           `**Task failed**\n\n` +
           `Exit code: ${result.exitCode}\n\n` +
-          `Branch \`${session.branchName}\` has been kept for debugging.\n\n` +
+          `Branch \`${session.branchName}\` has been kept for debugging.\n\n` +
+          `Output: ${String(result.summary || 'No output').slice(0, 1500)}`,
+          false
+        );
+
+        // Complete session as failed
+        this.coordinator.completeSession(session.id, false, `Exit code: ${result.exitCode}`);
+      }
+
+      // Clean up worktree (rejected reviews have already been abandoned)
+      if (session.status !== 'abandoned') {
+        try {
+          await this.worktreeManager.completeSession(session.id);
+        } catch (cleanupError) {
+          console.error('[Arbiter] Worktree cleanup error:', cleanupError);
+        }
+      }
+
+    } catch (error) {
+      console.error('[Arbiter] Self-edit session failed:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (outputStream) {
+        await outputStream.finalize(`**Session failed**\n\nError: ${errorMessage}`, false);
+      } else {
+        await transport.send(
+          channelId,
+          `❌ Failed to start self-edit session: ${errorMessage}`
+        );
+      }
+
+      // Complete session as failed (if it was registered)
+      if (session && sessionRegistered) {
+        this.coordinator.completeSession(session.id, false, errorMessage);
+      }
+
+      // Clean up if session was created
+      if (session) {
+        try {
+          await this.worktreeManager.abandonSession(session.id);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply a diff from the messages (pasted or a .patch attachment) in a fresh worktree and merge it
+   * Claude is never involved: a patch that doesn't apply, fails its checks or conflicts is reported instead
+   */
+  private async applyPatchSession(
+    messages: ChatMessage[],
+    decision: ArbiterDecision,
+    transport: Transport,
+    statusChannelId?: string
+  ): Promise<void> {
+    const primaryMessage = messages[messages.length - 1];
+    const channelId = primaryMessage.channelId;
+
+    // Applying a patch changes the code just like a self-edit does
+    const selfEditAuth = this.authorize(primaryMessage, 'self_edit');
+    if (!selfEditAuth.allowed) {
+      await transport.send(channelId, formatDenial(primaryMessage, 'self_edit', selfEditAuth));
+      return;
+    }
+
+    if (!this.coordinator.canStartSession()) {
+      const reason = this.coordinator.getPendingActions()[0]?.reason || 'pending action';
+      await transport.send(channelId, `⏳ **Cannot apply the patch right now**\nReason: ${reason}\n\nPlease wait for the bot to restart and try again.`);
+      return;
+    }
+
+    // Prefer a diff pasted in the newest message, then any .patch/.diff attachment
+    const textPatch = [...messages].reverse().map((m) => extractPatch(m.content)).find((p) => p !== null) ?? null;
+    const patchAttachment = messages.flatMap((m) => m.attachments ?? []).find((a) => classifyAttachment(a) === 'patch');
+    if (!textPatch && !patchAttachment) {
+      await transport.send(channelId, "❓ I couldn't find a diff to apply - paste it in a ```diff block or attach a .patch file.");
+      return;
+    }
+
+    const patchName = textPatch ? `patch to ${patchedFiles(textPatch).join(', ')}` : patchAttachment!.filename;
+    // A bare "apply this" says nothing about the change, so describe it by the files instead
+    const note = isBarePatch(primaryMessage) ? '' : stripPatch(primaryMessage.content);
+    const taskDescription = decision.suggestedApproach ?? (note ? note.slice(0, 50) : `Apply ${patchName}`.slice(0, 50));
+
+    // The merge restarts the bot, so a patch waits its turn like any other session
+    if (!this.scheduler.tryAcquire(this.coordinator.getActiveSessionCount())) {
+      await this.queueSessionRequest(messages, decision, transport, taskDescription, statusChannelId);
+      return;
+    }
+
+    if (!(await this.checkSessionRateLimit(primaryMessage, transport, 'apply_patch'))) {
+      this.releaseUnusedSlot();
+      return;
+    }
+
+    let session: WorkSession | null = null;
+    let outputStream: LiveOutputStream | null = null;
+    let sessionRegistered = false;
+
+    try {
+      try {
+        session = await this.worktreeManager.createSession(primaryMessage, taskDescription);
+        this.coordinator.registerSession(session, statusChannelId);
+        sessionRegistered = true;
+      } finally {
+        this.scheduler.release();
+        if (!sessionRegistered) {
+          this.startQueuedSessions();
+        }
+      }
+
+      getLogStore().setContext({
+        sessionId: session.id,
+        channelId: primaryMessage.channelId,
+        userId: primaryMessage.authorId,
+      });
+
+      for (const msg of messages.slice(0, -1)) {
+        this.worktreeManager.addMessageToSession(session.id, msg);
+      }
+
+      this.emit('session:created', session);
+
+      getLogStore().info('Arbiter', `Created apply-patch session ${session.id}`, {
+        branchName: session.branchName,
+        worktreePath: session.worktreePath,
+        patch: patchName,
+      });
+      console.log(`[Arbiter] Created apply-patch session ${session.id}`);
+
+      const outputChannelId = await this.openSessionThread(session, primaryMessage, transport, taskDescription);
+      outputStream = new LiveOutputStream(transport, outputChannelId, 2000);
+      await outputStream.start(
+        `🩹 **Applying patch in worktree**\n` +
+        `Branch: \`${session.branchName}\`\n` +
+        `Patch: ${patchName}`
+      );
+      this.trackStatusMessage(session, outputStream);
+
+      let patchPath: string;
+      if (textPatch) {
+        patchPath = await saveToScratch(session.worktreePath, `${primaryMessage.id}.patch`, textPatch);
+      } else {
+        const attachments = await ingestAttachments(messages, session.worktreePath, {
+          maxBytes: this.config.attachmentMaxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES,
+          maxFiles: this.config.attachmentMaxFiles ?? DEFAULT_ATTACHMENT_MAX_FILES,
+        }, this.attachmentHeaders);
+        const downloaded = attachments.find((a) => a.kind === 'patch');
+        if (!downloaded?.path) {
+          throw new Error(`Could not fetch ${patchName}: ${downloaded?.skipped ?? 'not downloaded'}`);
+        }
+        patchPath = downloaded.path;
+      }
+
+      const result = await this.worktreeManager.applyPatchWithFallback(session.id, patchPath);
+
+      if (!result.applied) {
+        getLogStore().warn('Arbiter', `Patch did not apply in session ${session.id}`, {
+          sessionId: session.id,
+          error: result.error,
+          files: result.files.map((f) => ({ path: f.path, status: f.status, rejected: f.hunks.filter((h) => !h.applied).map((h) => h.index) })),
+        });
+        await outputStream.finalize(
+          `**Patch did not apply**\n\n` +
+          `${formatRejectReport(result.files) || result.error || 'git apply failed'}\n\n` +
+          `Nothing was changed - update the patch against \`${this.worktreeManager.getDefaultBranch()}\` and send it again.`,
+          false
+        );
+        this.coordinator.completeSession(session.id, false, 'Patch did not apply');
+        await this.worktreeManager.abandonSession(session.id);
+        return;
+      }
+
+      outputStream.append(`\n\n✓ Applied ${result.method === '3way' ? 'with a three-way merge' : 'cleanly'}`);
+      outputStream.append('\n\n📝 Committing changes...');
+      await outputStream.flush();
+
+      const commitHash = await this.worktreeManager.commitChanges(
+        session.id,
+        `Apply patch: ${taskDescription}\n\nRequested by: ${primaryMessage.authorName}`
+      );
+
+      if (commitHash) {
+        await this.mergeCommittedSession(
+          session,
+          commitHash,
+          `Applied ${patchName}${note ? `\n\n${note}` : ''}`,
+          taskDescription,
+          outputStream,
+          transport,
+          { checks: this.config.patchCheckCommands, useClaude: false }
+        );
+      } else {
+        await outputStream.finalize(`**No changes were made**\n\nThe patch is already applied on \`${this.worktreeManager.getDefaultBranch()}\`.`, true);
+        this.coordinator.completeSession(session.id, true, 'No changes made');
+      }
+
+      // Clean up worktree (rejected reviews have already been abandoned)
+      if (session.status !== 'abandoned') {
+        try {
+          await this.worktreeManager.completeSession(session.id);
+        } catch (cleanupError) {
+          console.error('[Arbiter] Worktree cleanup error:', cleanupError);
+        }
+      }
+    } catch (error) {
+      console.error('[Arbiter] Apply-patch session failed:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (outputStream) {
+        await outputStream.finalize(`**Session failed**\n\nError: ${errorMessage}`, false);
+      } else {
+        await transport.send(channelId, `❌ Failed to apply the patch: ${errorMessage}`);
+      }
+
+      if (session && sessionRegistered) {
+        this.coordinator.completeSession(session.id, false, errorMessage);
+      }
+
+      if (session) {
+        try {
+          await this.worktreeManager.abandonSession(session.id);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    }
+  }
+
+  /**
+   * Investigate a question with a read-only Claude run (plan mode) in a throwaway worktree
+   * Progress streams to the channel, the answer cites file:line, and the worktree and
+   * branch are discarded afterwards - nothing is ever committed
+   */
+  private async startResearchSession(
+    message: ChatMessage,
+    decision: ArbiterDecision,
+    context: MessageContext,
+    transport: Transport
+  ): Promise<void> {
+    const taskDescription = decision.suggestedApproach ?? message.content.slice(0, 50);
+
+    // While a restart is pending or every session slot is busy, answer without Claude
+    if (!this.coordinator.canStartSession() || !this.scheduler.tryAcquire(this.coordinator.getActiveSessionCount())) {
+      console.log('[Arbiter] No session slot for research, answering directly');
+      await this.processMessageDirectly(message, { ...decision, actionType: 'respond' }, context, transport);
+      return;
+    }
+
+    // Research runs Claude like a self-edit, so it is budgeted and rate limited the same way
+    if (
+      !(await this.withinBudget(message, transport, 'start research')) ||
+      !(await this.checkSessionRateLimit(message, transport, 'research'))
+    ) {
+      this.releaseUnusedSlot();
+      await this.processMessageDirectly(message, { ...decision, actionType: 'respond' }, context, transport);
+      return;
+    }
+
+    let session: WorkSession | null = null;
+    let outputStream: LiveOutputStream | null = null;
+    let sessionRegistered = false;
+    let outcome: { success: boolean; summary: string } | null = null;
+
+    try {
+      try {
+        session = await this.worktreeManager.createSession(message, taskDescription, { readOnly: true });
+        this.coordinator.registerSession(session, this.resolveChannelPolicy(message)?.statusChannelId);
+        sessionRegistered = true;
+      } finally {
+        this.scheduler.release();
+        if (!sessionRegistered) {
+          this.startQueuedSessions();
+        }
+      }
+
+      getLogStore().setContext({
+        sessionId: session.id,
+        channelId: message.channelId,
+        userId: message.authorId,
+      });
+      getLogStore().info('Arbiter', `Created research session ${session.id}`, {
+        worktreePath: session.worktreePath,
+        taskDescription,
+      });
+      console.log(`[Arbiter] Created research session ${session.id}`);
+
+      const outputChannelId = await this.openSessionThread(session, message, transport, taskDescription);
+      outputStream = new LiveOutputStream(transport, outputChannelId, 2000);
+      await outputStream.start(
+        `🔎 **Researching**\n` +
+        `Question: ${taskDescription}\n\n` +
+        `🚀 Running Claude Code CLI (read-only)...\n`
+      );
+
+      const prompt = await buildResearchPrompt({
+        userRequest: message.content,
+        channelName: message.channelName || 'unknown',
+        authorName: message.authorName,
+        authorId: message.authorId,
+        conversationHistory: context.messages,
+        repoPath: session.worktreePath,
+        branchName: session.branchName,
+      });
+
+      const runner = this.createClaudeRunner();
+      const result = await this.runSessionClaude(session, runner, {
+        workdir: session.worktreePath,
+        prompt,
+        permissionMode: 'plan',
+        transcriptPath: this.transcriptPath(session.id),
+        onOutput: async (event) => {
+          await outputStream!.handleEvent(event);
+        },
+        onError: (error) => {
+          console.error('[Arbiter] Claude research error:', error);
+        },
+      });
+
+      console.log(`[Arbiter] Research finished with exit code ${result.exitCode}`);
+      this.recordClaudeUsage(session, result);
+
+      if (this.cancelledSessions.has(session.id)) {
+        await this.finishCancelledSession(session, outputStream);
+        return;
+      }
+
+      if (result.success) {
+        await outputStream.finalize(`**Answer**\n\n${String(result.summary || 'No output')}`, true);
+        outcome = { success: true, summary: 'Research answered' };
+      } else {
+        await outputStream.finalize(
+          `**Research failed**\n\n` +
+          `Exit code: ${result.exitCode}\n\n` +
           `Output: ${String(result.summary || 'No output').slice(0, 1500)}`,
           false
         );
-
-        // Complete session as failed
-        this.coordinator.completeSession(session.id, false, `Exit code: ${result.exitCode}`);
+        outcome = { success: false, summary: `Exit code: ${result.exitCode}` };
       }
-
-      // Clean up worktree
-      try {
-        await this.worktreeManager.completeSession(session.id);
-      } catch (cleanupError) {
-        console.error('[Arbiter] Worktree cleanup error:', cleanupError);
-      }
-
     } catch (error) {
-      console.error('[Arbiter] Self-edit session failed:', error);
+      console.error('[Arbiter] Research session failed:', error);
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
       if (outputStream) {
-        await outputStream.finalize(`**Session failed**\n\nError: ${errorMessage}`, false);
+        await outputStream.finalize(`**Research failed**\n\nError: ${errorMessage}`, false);
       } else {
-        await transport.send(
-          channelId,
-          `❌ Failed to start self-edit session: ${errorMessage}`
-        );
+        await transport.send(message.channelId, `❌ Failed to start research: ${errorMessage}`);
       }
-
-      // Complete session as failed (if it was registered)
-      if (session && sessionRegistered) {
-        this.coordinator.completeSession(session.id, false, errorMessage);
+      outcome = { success: false, summary: errorMessage };
+    } finally {
+      // Research never keeps anything: drop the worktree and its branch, then complete
+      // the session (cancelled sessions have done both already)
+      if (session && session.status !== 'abandoned') {
+        try {
+          await this.worktreeManager.abandonSession(session.id);
+        } catch (cleanupError) {
+          console.error('[Arbiter] Research worktree cleanup error:', cleanupError);
+        }
+      }
+      if (session && sessionRegistered && outcome) {
+        this.coordinator.completeSession(session.id, outcome.success, outcome.summary);
       }
+    }
+  }
 
-      // Clean up if session was created
-      if (session) {
+  /**
+   * The connected transport a message came in through
+   */
+  private transportFor(message: ChatMessage): Transport | undefined {
+    return [...this.transports.values()].find((t) => t.type === message.transport);
+  }
+
+  /**
+   * Auth headers for downloading an attachment, from the transport it was posted on
+   */
+  private attachmentHeaders = (attachment: Attachment, message: ChatMessage): Record<string, string> | undefined =>
+    this.transportFor(message)?.getAttachmentHeaders?.(attachment);
+
+  /**
+   * Download the attachments of a session's messages into its worktree
+   * and apply patch attachments, reporting each one in the live output
+   */
+  private async ingestSessionAttachments(
+    session: WorkSession,
+    messages: ChatMessage[],
+    outputStream: LiveOutputStream
+  ): Promise<IngestedAttachment[]> {
+    const count = messages.reduce((n, m) => n + (m.attachments?.length ?? 0), 0);
+    if (count === 0) {
+      return [];
+    }
+
+    outputStream.append(`\n\n📎 Fetching ${count} attachment(s)...`);
+    await outputStream.flush();
+
+    let attachments: IngestedAttachment[];
+    try {
+      attachments = await ingestAttachments(messages, session.worktreePath, {
+        maxBytes: this.config.attachmentMaxBytes ?? DEFAULT_ATTACHMENT_MAX_BYTES,
+        maxFiles: this.config.attachmentMaxFiles ?? DEFAULT_ATTACHMENT_MAX_FILES,
+      }, this.attachmentHeaders);
+    } catch (error) {
+      console.error('[Arbiter] Failed to ingest attachments:', error);
+      outputStream.append(`\n❌ Attachments unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+
+    for (const attachment of attachments) {
+      if (attachment.kind === 'patch' && attachment.path && this.config.applyPatchAttachments !== false) {
         try {
-          await this.worktreeManager.abandonSession(session.id);
-        } catch {
-          // Ignore cleanup errors
+          await this.worktreeManager.applyPatch(session.id, attachment.path);
+          attachment.applied = true;
+        } catch (error) {
+          attachment.applyError = (error instanceof Error ? error.message : String(error)).split('\n')[0];
         }
       }
+      outputStream.append(`\n${formatAttachmentStatus(attachment)}`);
+    }
+    await outputStream.flush();
+
+    getLogStore().info('Arbiter', `Ingested ${attachments.filter((a) => a.path).length}/${attachments.length} attachment(s)`, {
+      sessionId: session.id,
+      attachments: attachments.map((a) => ({ filename: a.filename, kind: a.kind, applied: a.applied, skipped: a.skipped })),
+    });
+    return attachments;
+  }
+
+  /**
+   * Run Claude on a session's task, keeping the runner reachable for "!arbiter cancel"
+   */
+  private async runSessionClaude(
+    session: WorkSession,
+    runner: ClaudeRunner,
+    config: ClaudeRunnerConfig
+  ): Promise<ClaudeRunResult> {
+    this.activeRunners.set(session.id, runner);
+    try {
+      return await runner.run(config);
+    } finally {
+      this.activeRunners.delete(session.id);
+    }
+  }
+
+  /**
+   * Wrap up a session whose Claude run was stopped by cancelSession()
+   * Completes it in the coordinator last, so a shutdown waiting on it doesn't exit mid-cleanup
+   */
+  private async finishCancelledSession(session: WorkSession, outputStream: LiveOutputStream): Promise<void> {
+    const { by, keepWip } = this.cancelledSessions.get(session.id) ?? { by: 'unknown' };
+    this.cancelledSessions.delete(session.id);
+
+    // Research sessions have no work worth keeping
+    let wipCommit = '';
+    if (keepWip && !session.readOnly) {
+      try {
+        wipCommit = await this.worktreeManager.commitChanges(
+          session.id,
+          `WIP: ${session.triggeredBy.content.slice(0, 50)}\n\nCancelled by: ${by}`
+        );
+      } catch (error) {
+        console.error('[Arbiter] Failed to commit work in progress:', error);
+      }
     }
+
+    // Checkpoint commits count as work in progress too
+    const keepBranch = !!keepWip && !session.readOnly && (!!wipCommit || session.commits.length > 0);
+    await this.worktreeManager.abandonSession(session.id, { keepBranch });
+
+    await outputStream.finalizeCancelled(
+      `Cancelled by ${by}.\n\n` +
+      (keepBranch
+        ? `Work in progress kept on branch \`${session.branchName}\`` + (wipCommit ? ` (commit \`${wipCommit.slice(0, 8)}\`).` : '.')
+        : `Branch \`${session.branchName}\` has been deleted.`)
+    );
+
+    getLogStore().info('Arbiter', `Cancelled session ${session.id}`, {
+      sessionId: session.id,
+      by,
+      keptBranch: keepBranch,
+      wipCommit: wipCommit || undefined,
+    });
+    this.coordinator.completeSession(session.id, false, `Cancelled by ${by}`);
   }
 
   /**
@@ -605,8 +2169,8 @@ export class Arbiter extends EventEmitter {
    */
   private async handleCheckpointContinuation(
     session: WorkSession,
-    outputStream: DiscordOutputStream,
-    transport: DiscordTransport
+    outputStream: LiveOutputStream,
+    transport: Transport
   ): Promise<void> {
     console.log(`[Arbiter] Handling checkpoint continuation for session ${session.id}`);
 
@@ -625,24 +2189,29 @@ export class Arbiter extends EventEmitter {
         await outputStream.flush();
       }
 
+      // Follow-ups can bring attachments too
+      const attachments = await this.ingestSessionAttachments(session, session.pendingMessages, outputStream);
+
       // Build continuation prompt with pending messages
-      const continuationPrompt = buildContinuationPrompt(session, diff);
+      const continuationPrompt = buildContinuationPrompt(session, diff, attachments);
 
       // Clear the checkpoint flags
       const pendingCount = session.pendingMessages.length;
       session.pendingMessages = [];
       session.shouldCheckpoint = false;
+      this.worktreeManager.saveSession(session.id);
 
       outputStream.append(`\n🚀 Continuing with ${pendingCount} new instruction(s)...\n`);
       await outputStream.flush();
 
       // Run Claude again with continuation prompt
       let checkpointAborted = false;
-      const runner = new ClaudeRunner();
+      const runner = this.createClaudeRunner();
 
-      const result = await runner.run({
+      const result = await this.runSessionClaude(session, runner, {
         workdir: session.worktreePath,
         prompt: continuationPrompt,
+        transcriptPath: this.transcriptPath(session.id),
         onOutput: async (event) => {
           await outputStream.handleEvent(event);
 
@@ -657,6 +2226,12 @@ export class Arbiter extends EventEmitter {
           console.error('[Arbiter] Claude continuation error:', error);
         },
       });
+      this.recordClaudeUsage(session, result);
+
+      if (this.cancelledSessions.has(session.id)) {
+        await this.finishCancelledSession(session, outputStream);
+        return;
+      }
 
       // Handle nested checkpoint (recursive)
       if (checkpointAborted) {
@@ -675,59 +2250,14 @@ export class Arbiter extends EventEmitter {
         );
 
         if (finalCommitHash) {
-          outputStream.append('\n\n🔀 Merging to main...');
-          await outputStream.flush();
-
-          let mergeResult = await this.worktreeManager.mergeToMain(session.id);
-
-          if (!mergeResult.success && mergeResult.conflictType) {
-            outputStream.append('\n\n⚠️ Merge conflict detected! Spawning Claude to resolve...');
-            await outputStream.flush();
-
-            const conflictResolved = await this.resolveConflictsWithClaude(
-              session,
-              mergeResult,
-              outputStream,
-              transport
-            );
-
-            if (conflictResolved) {
-              outputStream.append('\n\n🔀 Retrying merge...');
-              await outputStream.flush();
-              mergeResult = await this.worktreeManager.mergeToMain(session.id);
-            }
-          }
-
-          if (mergeResult.success) {
-            await outputStream.finalize(
-              `**Changes merged to main!**\n\n` +
-              `Commit: \`${finalCommitHash.slice(0, 8)}\`\n` +
-              `Branch: \`${session.branchName}\`\n` +
-              `Checkpoints: ${session.checkpointCount}\n\n` +
-              `**Summary:**\n${String(result.summary || 'No output').slice(0, 1500)}`,
-              true
-            );
-            this.emit('session:completed', session);
-
-            // Complete session and request restart
-            const taskDescription = session.triggeredBy.content.slice(0, 50);
-            this.coordinator.completeSession(session.id, true, taskDescription);
-            this.coordinator.requestRestart(
-              `Code merged to main: ${taskDescription}`,
-              session.triggeredBy.authorName,
-              session.triggeredBy.channelId
-            );
-          } else {
-            await outputStream.finalize(
-              `**Changes committed but merge failed**\n\n` +
-              `Error: ${mergeResult.error}\n\n` +
-              `Branch \`${session.branchName}\` has been kept for manual resolution.`,
-              false
-            );
-
-            // Complete session as failed
-            this.coordinator.completeSession(session.id, false, mergeResult.error);
-          }
+          await this.mergeCommittedSession(
+            session,
+            finalCommitHash,
+            String(result.summary || 'No output'),
+            session.triggeredBy.content.slice(0, 50),
+            outputStream,
+            transport
+          );
         } else {
           await outputStream.finalize(
             `**No additional changes made**\n\n` +
@@ -751,11 +2281,13 @@ export class Arbiter extends EventEmitter {
         this.coordinator.completeSession(session.id, false, `Continuation failed (exit ${result.exitCode})`);
       }
 
-      // Clean up worktree
-      try {
-        await this.worktreeManager.completeSession(session.id);
-      } catch (cleanupError) {
-        console.error('[Arbiter] Worktree cleanup error:', cleanupError);
+      // Clean up worktree (rejected reviews have already been abandoned)
+      if (session.status !== 'abandoned') {
+        try {
+          await this.worktreeManager.completeSession(session.id);
+        } catch (cleanupError) {
+          console.error('[Arbiter] Worktree cleanup error:', cleanupError);
+        }
       }
 
     } catch (error) {
@@ -774,6 +2306,433 @@ export class Arbiter extends EventEmitter {
     }
   }
 
+  /**
+   * Take a committed session through review (or merge authorization), merge it to main
+   * and request a restart
+   */
+  private async mergeCommittedSession(
+    session: WorkSession,
+    commitHash: string,
+    summary: string,
+    taskDescription: string,
+    outputStream: LiveOutputStream,
+    transport: Transport,
+    options: MergeOptions = {}
+  ): Promise<void> {
+    const useClaude = options.useClaude ?? true;
+
+    // Run pre-merge checks (fix-up runs may add commits)
+    const checks = options.checks ?? this.config.verifyCommands ?? [];
+    if (checks.length) {
+      const verifiedHash = await this.verifySession(session, taskDescription, outputStream, transport, checks, useClaude);
+      if (!verifiedHash) {
+        return;
+      }
+      commitHash = verifiedHash;
+    }
+
+    // PR mode: review and merge happen on the forge
+    if (this.forge) {
+      await this.openPullRequest(this.forge, session, commitHash, summary, taskDescription, outputStream);
+      return;
+    }
+
+    // Whoever signs off on the merge is also the one who needs restart permission
+    let mergedBy: AuthSubject = session.triggeredBy;
+
+    if (this.config.reviewMode) {
+      const review = await this.awaitReview(session, commitHash, outputStream, transport);
+      if (review.outcome !== 'approved' || !review.reviewer) {
+        await this.finalizeRejectedReview(session, commitHash, review, outputStream);
+        return;
+      }
+      mergedBy = review.reviewer;
+      outputStream.append(`\n\n👍 Approved by ${mergedBy.authorName}`);
+    } else {
+      const mergeAuth = this.authorize(session.triggeredBy, 'merge', session.id);
+      if (!mergeAuth.allowed) {
+        await this.finalizeUnauthorizedMerge(session, commitHash, mergeAuth, outputStream);
+        return;
+      }
+    }
+
+    // Merge to main
+    outputStream.append('\n\n🔀 Merging to main...');
+    await outputStream.flush();
+
+    let mergeResult = await this.worktreeManager.mergeToMain(session.id);
+
+    // If merge failed due to conflicts, spawn Claude to fix them
+    if (!mergeResult.success && mergeResult.conflictType && useClaude) {
+      outputStream.append('\n\n⚠️ Merge conflict detected! Spawning Claude to resolve...');
+      await outputStream.flush();
+
+      const conflictResolved = await this.resolveConflictsWithClaude(
+        session,
+        mergeResult,
+        outputStream,
+        transport
+      );
+
+      if (this.cancelledSessions.has(session.id)) {
+        // Claude may have stopped halfway through its own `git merge`
+        try {
+          await this.worktreeManager.abortMergeInProgress();
+        } catch (error) {
+          console.error('[Arbiter] Failed to abort the unfinished merge:', error);
+        }
+        await this.finishCancelledSession(session, outputStream);
+        return;
+      }
+
+      if (conflictResolved) {
+        // Retry the merge
+        outputStream.append('\n\n🔀 Retrying merge...');
+        await outputStream.flush();
+        mergeResult = await this.worktreeManager.mergeToMain(session.id);
+      }
+    }
+
+    if (mergeResult.success) {
+      // Send success summary
+      await outputStream.finalize(
+        `**Changes merged to main!**\n\n` +
+        `Commit: \`${commitHash.slice(0, 8)}\`\n` +
+        `Branch: \`${session.branchName}\`\n` +
+        (session.checkpointCount > 0 ? `Checkpoints: ${session.checkpointCount}\n` : '') +
+        (this.config.reviewMode ? `Approved by: ${mergedBy.authorName}\n` : '') +
+        `\n**Summary:**\n${summary.slice(0, 1500)}`,
+        true
+      );
+
+      this.emit('session:completed', session);
+
+      // Remember the merge so the boot guard can revert it if the new code won't start
+      if (mergeResult.mergeCommit) {
+        try {
+          recordPendingMerge(this.config.gitRepoPath, {
+            sessionId: session.id,
+            mergeCommit: mergeResult.mergeCommit,
+            branchName: session.branchName,
+            mergedAt: new Date().toISOString(),
+            channelId: session.triggeredBy.channelId,
+          });
+        } catch (error) {
+          console.error('[Arbiter] Failed to record merge for rollback:', error);
+        }
+      }
+
+      // Complete session with coordinator and request restart
+      this.coordinator.completeSession(session.id, true, taskDescription);
+      await this.requestRestartAfterMerge(mergedBy, taskDescription, session.id, transport);
+    } else {
+      // Merge failed (even after a conflict resolution attempt, if Claude was allowed one)
+      await outputStream.finalize(
+        `**Changes committed but merge failed**\n\n` +
+        `Error: ${mergeResult.error}\n\n` +
+        `Branch \`${session.branchName}\` has been kept for manual resolution.\n` +
+        `Commit: \`${commitHash.slice(0, 8)}\``,
+        false
+      );
+
+      // Complete session as failed
+      this.coordinator.completeSession(session.id, false, mergeResult.error);
+    }
+  }
+
+  /**
+   * Push the session branch and open a pull request instead of merging (no restart)
+   */
+  private async openPullRequest(
+    forge: ForgeAdapter,
+    session: WorkSession,
+    commitHash: string,
+    summary: string,
+    taskDescription: string,
+    outputStream: LiveOutputStream
+  ): Promise<void> {
+    try {
+      outputStream.append('\n\n⬆️ Pushing branch...');
+      await outputStream.flush();
+      await this.worktreeManager.pushBranch(session.id);
+
+      outputStream.append(`\n📬 Opening pull request on ${forge.name}...`);
+      await outputStream.flush();
+
+      const pr = await forge.createPullRequest({
+        title: `Self-edit: ${taskDescription}`,
+        body:
+          `Requested by ${session.triggeredBy.authorName} in #${session.triggeredBy.channelName ?? session.triggeredBy.channelId}\n\n` +
+          `> ${session.triggeredBy.content.slice(0, 500)}\n\n` +
+          `**Summary:**\n${summary.slice(0, 4000)}\n\n` +
+          `Session: \`${session.id}\``,
+        head: session.branchName,
+        base: this.worktreeManager.getDefaultBranch(),
+      });
+      session.pullRequest = pr;
+      session.updatedAt = new Date();
+      this.worktreeManager.saveSession(session.id);
+
+      getLogStore().info('Arbiter', `Opened PR #${pr.number} for session ${session.id}`, {
+        sessionId: session.id,
+        url: pr.url,
+        forge: forge.name,
+      });
+
+      await outputStream.finalize(
+        `**Pull request opened**\n\n` +
+        `${pr.url}\n\n` +
+        `Commit: \`${commitHash.slice(0, 8)}\`\n` +
+        `Branch: \`${session.branchName}\`\n\n` +
+        `**Summary:**\n${summary.slice(0, 1500)}`,
+        true
+      );
+
+      this.emit('session:completed', session);
+      this.coordinator.completeSession(session.id, true, `PR #${pr.number} opened`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('[Arbiter] Failed to open pull request:', error);
+
+      await outputStream.finalize(
+        `**Changes committed but no pull request was opened**\n\n` +
+        `Error: ${errorMessage}\n\n` +
+        `Branch \`${session.branchName}\` has been kept.\n` +
+        `Commit: \`${commitHash.slice(0, 8)}\``,
+        false
+      );
+
+      this.coordinator.completeSession(session.id, false, errorMessage);
+    }
+  }
+
+  /**
+   * Refresh the state of open pull requests and announce merges/closures
+   */
+  private async refreshPullRequests(): Promise<void> {
+    if (!this.forge) return;
+
+    for (const session of this.worktreeManager.getSessionsWithOpenPullRequests()) {
+      const current = session.pullRequest!;
+      const latest = await this.forge.getPullRequest(current.number);
+      if (latest.state === current.state) continue;
+
+      session.pullRequest = latest;
+      session.updatedAt = new Date();
+      this.worktreeManager.saveSession(session.id);
+      this.emit('session:updated', session);
+
+      getLogStore().info('Arbiter', `PR #${latest.number} is now ${latest.state}`, {
+        sessionId: session.id,
+        url: latest.url,
+      });
+
+      const announcement = latest.state === 'merged'
+        ? `🎉 PR #${latest.number} was merged: ${latest.url}\nThe changes will go live once the bot is redeployed from \`${this.worktreeManager.getDefaultBranch()}\`.`
+        : `🚪 PR #${latest.number} was closed without merging: ${latest.url}`;
+      await this.sendToChannel(this.sessionChannelId(session), announcement);
+    }
+  }
+
+  /**
+   * Run checks in the session worktree, letting Claude fix failures if configured and allowed
+   * @returns the commit hash to merge, or null if verification failed or a fix-up was cancelled (session is finalized)
+   */
+  private async verifySession(
+    session: WorkSession,
+    taskDescription: string,
+    outputStream: LiveOutputStream,
+    transport: Transport,
+    commands: string[],
+    allowFix: boolean
+  ): Promise<string | null> {
+    const maxFixAttempts = allowFix && this.config.verifyOnFailure === 'fix' ? (this.config.verifyMaxFixAttempts ?? 2) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      outputStream.append(`\n\n🧪 Verifying (${commands.length} check${commands.length === 1 ? '' : 's'})...`);
+      await outputStream.flush();
+
+      const verification = await runVerification(session.worktreePath, commands, {
+        timeoutMs: this.config.verifyTimeoutMs,
+        onCheckStart: (command) => outputStream.write(`\n▶️ \`${command}\``),
+        onOutput: (line) => outputStream.write(`\n│ ${line.slice(0, 200)}`),
+      });
+
+      if (verification.success) {
+        outputStream.append('\n✅ All checks passed');
+        await outputStream.flush();
+        return session.commits[session.commits.length - 1];
+      }
+
+      const failed = verification.failed!;
+      outputStream.append(`\n❌ \`${failed.command}\` failed`);
+      await outputStream.flush();
+
+      if (attempt >= maxFixAttempts) {
+        await this.finalizeFailedVerification(session, failed.command, describeFailure(failed), outputStream);
+        return null;
+      }
+
+      if (!(await this.withinBudget(this.sessionRequester(session), transport, 'let Claude fix the failed check'))) {
+        await this.finalizeFailedVerification(session, failed.command, `${describeFailure(failed)}\nThe daily budget is spent, so Claude didn't try to fix it.`, outputStream);
+        return null;
+      }
+
+      // Let Claude fix the failure, then re-verify
+      outputStream.append(`\n\n🩹 Asking Claude to fix it (attempt ${attempt + 1}/${maxFixAttempts})...\n`);
+      await outputStream.flush();
+
+      const runner = this.createClaudeRunner();
+      const fixResult = await this.runSessionClaude(session, runner, {
+        workdir: session.worktreePath,
+        prompt: buildFixupPrompt(failed, taskDescription),
+        transcriptPath: this.transcriptPath(session.id),
+        onOutput: async (event) => {
+          await outputStream.handleEvent(event);
+        },
+        onError: (error) => {
+          console.error('[Arbiter] Claude fix-up error:', error);
+        },
+      });
+      this.recordClaudeUsage(session, fixResult);
+
+      if (this.cancelledSessions.has(session.id)) {
+        await this.finishCancelledSession(session, outputStream);
+        return null;
+      }
+
+      const fixCommit = fixResult.success
+        ? await this.worktreeManager.commitChanges(session.id, `Fix verification failure: ${failed.command}`)
+        : null;
+
+      if (!fixCommit) {
+        const reason = fixResult.success ? 'Claude made no changes' : `Claude fix-up exited with code ${fixResult.exitCode}`;
+        await this.finalizeFailedVerification(
+          session,
+          failed.command,
+          `${describeFailure(failed)}\n${reason}.`,
+          outputStream
+        );
+        return null;
+      }
+
+      outputStream.append(`\n📝 Fix committed: \`${fixCommit.slice(0, 8)}\``);
+    }
+  }
+
+  /**
+   * Finalize a session whose pre-merge checks failed - the branch is kept unmerged
+   */
+  private async finalizeFailedVerification(
+    session: WorkSession,
+    command: string,
+    details: string,
+    outputStream: LiveOutputStream
+  ): Promise<void> {
+    await outputStream.finalize(
+      `**Verification failed - not merged**\n\n` +
+      `${details}\n\n` +
+      `Branch \`${session.branchName}\` has been kept for debugging.`,
+      false
+    );
+
+    this.coordinator.completeSession(session.id, false, `Verification failed: ${command}`);
+  }
+
+  /**
+   * Post a diff summary for review and wait for approval, rejection or timeout
+   */
+  private async awaitReview(
+    session: WorkSession,
+    commitHash: string,
+    outputStream: LiveOutputStream,
+    transport: Transport
+  ): Promise<ApprovalDecision> {
+    const channelId = this.sessionChannelId(session);
+    const timeoutMs = this.config.reviewTimeoutMs ?? DEFAULT_REVIEW_TIMEOUT_MS;
+
+    session.status = 'reviewing';
+    session.updatedAt = new Date();
+    this.worktreeManager.saveSession(session.id);
+
+    outputStream.append('\n\n🔍 Waiting for review before merging...');
+    await outputStream.flush();
+
+    const [diffStat, changedFiles] = await Promise.all([
+      this.worktreeManager.getDiffStat(session.id),
+      this.worktreeManager.getChangedFiles(session.id, true),
+    ]);
+
+    // Reactions only work if we know the review message's ID and the transport reports reactions
+    const acceptsReactions = isEditableTransport(transport) && typeof transport.onReaction === 'function';
+    const content = formatReviewRequest({
+      sessionId: session.id,
+      branchName: session.branchName,
+      commitHash,
+      requestedBy: session.triggeredBy.authorName,
+      changedFiles,
+      diffStat,
+      timeoutMs,
+      acceptsReactions,
+      maxLength: transport.maxMessageLength ?? 2000,
+    });
+
+    let reviewMessageId: string | null = null;
+    if (acceptsReactions && isEditableTransport(transport)) {
+      reviewMessageId = await transport.sendAndGetId(channelId, content);
+      try {
+        await transport.react(reviewMessageId, channelId, APPROVE_EMOJI);
+        await transport.react(reviewMessageId, channelId, REJECT_EMOJI);
+      } catch (error) {
+        console.error('[Arbiter] Failed to add review reactions:', error);
+      }
+    } else {
+      await transport.send(channelId, content);
+    }
+
+    getLogStore().info('Review', `Session ${session.id} awaiting review`, {
+      sessionId: session.id,
+      commitHash,
+      changedFiles: changedFiles.length,
+      timeoutMs,
+    });
+    console.log(`[Arbiter] Session ${session.id} awaiting review (${changedFiles.length} files)`);
+
+    const decision = await this.approvalGate.request(session.id, channelId, reviewMessageId, timeoutMs);
+
+    session.status = 'active';
+    session.updatedAt = new Date();
+    return decision;
+  }
+
+  /**
+   * Discard a session whose review was rejected or timed out
+   */
+  private async finalizeRejectedReview(
+    session: WorkSession,
+    commitHash: string,
+    review: ApprovalDecision,
+    outputStream: LiveOutputStream
+  ): Promise<void> {
+    const reason = review.outcome === 'rejected'
+      ? `Rejected by ${review.reviewer?.authorName ?? 'a reviewer'}`
+      : 'Review timed out';
+
+    await outputStream.finalize(
+      `**Changes not merged**\n\n` +
+      `${reason}. Branch \`${session.branchName}\` (commit \`${commitHash.slice(0, 8)}\`) has been discarded.`,
+      false
+    );
+
+    getLogStore().warn('Review', `Session ${session.id} not merged: ${reason}`, {
+      sessionId: session.id,
+      outcome: review.outcome,
+    });
+
+    this.coordinator.completeSession(session.id, false, reason);
+    await this.worktreeManager.abandonSession(session.id);
+  }
+
   /**
    * Resolve merge conflicts using Claude
    * Spawns Claude in the main repo to fix local changes, untracked files, or merge conflicts
@@ -781,8 +2740,8 @@ export class Arbiter extends EventEmitter {
   private async resolveConflictsWithClaude(
     session: WorkSession,
     mergeResult: MergeResult,
-    outputStream: DiscordOutputStream,
-    transport: DiscordTransport
+    outputStream: LiveOutputStream,
+    transport: Transport
   ): Promise<boolean> {
     const repoPath = this.worktreeManager.getRepoPath();
     const defaultBranch = this.worktreeManager.getDefaultBranch();
@@ -876,14 +2835,21 @@ Please:
 - If you successfully complete the merge yourself, that's also fine.
 `;
 
+    if (!(await this.withinBudget(this.sessionRequester(session), transport, 'let Claude resolve the merge conflict'))) {
+      outputStream.append('\n\n💸 Skipped conflict resolution - the daily budget is spent');
+      await outputStream.flush();
+      return false;
+    }
+
     try {
       outputStream.append(`\n\n🔧 Running Claude to fix ${mergeResult.conflictType} issue...\n`);
       await outputStream.flush();
 
-      const runner = new ClaudeRunner();
-      const result = await runner.run({
+      const runner = this.createClaudeRunner();
+      const result = await this.runSessionClaude(session, runner, {
         workdir: repoPath,
         prompt: conflictPrompt,
+        transcriptPath: this.transcriptPath(session.id),
         onOutput: async (event) => {
           await outputStream.handleEvent(event);
         },
@@ -893,6 +2859,7 @@ Please:
       });
 
       console.log(`[Arbiter] Conflict resolution Claude exited with code ${result.exitCode}`);
+      this.recordClaudeUsage(session, result);
 
       if (result.success) {
         outputStream.append('\n\n✅ Conflict resolution completed!');
@@ -966,11 +2933,21 @@ Please:
     const transport = this.transports.get(message.transport);
     if (!transport) return;
 
+    const policy = this.resolveChannelPolicy(message);
+    if (!policy) return;
+
     const context = await this.buildMessageContext(message, transport);
-    const decision = await makeDecision(message, context, this.config.model);
+    const decision = this.applyChannelPolicy(
+      await makeDecision(message, context),
+      policy
+    );
 
     console.log(`[Arbiter] Processing: ${decision.actionType} (${decision.confidence}%) - ${decision.reason}`);
 
+    if (decision.notice) {
+      await transport.send(message.channelId, decision.notice);
+    }
+
     switch (decision.actionType) {
       case 'acknowledge':
         // Send a quick text response instead of just emoji
@@ -983,7 +2960,7 @@ Please:
         // Generate and send a full response
         try {
           console.log(`[Arbiter] Generating response to: ${message.content.slice(0, 50)}...`);
-          const response = await generateResponse(message, context, this.config.model);
+          const response = await generateResponse(message, context);
           await transport.send(message.channelId, response);
           console.log(`[Arbiter] Responded: "${response.slice(0, 100)}..."`);
         } catch (error) {
@@ -992,17 +2969,14 @@ Please:
         break;
 
       case 'research':
-        // For now, respond that we're looking into it
-        await transport.send(
-          message.channelId,
-          `Interesting question - let me think about that...`
-        );
         console.log(`[Arbiter] Research mode for: ${message.content.slice(0, 50)}...`);
+        await this.startResearchSession(message, decision, context, transport);
         break;
 
       case 'self_edit':
+      case 'apply_patch':
         // This shouldn't happen here (handled earlier), but just in case
-        console.log(`[Arbiter] Self-edit request detected in standalone processing`);
+        console.log(`[Arbiter] ${decision.actionType} request detected in standalone processing`);
         break;
 
       default:
@@ -1029,6 +3003,30 @@ Please:
     };
   }
 
+  /**
+   * Add a Claude run's tokens and cost to the usage ledger, billed to the session's requester
+   */
+  private recordClaudeUsage(session: WorkSession, result: ClaudeRunResult): void {
+    if (!result.usage) return;
+    const { model, inputTokens, outputTokens, costUsd } = result.usage;
+    getUsageLedger().record(
+      {
+        feature: 'claude',
+        sessionId: session.id,
+        userId: session.triggeredBy.authorId,
+        channelId: session.triggeredBy.channelId,
+      },
+      { model, inputTokens, outputTokens, costUsd }
+    );
+  }
+
+  /**
+   * Transcript file for a session's Claude runs (undefined when recording is off)
+   */
+  private transcriptPath(sessionId: string): string | undefined {
+    return this.config.transcriptDir ? join(this.config.transcriptDir, `${sessionId}.jsonl`) : undefined;
+  }
+
   /**
    * Commit changes in a session
    */
@@ -0,0 +1,177 @@
+/**
+ * Self-Edit Rate Limiting
+ * Token buckets per user, per channel and globally, so one user can't spam
+ * self_edit requests (each one creates a worktree, runs Claude and restarts).
+ * Buckets are persisted, so a restart (which every merge causes) doesn't refill them
+ */
+
+import type { SessionStore, StoredRateLimitBucket } from '../git/sessionStore.js';
+import { ChatMessage } from '../types.js';
+
+/**
+ * A bucket that holds `capacity` tokens and refills them all over `periodMs`
+ */
+export interface RateLimit {
+  capacity: number;
+  periodMs: number;
+}
+
+export type RateLimitScope = 'user' | 'channel' | 'global';
+
+/**
+ * Limits per scope (omit a scope to leave it unlimited)
+ */
+export type RateLimits = Partial<Record<RateLimitScope, RateLimit>>;
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  scope?: RateLimitScope;         // The scope that denied the request
+  limit?: RateLimit;
+  retryAfterMs?: number;          // When the request would be allowed again
+}
+
+const PERIODS: Record<string, number> = {
+  s: 1000, sec: 1000, second: 1000,
+  m: 60_000, min: 60_000, minute: 60_000,
+  h: 3_600_000, hour: 3_600_000,
+  d: 86_400_000, day: 86_400_000,
+};
+
+/**
+ * Parse a limit like "3/hour", "10/30m" or "1/day"
+ * @throws Error if the spec isn't "<count>/<period>"
+ */
+export function parseRateLimit(spec: string): RateLimit {
+  const match = spec.trim().match(/^(\d+)\s*\/\s*(\d*)\s*([a-z]+)$/i);
+  const word = match?.[3].toLowerCase() ?? '';
+  const unit = PERIODS[word] ?? (word.length > 3 ? PERIODS[word.replace(/s$/, '')] : undefined);   // "hours", "mins"
+  const capacity = match ? parseInt(match[1], 10) : 0;
+  const periodCount = match?.[2] ? parseInt(match[2], 10) : 1;
+  if (!unit || capacity < 1 || periodCount < 1) {
+    throw new Error(`Invalid rate limit "${spec}" (expected e.g. 3/hour, 10/30m, 1/day)`);
+  }
+  return { capacity, periodMs: periodCount * unit };
+}
+
+/**
+ * Human-readable limit, e.g. "3 per hour"
+ */
+export function describeRateLimit(limit: RateLimit): string {
+  const units: [number, string][] = [[86_400_000, 'day'], [3_600_000, 'hour'], [60_000, 'minute'], [1000, 'second']];
+  const [size, name] = units.find(([ms]) => limit.periodMs % ms === 0) ?? [1, 'ms'];
+  const count = limit.periodMs / size;
+  return `${limit.capacity} per ${count === 1 ? name : `${count} ${name}s`}`;
+}
+
+/**
+ * Human-readable wait, e.g. "12 minutes"
+ */
+export function formatRetryAfter(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} hour${hours === 1 ? '' : 's'}${rest ? ` ${rest} min` : ''}`;
+}
+
+type Bucket = StoredRateLimitBucket;
+
+/**
+ * Token-bucket limiter for self-edit requests
+ */
+export class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map();
+  private store: SessionStore | null = null;
+
+  constructor(private limits: RateLimits, private now: () => number = Date.now) {}
+
+  /**
+   * Persist buckets to a store (restore() reloads them after a restart)
+   */
+  setStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Reload the buckets saved before the last restart
+   */
+  async restore(): Promise<void> {
+    if (!this.store) return;
+
+    for (const [key, bucket] of Object.entries(await this.store.loadRateLimitBuckets())) {
+      this.buckets.set(key, { ...bucket });
+    }
+  }
+
+  /**
+   * Take a token from every configured bucket the message falls in
+   * Nothing is taken unless all buckets have one, so a denied request doesn't use up the others
+   */
+  tryConsume(message: Pick<ChatMessage, 'authorId' | 'channelId' | 'parentChannelId'>): RateLimitResult {
+    const now = this.now();
+    const checks = this.bucketsFor(message).map(({ scope, key, limit }) => {
+      const bucket = this.refill(key, limit, now);
+      return { scope, limit, bucket };
+    });
+
+    // Deny on the bucket that stays empty longest
+    let denied: RateLimitResult | null = null;
+    for (const { scope, limit, bucket } of checks) {
+      if (bucket.tokens >= 1) continue;
+      const retryAfterMs = Math.ceil((1 - bucket.tokens) * (limit.periodMs / limit.capacity));
+      if (!denied || retryAfterMs > denied.retryAfterMs!) {
+        denied = { allowed: false, scope, limit, retryAfterMs };
+      }
+    }
+    if (denied) return denied;
+
+    for (const { bucket } of checks) {
+      bucket.tokens -= 1;
+    }
+    this.persist(this.bucketsFor(message).map(({ key }) => key));
+    return { allowed: true };
+  }
+
+  /**
+   * Forget all bucket state
+   */
+  reset(): void {
+    this.buckets.clear();
+  }
+
+  private bucketsFor(message: Pick<ChatMessage, 'authorId' | 'channelId' | 'parentChannelId'>): { scope: RateLimitScope; key: string; limit: RateLimit }[] {
+    const result: { scope: RateLimitScope; key: string; limit: RateLimit }[] = [];
+    if (this.limits.user) result.push({ scope: 'user', key: `user:${message.authorId}`, limit: this.limits.user });
+    if (this.limits.channel) result.push({ scope: 'channel', key: `channel:${message.parentChannelId ?? message.channelId}`, limit: this.limits.channel });
+    if (this.limits.global) result.push({ scope: 'global', key: 'global', limit: this.limits.global });
+    return result;
+  }
+
+  private persist(keys: string[]): void {
+    if (!this.store) return;
+
+    const buckets = Object.fromEntries(keys.map((key) => [key, { ...this.buckets.get(key)! }]));
+    this.store.saveRateLimitBuckets(buckets).catch((error) => {
+      console.error('[RateLimit] Failed to persist buckets:', error);
+    });
+  }
+
+  private refill(key: string, limit: RateLimit, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+
+    const elapsed = now - bucket.updatedAt;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + (elapsed * limit.capacity) / limit.periodMs);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
@@ -1,33 +1,22 @@
 /**
  * Response Generation System
- * Generates actual replies using OpenAI
+ * Generates actual replies using the configured LLM provider
  * Now enhanced with psychological profiling for personalized responses
  */
 
-import OpenAI from 'openai';
 import { ChatMessage, MessageContext } from '../types.js';
+import { getLlmProvider, LlmMessage } from '../llm/index.js';
 import { getUserProfileSummary, buildProfileContext, getAffinityDescription, ProfileSummary } from '../psychology/index.js';
 
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
 /**
  * Generate a response to a message
  * Now includes psychological profile context for personalized responses
+ * `model` overrides the model configured for this feature
  */
 export async function generateResponse(
   message: ChatMessage,
   context: MessageContext,
-  model: string = 'gpt-4o-mini'
+  model?: string
 ): Promise<string> {
   // Get the user's psychological profile for personalized response
   let profileSummary: ProfileSummary | null = null;
@@ -41,18 +30,21 @@ export async function generateResponse(
   const conversationHistory = buildConversationHistory(context.messages, context.botName);
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model,
-      messages: [
+    const reply = await getLlmProvider('respond').complete(
+      [
         { role: 'system', content: systemPrompt },
         ...conversationHistory,
         { role: 'user', content: `${message.authorName}: ${message.content}` },
       ],
-      temperature: 0.8,
-      max_tokens: 1000,
-    });
-
-    return response.choices[0]?.message?.content ?? "I'm not sure how to respond to that.";
+      {
+        model,
+        temperature: 0.8,
+        maxTokens: 1000,
+        usage: { feature: 'respond', userId: message.authorId, channelId: message.channelId },
+      }
+    );
+
+    return reply || "I'm not sure how to respond to that.";
   } catch (error) {
     console.error('[Respond] Error generating response:', error);
     return "Something went wrong while thinking about that.";
@@ -127,8 +119,8 @@ Use this information to:
 function buildConversationHistory(
   messages: ChatMessage[],
   botName: string
-): { role: 'user' | 'assistant'; content: string }[] {
-  const history: { role: 'user' | 'assistant'; content: string }[] = [];
+): LlmMessage[] {
+  const history: LlmMessage[] = [];
 
   for (const msg of messages.slice(-10)) {
     const isBotMessage = msg.authorName === botName;
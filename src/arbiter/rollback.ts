@@ -0,0 +1,271 @@
+/**
+ * Automatic Rollback
+ * Tracks boots after self-edit merges and reverts the merge if the new code
+ * fails to start or keeps crashing.
+ *
+ * Deliberately depends only on Node built-ins: it runs from the boot guard
+ * before any application code is imported, so it must keep working when the
+ * rest of the tree is broken.
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * A merge that hasn't yet proven it boots and stays up
+ */
+export interface PendingMerge {
+  sessionId: string;
+  mergeCommit: string;
+  branchName: string;
+  mergedAt: string;
+  channelId?: string;
+}
+
+/**
+ * A rollback waiting to be announced in chat
+ */
+export interface RollbackNotice {
+  sessionId: string;
+  mergeCommit: string;
+  revertCommit: string;
+  reason: string;
+  rolledBackAt: string;
+  channelId?: string;
+}
+
+/**
+ * Persisted boot/rollback state (.arbiter/boot-state.json in the repo)
+ */
+interface BootState {
+  lastKnownGood?: { commit: string; at: string };
+  pendingMerge?: PendingMerge;
+  currentBoot?: { startedAt: string; commit: string; ready: boolean; stoppedBy?: string };
+  failures: string[];             // Timestamps of failed boots and crashes
+  rollback?: RollbackNotice;
+}
+
+export interface RollbackConfig {
+  repoPath: string;
+  defaultBranch: string;
+  crashWindowMs: number;          // Crashes older than this are forgotten
+  maxCrashes: number;             // Crashes within the window that trigger a rollback
+  stableMs: number;               // Uptime after which a merge counts as known-good
+}
+
+// Stopping the bot (deploys, PM2 restarts, Ctrl+C) is not a crash, even before ready
+const STOP_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+
+const GIT_ENV = { ...process.env, PATH: '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin' };
+
+function statePath(repoPath: string): string {
+  return join(repoPath, '.arbiter', 'boot-state.json');
+}
+
+function readState(repoPath: string): BootState {
+  try {
+    return JSON.parse(readFileSync(statePath(repoPath), 'utf8')) as BootState;
+  } catch {
+    return { failures: [] };
+  }
+}
+
+function writeState(repoPath: string, state: BootState): void {
+  const path = statePath(repoPath);
+  mkdirSync(join(repoPath, '.arbiter'), { recursive: true });
+  writeFileSync(`${path}.tmp`, JSON.stringify(state, null, 2));
+  renameSync(`${path}.tmp`, path);
+}
+
+function git(repoPath: string, args: string[]): string {
+  return execFileSync('/usr/bin/git', args, {
+    cwd: repoPath,
+    env: GIT_ENV,
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  }).trim();
+}
+
+/**
+ * Record the start of a boot and roll back the pending merge if the previous boot
+ * failed or the process keeps crashing. Call before importing application code.
+ * @returns the rollback performed, if any
+ */
+export function beginBoot(config: RollbackConfig): RollbackNotice | null {
+  const { repoPath } = config;
+  const state = readState(repoPath);
+  const now = Date.now();
+
+  // A previous boot that never reached ready (and wasn't stopped) is a failed boot
+  const previousBootFailed = !!state.currentBoot && !state.currentBoot.ready && !state.currentBoot.stoppedBy;
+  if (previousBootFailed) {
+    state.failures.push(state.currentBoot!.startedAt);
+  }
+  state.failures = state.failures.filter((t) => now - new Date(t).getTime() < config.crashWindowMs);
+
+  let notice: RollbackNotice | null = null;
+  const pending = state.pendingMerge;
+  const repeatedCrashes = state.failures.length >= config.maxCrashes;
+
+  if (pending && (previousBootFailed || repeatedCrashes)) {
+    const reason = previousBootFailed
+      ? 'the bot failed to start after the merge'
+      : `the bot crashed ${state.failures.length} times within ${Math.round(config.crashWindowMs / 60000)} minutes`;
+    notice = revertMerge(config, pending, reason);
+    delete state.pendingMerge;
+    state.failures = [];
+    if (notice) {
+      state.rollback = notice;
+    }
+  }
+
+  let head = 'unknown';
+  try {
+    head = git(repoPath, ['rev-parse', 'HEAD']);
+  } catch {
+    // Not fatal for booting
+  }
+  state.currentBoot = { startedAt: new Date(now).toISOString(), commit: head, ready: false };
+  writeState(repoPath, state);
+
+  // Remember a stop signal, so neither this boot nor its exit counts as a failure
+  for (const signal of STOP_SIGNALS) {
+    process.once(signal, () => {
+      try {
+        const latest = readState(repoPath);
+        if (latest.currentBoot) {
+          latest.currentBoot.stoppedBy = signal;
+          writeState(repoPath, latest);
+        }
+      } catch {
+        // Worst case the stop is counted as a failure
+      }
+
+      // Without an app handler yet, terminate as the signal would have
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  }
+
+  // Crashes after ready count towards the repeated-crash window
+  process.on('exit', (code) => {
+    if (code === 0) return;
+    try {
+      const latest = readState(repoPath);
+      if (!latest.currentBoot?.ready) return;   // Counted as a failed boot on the next start
+      if (latest.currentBoot.stoppedBy) return;  // Exiting after a stop signal
+      latest.failures.push(new Date().toISOString());
+      writeState(repoPath, latest);
+    } catch {
+      // Nothing more we can do while exiting
+    }
+  });
+
+  return notice;
+}
+
+/**
+ * Revert a merge commit on the default branch
+ */
+function revertMerge(config: RollbackConfig, pending: PendingMerge, reason: string): RollbackNotice | null {
+  const { repoPath, defaultBranch } = config;
+  console.error(`[Rollback] Reverting merge ${pending.mergeCommit.slice(0, 8)} (session ${pending.sessionId}): ${reason}`);
+
+  try {
+    git(repoPath, ['checkout', defaultBranch]);
+    git(repoPath, [
+      'revert', '-m', '1', '--no-edit', pending.mergeCommit,
+    ]);
+    const revertCommit = git(repoPath, ['rev-parse', 'HEAD']);
+
+    try {
+      git(repoPath, ['push', 'origin', defaultBranch]);
+    } catch {
+      console.log('[Rollback] No remote to push to, continuing...');
+    }
+
+    console.error(`[Rollback] Reverted as ${revertCommit.slice(0, 8)}`);
+    return {
+      sessionId: pending.sessionId,
+      mergeCommit: pending.mergeCommit,
+      revertCommit,
+      reason,
+      rolledBackAt: new Date().toISOString(),
+      channelId: pending.channelId,
+    };
+  } catch (error) {
+    console.error('[Rollback] Revert failed, manual intervention needed:', error);
+    try {
+      git(repoPath, ['revert', '--abort']);
+    } catch {
+      // No revert in progress
+    }
+    return null;
+  }
+}
+
+/**
+ * Record a self-edit merge so it can be rolled back if the next boots fail
+ */
+export function recordPendingMerge(repoPath: string, merge: PendingMerge): void {
+  const state = readState(repoPath);
+  state.pendingMerge = merge;
+  state.failures = [];
+  writeState(repoPath, state);
+}
+
+/**
+ * Mark the current boot as ready; once it stays up for stableMs the running
+ * commit becomes the last known good and the pending merge is cleared
+ */
+export function markBootReady(config: RollbackConfig): void {
+  const state = readState(config.repoPath);
+  if (state.currentBoot) {
+    state.currentBoot.ready = true;
+    writeState(config.repoPath, state);
+  }
+
+  const timer = setTimeout(() => {
+    const latest = readState(config.repoPath);
+    if (latest.currentBoot) {
+      latest.lastKnownGood = { commit: latest.currentBoot.commit, at: new Date().toISOString() };
+    }
+    // Only merges this boot is running count as proven (not one made during this boot)
+    const bootStartedAt = latest.currentBoot?.startedAt ?? '';
+    if (latest.pendingMerge && latest.pendingMerge.mergedAt < bootStartedAt) {
+      console.log(`[Rollback] Merge ${latest.pendingMerge.mergeCommit.slice(0, 8)} is stable`);
+      delete latest.pendingMerge;
+    }
+    latest.failures = [];
+    writeState(config.repoPath, latest);
+  }, config.stableMs);
+  timer.unref();
+}
+
+/**
+ * Take the unannounced rollback notice, if any
+ */
+export function takeRollbackNotice(repoPath: string): RollbackNotice | null {
+  const state = readState(repoPath);
+  const notice = state.rollback ?? null;
+  if (notice) {
+    delete state.rollback;
+    writeState(repoPath, state);
+  }
+  return notice;
+}
+
+/**
+ * Rollback settings from environment variables
+ */
+export function getRollbackConfig(): RollbackConfig {
+  return {
+    repoPath: process.env.GIT_REPO_PATH ?? process.cwd(),
+    defaultBranch: process.env.GIT_DEFAULT_BRANCH ?? 'main',
+    crashWindowMs: parseInt(process.env.ROLLBACK_CRASH_WINDOW_SECONDS ?? '600', 10) * 1000,
+    maxCrashes: parseInt(process.env.ROLLBACK_MAX_CRASHES ?? '3', 10),
+    stableMs: parseInt(process.env.ROLLBACK_STABLE_SECONDS ?? '300', 10) * 1000,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Session Scheduler
+ * Caps how many self-edit and apply-patch sessions run at once,
+ * queues the overflow in arrival order and hands out the next request when a slot frees up.
+ * The queue is persisted so requests waiting behind a merge survive its restart
+ */
+
+import type { SessionStore, StoredQueuedRequest } from '../git/sessionStore.js';
+import { ChatMessage, Transport } from '../types.js';
+
+/**
+ * A self_edit/apply_patch request waiting for a free slot
+ * `messages` ends with the message that triggered the request; `id` is e.g. "queue-3"
+ */
+export interface QueuedSessionRequest extends StoredQueuedRequest {
+  transport: Transport;
+}
+
+/**
+ * Which queued request "!arbiter cancel [queue-id]" refers to
+ */
+export interface QueueCommand {
+  requestId?: string;
+}
+
+export class SessionScheduler {
+  private queue: QueuedSessionRequest[] = [];
+  private starting = 0;       // Slots taken by sessions that aren't registered with the coordinator yet
+  private idCounter = 0;
+  private store: SessionStore | null = null;
+
+  constructor(private maxParallel = 0) {}   // 0 = unlimited
+
+  /**
+   * Persist the queue to a store (restore() reloads it after a restart)
+   */
+  setStore(store: SessionStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Reload the queue saved before the last restart
+   * Requests whose transport isn't connected any more are dropped
+   * @returns the restored requests
+   */
+  async restore(findTransport: (request: StoredQueuedRequest) => Transport | undefined): Promise<QueuedSessionRequest[]> {
+    if (!this.store) return [];
+
+    const restored: QueuedSessionRequest[] = [];
+    for (const request of await this.store.loadQueue()) {
+      const transport = findTransport(request);
+      if (!transport) {
+        console.warn(`[Scheduler] Dropping queued request ${request.id}: its transport is not connected`);
+        continue;
+      }
+      restored.push({ ...request, transport });
+      this.idCounter = Math.max(this.idCounter, parseInt(request.id.replace('queue-', ''), 10) || 0);
+    }
+
+    this.queue = [...restored, ...this.queue];
+    this.persist();
+    return restored;
+  }
+
+  setMaxParallel(maxParallel: number): void {
+    this.maxParallel = maxParallel;
+  }
+
+  getMaxParallel(): number {
+    return this.maxParallel;
+  }
+
+  /**
+   * Whether another session fits next to the active ones
+   */
+  hasCapacity(activeSessions: number): boolean {
+    return this.maxParallel <= 0 || activeSessions + this.starting < this.maxParallel;
+  }
+
+  /**
+   * Take a slot for a session that is about to start
+   * Call release() once it is registered with the coordinator (or failed to start),
+   * from then on the coordinator's active count covers it
+   * @returns false if every slot is taken
+   */
+  tryAcquire(activeSessions: number): boolean {
+    if (!this.hasCapacity(activeSessions)) {
+      return false;
+    }
+    this.starting++;
+    return true;
+  }
+
+  release(): void {
+    this.starting = Math.max(0, this.starting - 1);
+  }
+
+  /**
+   * Add a request to the back of the queue
+   * @returns the queued request and its 1-based position
+   */
+  enqueue(request: Omit<QueuedSessionRequest, 'id' | 'queuedAt'>): { request: QueuedSessionRequest; position: number } {
+    const queued: QueuedSessionRequest = {
+      ...request,
+      id: `queue-${++this.idCounter}`,
+      queuedAt: new Date(),
+    };
+    this.queue.push(queued);
+    this.persist();
+    return { request: queued, position: this.queue.length };
+  }
+
+  /**
+   * Take the request at the front of the queue
+   */
+  dequeue(): QueuedSessionRequest | undefined {
+    const request = this.queue.shift();
+    if (request) {
+      this.persist();
+    }
+    return request;
+  }
+
+  /**
+   * 1-based queue position (0 if the request isn't queued)
+   */
+  getPosition(requestId: string): number {
+    return this.queue.findIndex((r) => r.id === requestId) + 1;
+  }
+
+  getQueue(): QueuedSessionRequest[] {
+    return [...this.queue];
+  }
+
+  /**
+   * Find the request a cancel command applies to
+   * Without an explicit ID, the sender's most recent request in the channel
+   */
+  findByCommand(message: ChatMessage, command: QueueCommand): QueuedSessionRequest | null {
+    if (command.requestId) {
+      return this.queue.find((r) => r.id === command.requestId) ?? null;
+    }
+
+    const mine = this.queue.filter((r) => {
+      const trigger = r.messages[r.messages.length - 1];
+      return trigger.authorId === message.authorId && trigger.channelId === message.channelId;
+    });
+    return mine[mine.length - 1] ?? null;
+  }
+
+  /**
+   * Remove a request from the queue
+   * @returns the removed request, or null if it wasn't queued
+   */
+  cancel(requestId: string): QueuedSessionRequest | null {
+    const index = this.queue.findIndex((r) => r.id === requestId);
+    if (index === -1) return null;
+    const [request] = this.queue.splice(index, 1);
+    this.persist();
+    return request;
+  }
+
+  private persist(): void {
+    this.store?.saveQueue(this.queue).catch((error) => {
+      console.error('[Scheduler] Failed to persist the queue:', error);
+    });
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Pre-merge Verification
+ * Runs configured check commands (type-check, tests, build) in a session worktree
+ * before its branch is merged
+ */
+
+import { spawn } from 'child_process';
+import { getLogStore } from '../logs/index.js';
+
+/**
+ * What to do when a check fails
+ * - block: keep the branch and don't merge
+ * - fix: hand the failure log to Claude for a fix-up run, then re-verify
+ */
+export type VerifyFailureMode = 'block' | 'fix';
+
+/**
+ * Result of a single check command
+ */
+export interface CheckResult {
+  command: string;
+  exitCode: number | null;
+  success: boolean;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;           // Tail of combined stdout/stderr
+}
+
+/**
+ * Result of running all checks
+ */
+export interface VerificationResult {
+  success: boolean;
+  checks: CheckResult[];
+  failed?: CheckResult;
+}
+
+export interface VerificationOptions {
+  timeoutMs?: number;
+  onCheckStart?: (command: string) => void | Promise<void>;
+  onOutput?: (line: string) => void | Promise<void>;
+}
+
+/**
+ * Keep this much of each check's output for failure reports
+ */
+const MAX_OUTPUT_LENGTH = 8000;
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Run check commands in order, stopping at the first failure
+ */
+export async function runVerification(
+  workdir: string,
+  commands: string[],
+  options: VerificationOptions = {}
+): Promise<VerificationResult> {
+  const checks: CheckResult[] = [];
+
+  for (const command of commands) {
+    await options.onCheckStart?.(command);
+    const check = await runCheck(workdir, command, options);
+    checks.push(check);
+
+    getLogStore().info('Verify', `${check.success ? 'Passed' : 'Failed'}: ${command}`, {
+      workdir,
+      command,
+      exitCode: check.exitCode,
+      timedOut: check.timedOut,
+      durationMs: check.durationMs,
+    });
+
+    if (!check.success) {
+      return { success: false, checks, failed: check };
+    }
+  }
+
+  return { success: true, checks };
+}
+
+/**
+ * Run a single check command through the shell
+ */
+function runCheck(workdir: string, command: string, options: VerificationOptions): Promise<CheckResult> {
+  const startedAt = Date.now();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  console.log(`[Verify] Running "${command}" in ${workdir}`);
+
+  return new Promise((resolve) => {
+    // Own process group so a timeout kills the whole command tree, not just the shell
+    const child = spawn(command, {
+      cwd: workdir,
+      shell: true,
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, CI: '1', FORCE_COLOR: '0' },
+    });
+
+    let output = '';
+    let partial = '';
+    let timedOut = false;
+
+    const onData = (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      output = (output + text).slice(-MAX_OUTPUT_LENGTH);
+
+      const lines = (partial + text).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) {
+          void options.onOutput?.(line);
+        }
+      }
+    };
+
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      console.warn(`[Verify] "${command}" timed out after ${timeoutMs}ms`);
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      clearTimeout(timer);
+      if (partial.trim()) {
+        void options.onOutput?.(partial);
+      }
+      if (error) {
+        output += `\n${error.message}`;
+      }
+      resolve({
+        command,
+        exitCode,
+        success: exitCode === 0 && !timedOut,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output: output.trim(),
+      });
+    };
+
+    child.on('close', (code) => finish(code));
+    child.on('error', (error) => finish(null, error));
+  });
+}
+
+/**
+ * Describe a failed check for chat and for a fix-up prompt
+ */
+export function describeFailure(check: CheckResult, maxOutput = 1500): string {
+  const status = check.timedOut ? 'timed out' : `exited with code ${check.exitCode}`;
+  const output = check.output.length > maxOutput
+    ? '...\n' + check.output.slice(-maxOutput)
+    : check.output;
+
+  return `\`${check.command}\` ${status}\n\`\`\`\n${output || '(no output)'}\n\`\`\``;
+}
+
+/**
+ * Build the Claude prompt for fixing a failed check
+ */
+export function buildFixupPrompt(check: CheckResult, taskDescription: string): string {
+  return `You previously made changes in this repository for the task: "${taskDescription}"
+
+Those changes are committed, but the pre-merge verification check failed:
+
+${describeFailure(check, MAX_OUTPUT_LENGTH)}
+
+Fix the cause of this failure with the smallest change that makes \`${check.command}\` pass.
+Do not weaken or skip the check itself. Run \`${check.command}\` again to confirm before you finish.`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Omega Arbiter - Boot Guard
+ * Production entry point: records the boot, rolls back a freshly merged
+ * self-edit if the previous boot failed, then loads the real entry point.
+ * Keep this file (and arbiter/rollback.ts) free of application imports.
+ */
+
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { beginBoot, getRollbackConfig } from './arbiter/rollback.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+dotenv.config({ path: join(__dirname, '..', '.env') });
+
+if (process.env.ARBITER_AUTO_ROLLBACK !== 'false') {
+  try {
+    const notice = beginBoot(getRollbackConfig());
+    if (notice) {
+      console.error(`[Boot] Rolled back session ${notice.sessionId}: ${notice.reason}`);
+    }
+  } catch (error) {
+    // Never let the guard itself stop the bot from starting
+    console.error('[Boot] Rollback check failed:', error);
+  }
+}
+
+await import('./index.js');
@@ -0,0 +1,219 @@
+/**
+ * Attachment Ingestion
+ * Downloads the files attached to a self-edit request into a scratch directory
+ * in the session worktree, so Claude can read logs, patches and data files.
+ * The scratch directory ignores itself, so nothing in it is ever committed.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { extname, join, resolve, sep } from 'path';
+import { Attachment, ChatMessage } from '../types.js';
+import { fetchUrl } from '../utils/fetch.js';
+
+export const ATTACHMENT_DIR = '.arbiter-attachments';
+
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 1024 * 1024;
+export const DEFAULT_ATTACHMENT_MAX_FILES = 10;
+
+export type AttachmentKind =
+  | 'patch'            // .patch/.diff - can be applied with git apply
+  | 'text'             // Logs, source, JSON, config... downloaded for Claude to read
+  | 'image'            // Screenshots - only the metadata (and alt text) is passed on
+  | 'other';           // Binary or unknown - skipped
+
+/**
+ * Limits for downloading attachments
+ */
+export interface AttachmentLimits {
+  maxBytes: number;    // Per file
+  maxFiles: number;    // Per request
+}
+
+/**
+ * What happened to one attachment
+ */
+export interface IngestedAttachment {
+  filename: string;
+  kind: AttachmentKind;
+  author: string;
+  contentType?: string;
+  size?: number;
+  description?: string;      // Alt text
+  path?: string;             // Worktree-relative path, if downloaded
+  skipped?: string;          // Why it wasn't downloaded
+  applied?: boolean;         // Patch applied to the worktree before Claude started
+  applyError?: string;
+}
+
+const PATCH_EXTENSIONS = new Set(['.patch', '.diff']);
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.log', '.md', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.ini', '.env', '.csv', '.xml',
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.sh', '.sql', '.html', '.css',
+]);
+
+/**
+ * Decide what to do with an attachment from its name and content type
+ */
+export function classifyAttachment(attachment: Attachment): AttachmentKind {
+  const extension = extname(attachment.filename).toLowerCase();
+  const contentType = attachment.contentType?.split(';')[0].trim().toLowerCase() ?? '';
+
+  if (PATCH_EXTENSIONS.has(extension) || contentType === 'text/x-diff' || contentType === 'text/x-patch') {
+    return 'patch';
+  }
+  if (contentType.startsWith('image/')) {
+    return 'image';
+  }
+  if (TEXT_EXTENSIONS.has(extension) || contentType.startsWith('text/') || contentType === 'application/json') {
+    return 'text';
+  }
+  return 'other';
+}
+
+/**
+ * Download the attachments of some messages into the worktree's scratch directory
+ * Images and unsupported types are recorded but not downloaded
+ * `getHeaders` supplies per-transport auth (see Transport.getAttachmentHeaders)
+ */
+export async function ingestAttachments(
+  messages: ChatMessage[],
+  worktreePath: string,
+  limits: AttachmentLimits,
+  getHeaders?: (attachment: Attachment, message: ChatMessage) => Record<string, string> | undefined
+): Promise<IngestedAttachment[]> {
+  const attachments = messages.flatMap((m) => (m.attachments ?? []).map((attachment) => ({ attachment, message: m, author: m.authorName })));
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  await prepareScratchDir(worktreePath);
+
+  const results: IngestedAttachment[] = [];
+  let downloaded = 0;
+
+  for (const { attachment, message, author } of attachments) {
+    const kind = classifyAttachment(attachment);
+    const result: IngestedAttachment = {
+      filename: attachment.filename,
+      kind,
+      author,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      description: attachment.description,
+    };
+    results.push(result);
+
+    if (kind === 'image') {
+      result.skipped = 'images are described, not downloaded';
+      continue;
+    }
+    if (kind === 'other') {
+      result.skipped = `unsupported type${attachment.contentType ? ` (${attachment.contentType})` : ''}`;
+      continue;
+    }
+    if (downloaded >= limits.maxFiles) {
+      result.skipped = `more than ${limits.maxFiles} attachments`;
+      continue;
+    }
+    if (attachment.size !== undefined && attachment.size > limits.maxBytes) {
+      result.skipped = `larger than ${limits.maxBytes} bytes`;
+      continue;
+    }
+
+    const response = await fetchUrl<string>(attachment.url, {
+      headers: getHeaders?.(attachment, message),
+      maxSize: limits.maxBytes,
+      timeout: 30000,
+      retries: 1,
+      parseJson: false,   // Saved as sent, even if it isn't valid JSON
+    });
+    if (!response.success || typeof response.data !== 'string') {
+      result.skipped = `download failed: ${response.error ?? 'not text'}`;
+      continue;
+    }
+    // A login page instead of the file (e.g. a private URL without credentials)
+    if (response.headers?.['content-type']?.includes('text/html') && !['.html', '.htm'].includes(extname(attachment.filename).toLowerCase())) {
+      result.skipped = 'download returned an HTML page instead of the file';
+      continue;
+    }
+
+    // Both parts come from the sender (the webhook accepts any ID), so neither may form a path
+    const relativePath = scratchPath(worktreePath, `${safeFilename(attachment.id)}-${safeFilename(attachment.filename)}`);
+    await writeFile(join(worktreePath, relativePath), response.data);
+    result.path = relativePath;
+    result.size = Buffer.byteLength(response.data);
+    downloaded++;
+  }
+
+  return results;
+}
+
+/**
+ * Save some text (e.g. a patch pasted into a message) in the worktree's scratch directory
+ * @returns the worktree-relative path
+ */
+export async function saveToScratch(worktreePath: string, filename: string, content: string): Promise<string> {
+  await prepareScratchDir(worktreePath);
+  const relativePath = scratchPath(worktreePath, safeFilename(filename));
+  await writeFile(join(worktreePath, relativePath), content);
+  return relativePath;
+}
+
+/**
+ * Describe ingested attachments for a Claude prompt
+ */
+export function formatAttachmentsForPrompt(attachments: IngestedAttachment[]): string {
+  if (attachments.length === 0) {
+    return '';
+  }
+
+  const lines = attachments.map((a) => {
+    const details = [a.contentType, a.size !== undefined ? `${a.size} bytes` : undefined, `from ${a.author}`].filter(Boolean).join(', ');
+    let line = `- **${a.filename}** (${details})`;
+    if (a.path) line += `: saved to \`${a.path}\``;
+    if (a.description) line += ` - alt text: "${a.description}"`;
+    if (a.applied) line += ' - already applied to the working tree with `git apply`';
+    if (a.applyError) line += ` - \`git apply\` failed (${a.applyError}); apply the relevant parts by hand`;
+    if (a.skipped) line += ` - not available: ${a.skipped}`;
+    return line;
+  });
+
+  return `## Attachments
+The requester attached these files. Downloaded ones are in \`${ATTACHMENT_DIR}/\`, which is ignored by git - copy anything that should be committed elsewhere.
+${lines.join('\n')}`;
+}
+
+/**
+ * One-line summary for the live status message
+ */
+export function formatAttachmentStatus(attachment: IngestedAttachment): string {
+  if (attachment.applied) return `✓ Applied ${attachment.filename}`;
+  if (attachment.applyError) return `❌ Could not apply ${attachment.filename}: ${attachment.applyError}`;
+  if (attachment.path) return `✓ Downloaded ${attachment.filename}`;
+  return `• Skipped ${attachment.filename} (${attachment.skipped})`;
+}
+
+async function prepareScratchDir(worktreePath: string): Promise<void> {
+  const scratchDir = join(worktreePath, ATTACHMENT_DIR);
+  await mkdir(scratchDir, { recursive: true });
+  await writeFile(join(scratchDir, '.gitignore'), '*\n');
+}
+
+/**
+ * Worktree-relative path for a file in the scratch directory
+ * @throws Error if the name would resolve outside it
+ */
+function scratchPath(worktreePath: string, filename: string): string {
+  const scratchDir = resolve(worktreePath, ATTACHMENT_DIR);
+  const relativePath = join(ATTACHMENT_DIR, filename);
+  if (!resolve(worktreePath, relativePath).startsWith(scratchDir + sep)) {
+    throw new Error(`Refusing to write ${JSON.stringify(filename)} outside ${ATTACHMENT_DIR}`);
+  }
+  return relativePath;
+}
+
+function safeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || 'attachment';
+  const safe = base.replace(/[^\w.-]/g, '_').slice(0, 100);
+  return /^\.*$/.test(safe) ? 'attachment' : safe;
+}
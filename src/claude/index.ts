@@ -5,6 +5,12 @@
 
 export { ClaudeRunner } from './runner.js';
 export type { ClaudeEvent, ClaudeRunnerConfig, ClaudeRunResult } from './runner.js';
-export { buildClaudePrompt, enhancePromptWithAI, buildSimplePrompt } from './promptBuilder.js';
+export { StreamParser } from './streamParser.js';
+export type { ToolUse, ToolResult, ClaudeUsage } from './streamParser.js';
+export { ReplayClaudeRunner } from './replayRunner.js';
+export type { ReplayOptions } from './replayRunner.js';
+export { TranscriptWriter, readTranscript } from './transcript.js';
+export type { TranscriptEntry, TranscriptRun } from './transcript.js';
+export { buildClaudePrompt, buildResearchPrompt, enhancePromptWithAI, buildSimplePrompt } from './promptBuilder.js';
 export type { PromptContext } from './promptBuilder.js';
-export { DiscordOutputStream, createProgressIndicator } from './discordStream.js';
+export { LiveOutputStream, createProgressIndicator } from './liveStream.js';
@@ -0,0 +1,281 @@
+/**
+ * Live Output Stream
+ * Handles streaming Claude output to any chat transport with throttling
+ * Edits a single status message where the transport supports it,
+ * otherwise falls back to posting append-only progress messages
+ */
+
+import { EditableTransport, Transport } from '../types.js';
+import { isEditableTransport } from '../transports/base.js';
+import { ClaudeEvent } from './runner.js';
+
+/**
+ * How a stream ended
+ */
+type StreamOutcome = 'completed' | 'failed' | 'cancelled';
+
+const OUTCOMES: Record<StreamOutcome, { emoji: string; text: string; summaryEmoji: string; summaryHeader: string }> = {
+  completed: { emoji: '✅', text: 'Completed', summaryEmoji: '🎉', summaryHeader: 'Changes Complete' },
+  failed: { emoji: '❌', text: 'Failed', summaryEmoji: '⚠️', summaryHeader: 'Task Incomplete' },
+  cancelled: { emoji: '🛑', text: 'Cancelled', summaryEmoji: '🛑', summaryHeader: 'Session Cancelled' },
+};
+
+export class LiveOutputStream {
+  private messageId: string | null = null;
+  private started = false;
+  private lastUpdate: number = 0;
+  private buffer: string = '';
+  private sentLength: number = 0;    // Append-only mode: how much of the buffer has been posted
+  private pendingUpdate: NodeJS.Timeout | null = null;
+  private editable: EditableTransport | null;
+  private maxLength: number;
+
+  constructor(
+    private transport: Transport,
+    private channelId: string,
+    private throttleMs: number = 2000
+  ) {
+    this.editable = isEditableTransport(transport) ? transport : null;
+    this.maxLength = transport.maxMessageLength ?? 2000;
+  }
+
+  /**
+   * Whether the status message is edited in place (vs. append-only)
+   */
+  isEditable(): boolean {
+    return this.editable !== null;
+  }
+
+  /**
+   * ID of the status message (null for append-only transports)
+   */
+  getMessageId(): string | null {
+    return this.messageId;
+  }
+
+  /**
+   * Send the initial status message and store its ID for later updates
+   */
+  async start(content: string): Promise<void> {
+    try {
+      if (this.editable) {
+        this.messageId = await this.editable.sendAndGetId(this.channelId, content);
+      } else {
+        await this.transport.send(this.channelId, content);
+      }
+      this.started = true;
+      this.lastUpdate = Date.now();
+      this.buffer = content;
+      this.sentLength = content.length;
+    } catch (error) {
+      console.error('[LiveOutputStream] Failed to send initial message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle a Claude event and update the status message accordingly
+   */
+  async handleEvent(event: ClaudeEvent): Promise<void> {
+    // Add event content to buffer based on type
+    switch (event.type) {
+      case 'text':
+        this.buffer += '\n' + event.content;
+        break;
+      case 'tool_use':
+        this.buffer += `\n🔧 ${event.content}`;
+        break;
+      case 'tool_result': {
+        // Tool output can be verbose, just show the outcome ("Edited src/foo.ts", "Ran npm test (exit 1)")
+        const result = event.toolResult;
+        const failed = result && (result.isError || (result.exitCode ?? 0) !== 0);
+        this.buffer += `\n${failed ? '❌' : '✓'} ${event.content}`;
+        break;
+      }
+      case 'error':
+        this.buffer += `\n❌ Error: ${event.content}`;
+        break;
+      case 'result':
+        this.buffer += `\n\n📋 **Result:**\n${event.content}`;
+        break;
+      default:
+        // Ignore other event types
+        break;
+    }
+
+    // Throttle updates
+    await this.maybeUpdate();
+  }
+
+  /**
+   * Update the status message if enough time has passed
+   */
+  private async maybeUpdate(): Promise<void> {
+    const now = Date.now();
+
+    if (now - this.lastUpdate >= this.throttleMs) {
+      await this.doUpdate();
+    } else if (!this.pendingUpdate) {
+      // Schedule an update for later
+      const delay = this.throttleMs - (now - this.lastUpdate);
+      this.pendingUpdate = setTimeout(async () => {
+        this.pendingUpdate = null;
+        await this.doUpdate();
+      }, delay);
+    }
+  }
+
+  /**
+   * Actually update the status message
+   */
+  private async doUpdate(): Promise<void> {
+    if (!this.started) return;
+
+    try {
+      if (this.editable) {
+        if (!this.messageId) return;
+        await this.editable.editMessage(this.channelId, this.messageId, this.tail(this.buffer, this.maxLength - 200));
+      } else {
+        // Append-only: post whatever was added since the last update
+        const delta = this.buffer.slice(this.sentLength).trim();
+        this.sentLength = this.buffer.length;
+        if (delta) {
+          await this.transport.send(this.channelId, delta);
+        }
+      }
+      this.lastUpdate = Date.now();
+    } catch (error) {
+      console.error('[LiveOutputStream] Failed to update message:', error);
+    }
+  }
+
+  /**
+   * Force an immediate update
+   */
+  async flush(): Promise<void> {
+    if (this.pendingUpdate) {
+      clearTimeout(this.pendingUpdate);
+      this.pendingUpdate = null;
+    }
+    await this.doUpdate();
+  }
+
+  /**
+   * Finalize the stream - send a completion message
+   */
+  async finalize(summary: string, success: boolean): Promise<void> {
+    await this.finish(summary, success ? 'completed' : 'failed');
+  }
+
+  /**
+   * Finalize the stream of a session that was cancelled
+   */
+  async finalizeCancelled(summary: string): Promise<void> {
+    await this.finish(summary, 'cancelled');
+  }
+
+  /**
+   * Mark the status message with the outcome and post the summary
+   */
+  private async finish(summary: string, outcome: StreamOutcome): Promise<void> {
+    // Cancel any pending updates
+    if (this.pendingUpdate) {
+      clearTimeout(this.pendingUpdate);
+      this.pendingUpdate = null;
+    }
+
+    const { emoji: statusEmoji, text: statusText } = OUTCOMES[outcome];
+
+    // Update the status message to show completion
+    if (this.started) {
+      try {
+        if (this.editable && this.messageId) {
+          // Truncate the current buffer for the status message
+          const statusContent = this.tail(this.buffer, this.maxLength - 500) +
+            `\n\n${statusEmoji} **${statusText}**`;
+          await this.editable.editMessage(this.channelId, this.messageId, statusContent);
+        } else if (!this.editable) {
+          const delta = this.buffer.slice(this.sentLength).trim();
+          this.sentLength = this.buffer.length;
+          await this.transport.send(
+            this.channelId,
+            (delta ? delta + '\n\n' : '') + `${statusEmoji} **${statusText}**`
+          );
+        }
+      } catch (error) {
+        console.error('[LiveOutputStream] Failed to update final status:', error);
+      }
+    }
+
+    // Send the full summary as a new message if it's substantial
+    if (summary && summary.length > 50) {
+      try {
+        // Format the summary nicely
+        const formattedSummary = formatSummary(summary, outcome, this.maxLength);
+        await this.transport.send(this.channelId, formattedSummary);
+      } catch (error) {
+        console.error('[LiveOutputStream] Failed to send summary:', error);
+      }
+    }
+  }
+
+  /**
+   * Get the current buffer content
+   */
+  getBuffer(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Append content directly to the buffer
+   */
+  append(content: string): void {
+    this.buffer += content;
+  }
+
+  /**
+   * Append content and schedule a throttled update (for non-Claude output like check logs)
+   */
+  async write(content: string): Promise<void> {
+    this.buffer += content;
+    await this.maybeUpdate();
+  }
+
+  /**
+   * Keep the end of the content so it fits within the given length
+   */
+  private tail(content: string, limit: number): string {
+    if (content.length <= limit) {
+      return content;
+    }
+    return '...\n' + content.slice(-(limit - 50));
+  }
+}
+
+/**
+ * Format the final summary for the chat transport
+ */
+function formatSummary(summary: string, outcome: StreamOutcome, maxLength: number): string {
+  const { summaryEmoji: emoji, summaryHeader: header } = OUTCOMES[outcome];
+
+  // Truncate if needed to stay under the transport's message limit
+  let content = summary;
+  if (content.length > maxLength - 200) {
+    content = content.slice(0, maxLength - 250) + '\n\n...(truncated)';
+  }
+
+  return `${emoji} **${header}**\n\n${content}`;
+}
+
+/**
+ * Create a progress indicator string
+ */
+export function createProgressIndicator(step: string, detail?: string): string {
+  const spinner = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+  const frame = spinner[Math.floor(Date.now() / 100) % spinner.length];
+
+  if (detail) {
+    return `${frame} ${step}\n└─ ${detail}`;
+  }
+  return `${frame} ${step}`;
+}
@@ -4,23 +4,13 @@
  * Now includes psychological profile context for personalized interactions
  */
 
-import OpenAI from 'openai';
 import { ChatMessage } from '../types.js';
 import { readFile, readdir } from 'fs/promises';
 import { join } from 'path';
 import { getUserProfileSummary, buildProfileContext, getAffinityDescription } from '../psychology/index.js';
-
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+import { getLlmProvider } from '../llm/index.js';
+import type { UsageContext } from '../usage/index.js';
+import { IngestedAttachment, formatAttachmentsForPrompt } from './attachments.js';
 
 export interface PromptContext {
   userRequest: string;
@@ -30,6 +20,8 @@ export interface PromptContext {
   conversationHistory: ChatMessage[];
   repoPath: string;
   branchName: string;
+  attachments?: IngestedAttachment[];   // Files attached to the request, already in the worktree
+  usage?: UsageContext;   // Attribution for the prompt-enhancement call
 }
 
 /**
@@ -37,13 +29,13 @@ export interface PromptContext {
  * Now includes psychological profile context for personalized task handling
  */
 export async function buildClaudePrompt(context: PromptContext): Promise<string> {
-  const { userRequest, channelName, authorName, authorId, conversationHistory, repoPath, branchName } = context;
+  const { userRequest, channelName, authorName, authorId, conversationHistory, repoPath, branchName, attachments, usage } = context;
 
   // Get codebase context
   const codebaseContext = await getCodebaseContext(repoPath);
 
   // Enhance the prompt with AI
-  const enhancedRequest = await enhancePromptWithAI(userRequest, codebaseContext, authorName);
+  const enhancedRequest = await enhancePromptWithAI(userRequest, codebaseContext, authorName, usage);
 
   // Build conversation context
   const conversationContext = conversationHistory
@@ -89,7 +81,7 @@ You are Claude Code, working inside Omega-Arbiter - a self-editing Discord bot.
 
 ## The Request
 ${userRequest}
-
+${attachments?.length ? `\n${formatAttachmentsForPrompt(attachments)}\n` : ''}
 ## Enhanced Task Analysis
 ${enhancedRequest}
 ${profileContext}
@@ -121,18 +113,62 @@ Now proceed with the task.`;
   return fullPrompt;
 }
 
+/**
+ * Build the prompt for a read-only research run
+ * Claude investigates the codebase and answers with file:line citations instead of editing
+ */
+export async function buildResearchPrompt(context: PromptContext): Promise<string> {
+  const { userRequest, channelName, authorName, conversationHistory, repoPath } = context;
+
+  const codebaseContext = await getCodebaseContext(repoPath);
+  const conversationContext = conversationHistory
+    .slice(-10)
+    .map((msg) => `${msg.authorName}: ${msg.content.slice(0, 300)}`)
+    .join('\n');
+
+  return `# Omega-Arbiter Research Question
+
+## What You Are
+You are Claude Code, working inside Omega-Arbiter - a self-editing Discord bot. Someone asked a question about YOUR OWN codebase. Investigate it and answer; do not change anything.
+
+## Current Context
+- **Working Directory**: \`${repoPath}\` (a throwaway checkout of the default branch)
+- **Asked By**: ${authorName} (in #${channelName})
+
+## The Question
+${userRequest}
+
+## Recent Conversation Context
+\`\`\`
+${conversationContext || 'No recent conversation'}
+\`\`\`
+
+## Codebase Overview
+${codebaseContext}
+
+## Instructions
+1. Read the code that is relevant to the question - search, open files, follow the calls
+2. Do NOT edit files, install packages or commit; this is a read-only investigation
+3. Answer the question directly, then explain how you know
+4. Cite every claim about the code as \`path/to/file.ts:line\` (or \`file.ts:start-end\`), relative to the working directory
+5. Say so if the code doesn't answer the question, instead of guessing
+6. Keep the answer under 1500 characters - it is posted to a chat channel
+
+Now investigate.`;
+}
+
 /**
  * Use AI to enhance the user's request into a more detailed prompt
  */
 export async function enhancePromptWithAI(
   userRequest: string,
   codebaseContext: string,
-  authorName: string
+  authorName: string,
+  usage?: UsageContext
 ): Promise<string> {
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
+    const enhanced = await getLlmProvider('prompt').complete(
+      [
         {
           role: 'system',
           content: `You are a prompt engineer. Your job is to take a user's request and enhance it into a more detailed, actionable task description for an AI coding assistant.
@@ -157,11 +193,10 @@ ${codebaseContext}
 Enhance this into a detailed task description.`,
         },
       ],
-      temperature: 0.7,
-      max_tokens: 1000,
-    });
+      { temperature: 0.7, maxTokens: 1000, usage: { ...usage, feature: 'prompt' } }
+    );
 
-    return response.choices[0]?.message?.content || userRequest;
+    return enhanced || userRequest;
   } catch (error) {
     console.error('[PromptBuilder] Enhancement error:', error);
     return userRequest; // Fall back to original request
@@ -0,0 +1,99 @@
+/**
+ * Replay Claude Runner
+ * Plays recorded transcripts back through the same parsing and onOutput
+ * callbacks as a live run, so output rendering and checkpoint handling can
+ * be debugged without invoking the Claude CLI
+ */
+
+import { ClaudeRunner, ClaudeRunnerConfig, ClaudeRunResult } from './runner.js';
+import { ClaudeUsage, StreamParser } from './streamParser.js';
+import { readTranscript, TranscriptRun } from './transcript.js';
+
+export interface ReplayOptions {
+  speed?: number;     // 1 = original timing, 10 = ten times faster, 0 = no delays (default)
+}
+
+export class ReplayClaudeRunner extends ClaudeRunner {
+  private abortRequested = false;
+  private wake: (() => void) | null = null;
+
+  /**
+   * Runs can be shared between runners: each run() plays the next recorded run
+   */
+  constructor(private runs: TranscriptRun[], private options: ReplayOptions = {}) {
+    super();
+  }
+
+  /**
+   * Replay every run recorded in a transcript file, in order
+   */
+  static async fromFile(path: string, options: ReplayOptions = {}): Promise<ReplayClaudeRunner> {
+    return new ReplayClaudeRunner(await readTranscript(path), options);
+  }
+
+  async run(config: ClaudeRunnerConfig): Promise<ClaudeRunResult> {
+    const { onOutput, onError } = config;
+    const run = this.runs.shift();
+    if (!run) {
+      return { exitCode: 1, summary: 'No recorded run left to replay', success: false };
+    }
+
+    console.log(`[ReplayRunner] Replaying run from ${run.start.at} (${run.entries.length} entries)`);
+
+    const parser = new StreamParser(run.start.workdir);
+    let lastContent = '';
+    let usage: ClaudeUsage | undefined;
+    let errorOutput = '';
+    let previousAt = new Date(run.start.at).getTime();
+
+    for (const entry of run.entries) {
+      await this.delay(new Date(entry.at).getTime() - previousAt);
+      previousAt = new Date(entry.at).getTime();
+      // Like a killed process, an aborted replay stops producing output
+      if (this.abortRequested) break;
+
+      if (entry.type === 'stderr') {
+        errorOutput += entry.text;
+        onError?.(entry.text);
+        continue;
+      }
+
+      if (entry.type === 'event') {
+        for (const event of parser.parse(entry.line)) {
+          lastContent = event.content || lastContent;
+          usage = event.usage ?? usage;
+          await onOutput?.(event);
+          this.emit('output', event);
+        }
+      }
+    }
+
+    // Runs recorded without an exit (the bot died mid-run) replay as killed
+    const exitCode = this.abortRequested ? 143 : run.exit?.exitCode ?? 143;
+    return {
+      exitCode,
+      summary: lastContent || errorOutput || 'No output captured',
+      success: exitCode === 0 && !this.abortRequested && !run.exit?.aborted,
+      usage,
+    };
+  }
+
+  abort(): void {
+    this.abortRequested = true;
+    this.wake?.();
+  }
+
+  private delay(ms: number): Promise<void> {
+    const speed = this.options.speed ?? 0;
+    if (speed <= 0 || ms <= 0) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms / speed);
+      function done(): void {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    });
+  }
+}
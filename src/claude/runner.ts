@@ -6,11 +6,16 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import { getLogStore } from '../logs/index.js';
+import { TranscriptWriter } from './transcript.js';
+import { ClaudeUsage, StreamParser, ToolResult, ToolUse } from './streamParser.js';
 
 export interface ClaudeEvent {
   type: 'text' | 'tool_use' | 'tool_result' | 'result' | 'error' | 'system';
   content: string;
   raw?: unknown;
+  toolUse?: ToolUse;           // Set on tool_use events
+  toolResult?: ToolResult;     // Set on tool_result events (with the matching toolUse)
+  usage?: ClaudeUsage;         // Set on result events that report tokens/cost
 }
 
 export interface ClaudeRunnerConfig {
@@ -18,12 +23,15 @@ export interface ClaudeRunnerConfig {
   prompt: string;
   onOutput?: (event: ClaudeEvent) => void;
   onError?: (error: string) => void;
+  transcriptPath?: string;     // Append the raw stream-json output to this file (see transcript.ts)
+  permissionMode?: 'acceptEdits' | 'plan';   // plan: read-only investigation, no edits (default acceptEdits)
 }
 
 export interface ClaudeRunResult {
   exitCode: number;
   summary: string;
   success: boolean;
+  usage?: ClaudeUsage;         // From the run's result event
 }
 
 export class ClaudeRunner extends EventEmitter {
@@ -34,14 +42,15 @@ export class ClaudeRunner extends EventEmitter {
    * Run Claude Code CLI in headless mode
    */
   async run(config: ClaudeRunnerConfig): Promise<ClaudeRunResult> {
-    const { workdir, prompt, onOutput, onError } = config;
+    const { workdir, prompt, onOutput, onError, transcriptPath, permissionMode = 'acceptEdits' } = config;
+    const transcript = transcriptPath ? new TranscriptWriter(transcriptPath, workdir, prompt) : null;
 
     return new Promise((resolve) => {
       const args = [
         '-p', prompt,
         '--output-format', 'stream-json',
         '--verbose',
-        '--permission-mode', 'acceptEdits',
+        '--permission-mode', permissionMode,
       ];
 
       console.log(`[ClaudeRunner] Starting in ${workdir}`);
@@ -58,8 +67,10 @@ export class ClaudeRunner extends EventEmitter {
         },
       });
 
+      const parser = new StreamParser(workdir);
       let buffer = '';
       let lastContent = '';
+      let usage: ClaudeUsage | undefined;
       let errorOutput = '';
 
       // Handle stdout (stream-json output)
@@ -72,19 +83,15 @@ export class ClaudeRunner extends EventEmitter {
 
         for (const line of lines) {
           if (!line.trim()) continue;
+          transcript?.event(line);
 
           try {
-            const event = this.parseStreamEvent(line);
-            if (event) {
+            for (const event of parser.parse(line)) {
               lastContent = event.content || lastContent;
+              usage = event.usage ?? usage;
               onOutput?.(event);
               this.emit('output', event);
-              // Log Claude output to store
-              if (event.type === 'text' && event.content) {
-                getLogStore().claude('Claude', event.content.slice(0, 500));
-              } else if (event.type === 'tool_use') {
-                getLogStore().claude('Claude', `Tool: ${event.content}`);
-              }
+              logEvent(event);
             }
           } catch (err) {
             // Log but don't fail on parse errors
@@ -97,22 +104,27 @@ export class ClaudeRunner extends EventEmitter {
       this.process.stderr?.on('data', (chunk: Buffer) => {
         const text = chunk.toString('utf8');
         errorOutput += text;
+        transcript?.stderr(text);
         onError?.(text);
-        this.emit('error', text);
+        // An 'error' event without listeners would throw and take the process down
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', text);
+        }
       });
 
       // Handle process exit
-      this.process.on('close', (code) => {
+      this.process.on('close', async (code) => {
         const exitCode = code ?? 1;
         console.log(`[ClaudeRunner] Process exited with code ${exitCode}`);
         getLogStore().claude('ClaudeRunner', `Claude exited with code ${exitCode}`, { exitCode, aborted: this.aborted });
 
         // Process any remaining buffer
         if (buffer.trim()) {
+          transcript?.event(buffer);
           try {
-            const event = this.parseStreamEvent(buffer);
-            if (event) {
+            for (const event of parser.parse(buffer)) {
               lastContent = event.content || lastContent;
+              usage = event.usage ?? usage;
               onOutput?.(event);
             }
           } catch {
@@ -120,17 +132,22 @@ export class ClaudeRunner extends EventEmitter {
           }
         }
 
+        await transcript?.close(exitCode, this.aborted);
+
         resolve({
           exitCode,
           summary: lastContent || errorOutput || 'No output captured',
           success: exitCode === 0 && !this.aborted,
+          usage,
         });
       });
 
       // Handle spawn errors
-      this.process.on('error', (err) => {
+      this.process.on('error', async (err) => {
         console.error('[ClaudeRunner] Spawn error:', err);
         onError?.(err.message);
+        transcript?.stderr(err.message);
+        await transcript?.close(1, false);
         resolve({
           exitCode: 1,
           summary: `Failed to start Claude: ${err.message}`,
@@ -140,98 +157,6 @@ export class ClaudeRunner extends EventEmitter {
     });
   }
 
-  /**
-   * Parse a stream-json event from Claude
-   */
-  private parseStreamEvent(line: string): ClaudeEvent | null {
-    try {
-      const data = JSON.parse(line);
-
-      // Handle different event types from Claude's stream-json output
-      if (data.type === 'assistant') {
-        // Assistant message with content
-        const textContent = data.message?.content?.find(
-          (c: { type: string }) => c.type === 'text'
-        );
-        if (textContent?.text) {
-          return {
-            type: 'text',
-            content: textContent.text,
-            raw: data,
-          };
-        }
-      }
-
-      if (data.type === 'content_block_delta') {
-        // Streaming text delta
-        if (data.delta?.type === 'text_delta' && data.delta?.text) {
-          return {
-            type: 'text',
-            content: data.delta.text,
-            raw: data,
-          };
-        }
-      }
-
-      if (data.type === 'tool_use' || data.message?.content?.some(
-        (c: { type: string }) => c.type === 'tool_use'
-      )) {
-        // Tool usage
-        const toolUse = data.message?.content?.find(
-          (c: { type: string }) => c.type === 'tool_use'
-        ) || data;
-        return {
-          type: 'tool_use',
-          content: `Using tool: ${toolUse.name || 'unknown'}`,
-          raw: data,
-        };
-      }
-
-      if (data.type === 'tool_result') {
-        return {
-          type: 'tool_result',
-          content: typeof data.content === 'string' ? data.content : JSON.stringify(data.content),
-          raw: data,
-        };
-      }
-
-      if (data.type === 'result') {
-        // Final result
-        return {
-          type: 'result',
-          content: data.result || data.message || 'Completed',
-          raw: data,
-        };
-      }
-
-      if (data.type === 'system' || data.type === 'error') {
-        return {
-          type: data.type,
-          content: data.message || data.error || JSON.stringify(data),
-          raw: data,
-        };
-      }
-
-      // For any other event type, try to extract meaningful content
-      if (data.message || data.text || data.content) {
-        return {
-          type: 'system',
-          content: data.message || data.text ||
-            (typeof data.content === 'string' ? data.content : JSON.stringify(data.content)),
-          raw: data,
-        };
-      }
-
-      return null;
-    } catch {
-      // Not JSON, treat as plain text
-      return {
-        type: 'text',
-        content: line,
-      };
-    }
-  }
-
   /**
    * Abort the running Claude process
    */
@@ -266,3 +191,24 @@ export class ClaudeRunner extends EventEmitter {
     });
   }
 }
+
+/**
+ * Log Claude output to the store; tool calls carry the tool name so logs can be queried per tool
+ */
+function logEvent(event: ClaudeEvent): void {
+  if (event.type === 'text' && event.content) {
+    getLogStore().claude('Claude', event.content.slice(0, 500));
+  } else if (event.toolUse) {
+    const { id, name, filePath, command } = event.toolUse;
+    getLogStore().claude('Claude', `Tool: ${event.content}`, { tool: name, toolUseId: id, filePath, command });
+  } else if (event.toolResult) {
+    const { toolUseId, toolUse, isError, exitCode } = event.toolResult;
+    getLogStore().claude('Claude', `Tool result: ${event.content}`, {
+      tool: toolUse?.name,
+      toolUseId,
+      filePath: toolUse?.filePath,
+      isError,
+      exitCode,
+    });
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Stream-json Parser
+ * Turns Claude CLI stream-json lines into ClaudeEvents, with typed tool
+ * calls and tool results correlated back to the call that produced them
+ */
+
+import { isAbsolute, relative } from 'path';
+import type { ClaudeEvent } from './runner.js';
+
+/**
+ * A tool call made by Claude
+ */
+export interface ToolUse {
+  id: string;                        // tool_use_id, used to match the result
+  name: string;                      // Edit, Write, Bash, Read, ...
+  input: Record<string, unknown>;
+  filePath?: string;                 // Relative to the working directory when inside it
+  command?: string;                  // Bash command
+  editSummary?: string;              // e.g. "+3 -1" for edits, "12 lines" for writes
+  summary: string;                   // e.g. "Edit src/foo.ts", "Bash npm test"
+}
+
+/**
+ * The outcome of a tool call
+ */
+export interface ToolResult {
+  toolUseId: string;
+  toolUse?: ToolUse;                 // The matching call, if it was seen
+  isError: boolean;
+  exitCode?: number;                 // Bash only
+  output: string;
+  summary: string;                   // e.g. "Edited src/foo.ts (+3 -1)", "Ran npm test (exit 1)"
+}
+
+/**
+ * Tokens and cost reported by the final result event of a run
+ */
+export interface ClaudeUsage {
+  model: string;                     // First model listed in modelUsage, else "claude"
+  inputTokens: number;               // Including cache reads and writes
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd?: number;
+}
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+interface ResultData {
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_read_input_tokens?: number;
+    cache_creation_input_tokens?: number;
+  };
+  total_cost_usd?: number;
+  cost_usd?: number;                 // Older CLI versions
+  modelUsage?: Record<string, unknown>;
+}
+
+const MAX_COMMAND_LENGTH = 80;
+
+/**
+ * Parses the lines of one Claude run (keeps tool calls to match results against)
+ */
+export class StreamParser {
+  private toolUses: Map<string, ToolUse> = new Map();
+
+  constructor(private workdir?: string) {}
+
+  /**
+   * Parse one stream-json line (a line can hold several content blocks)
+   */
+  parse(line: string): ClaudeEvent[] {
+    let data;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      // Not JSON, treat as plain text
+      return [{ type: 'text', content: line }];
+    }
+
+    // Assistant and user messages carry text, tool calls and tool results as content blocks
+    if ((data.type === 'assistant' || data.type === 'user') && Array.isArray(data.message?.content)) {
+      return (data.message.content as ContentBlock[])
+        .map((block) => this.parseBlock(block, data))
+        .filter((event): event is ClaudeEvent => event !== null);
+    }
+
+    if (data.type === 'user') {
+      // The prompt echoed back - nothing to show
+      return [];
+    }
+
+    if (data.type === 'content_block_delta') {
+      // Streaming text delta
+      if (data.delta?.type === 'text_delta' && data.delta?.text) {
+        return [{ type: 'text', content: data.delta.text, raw: data }];
+      }
+      return [];
+    }
+
+    if (data.type === 'tool_use' || data.type === 'tool_result') {
+      const event = this.parseBlock(data, data);
+      return event ? [event] : [];
+    }
+
+    if (data.type === 'result') {
+      // Final result
+      return [{ type: 'result', content: data.result || data.message || 'Completed', raw: data, usage: parseUsage(data) }];
+    }
+
+    if (data.type === 'system' || data.type === 'error') {
+      return [{
+        type: data.type,
+        content: data.message || data.error || JSON.stringify(data),
+        raw: data,
+      }];
+    }
+
+    // For any other event type, try to extract meaningful content
+    if (data.message || data.text || data.content) {
+      const content = data.message || data.text || data.content;
+      return [{
+        type: 'system',
+        content: typeof content === 'string' ? content : JSON.stringify(content),
+        raw: data,
+      }];
+    }
+
+    return [];
+  }
+
+  private parseBlock(block: ContentBlock, raw: unknown): ClaudeEvent | null {
+    if (block.type === 'text' && block.text) {
+      return { type: 'text', content: block.text, raw };
+    }
+
+    if (block.type === 'tool_use') {
+      const toolUse = this.describeToolUse(block);
+      this.toolUses.set(toolUse.id, toolUse);
+      return { type: 'tool_use', content: toolUse.summary, raw, toolUse };
+    }
+
+    if (block.type === 'tool_result') {
+      const toolResult = this.describeToolResult(block);
+      return { type: 'tool_result', content: toolResult.summary, raw, toolResult };
+    }
+
+    return null;
+  }
+
+  private describeToolUse(block: ContentBlock): ToolUse {
+    const name = block.name || 'unknown';
+    const input = block.input ?? {};
+    const rawPath = stringField(input, 'file_path') ?? stringField(input, 'notebook_path') ?? stringField(input, 'path');
+    const filePath = rawPath ? this.relativePath(rawPath) : undefined;
+    const command = stringField(input, 'command');
+
+    let editSummary: string | undefined;
+    if (name === 'Edit') {
+      editSummary = lineDelta(stringField(input, 'old_string'), stringField(input, 'new_string'));
+    } else if (name === 'MultiEdit' && Array.isArray(input.edits)) {
+      editSummary = `${input.edits.length} edits`;
+    } else if (name === 'Write') {
+      const content = stringField(input, 'content');
+      editSummary = content !== undefined ? `${countLines(content)} lines` : undefined;
+    }
+
+    let target = filePath ?? '';
+    if (command) {
+      target = truncate(command, MAX_COMMAND_LENGTH);
+    } else if (!target) {
+      target = stringField(input, 'pattern') ?? stringField(input, 'url') ?? stringField(input, 'query')
+        ?? stringField(input, 'description') ?? '';
+    }
+
+    return {
+      id: block.id || `tool-${this.toolUses.size + 1}`,
+      name,
+      input,
+      filePath,
+      command,
+      editSummary,
+      summary: target ? `${name} ${target}` : name,
+    };
+  }
+
+  private describeToolResult(block: ContentBlock): ToolResult {
+    const toolUseId = block.tool_use_id || '';
+    const toolUse = this.toolUses.get(toolUseId);
+    this.toolUses.delete(toolUseId);
+
+    const output = resultText(block.content);
+    const isError = block.is_error === true;
+
+    let exitCode: number | undefined;
+    if (toolUse?.name === 'Bash') {
+      const match = output.match(/Exit code:? (\d+)/i);
+      exitCode = match ? parseInt(match[1], 10) : isError ? 1 : 0;
+    }
+
+    return {
+      toolUseId,
+      toolUse,
+      isError,
+      exitCode,
+      output,
+      summary: summarizeResult(toolUse, isError, exitCode),
+    };
+  }
+
+  private relativePath(path: string): string {
+    if (!this.workdir || !isAbsolute(path)) return path;
+    const rel = relative(this.workdir, path);
+    return rel && !rel.startsWith('..') ? rel : path;
+  }
+}
+
+/**
+ * Usage from a result event (undefined if the CLI didn't report any)
+ */
+function parseUsage(data: ResultData): ClaudeUsage | undefined {
+  const usage = data.usage;
+  const cost = data.total_cost_usd ?? data.cost_usd;
+  if (!usage && typeof cost !== 'number') return undefined;
+
+  const cacheReadTokens = usage?.cache_read_input_tokens ?? 0;
+  const cacheWriteTokens = usage?.cache_creation_input_tokens ?? 0;
+  const models = data.modelUsage ? Object.keys(data.modelUsage) : [];
+
+  return {
+    model: models[0] ?? 'claude',
+    inputTokens: (usage?.input_tokens ?? 0) + cacheReadTokens + cacheWriteTokens,
+    outputTokens: usage?.output_tokens ?? 0,
+    cacheReadTokens,
+    cacheWriteTokens,
+    costUsd: typeof cost === 'number' ? cost : undefined,
+  };
+}
+
+/**
+ * Past-tense summary of a finished tool call, e.g. "Edited src/foo.ts (+3 -1)"
+ */
+function summarizeResult(toolUse: ToolUse | undefined, isError: boolean, exitCode?: number): string {
+  if (!toolUse) {
+    return isError ? 'Tool failed' : 'Tool completed';
+  }
+
+  const failed = isError ? ' (failed)' : '';
+  const detail = toolUse.editSummary ? ` (${toolUse.editSummary})` : '';
+  const path = toolUse.filePath ?? '';
+
+  switch (toolUse.name) {
+    case 'Edit':
+    case 'MultiEdit':
+    case 'NotebookEdit':
+      return `Edited ${path}${isError ? failed : detail}`;
+    case 'Write':
+      return `Wrote ${path}${isError ? failed : detail}`;
+    case 'Read':
+      return `Read ${path}${failed}`;
+    case 'Bash':
+      return `Ran ${truncate(toolUse.command ?? '', MAX_COMMAND_LENGTH)} (exit ${exitCode})`;
+    default:
+      return `${toolUse.summary}${failed}`;
+  }
+}
+
+/**
+ * Line counts removed/added by an edit, e.g. "+3 -1"
+ */
+function lineDelta(oldString?: string, newString?: string): string | undefined {
+  if (oldString === undefined || newString === undefined) return undefined;
+  return `+${countLines(newString)} -${countLines(oldString)}`;
+}
+
+function countLines(text: string): number {
+  if (!text) return 0;
+  return text.endsWith('\n') ? text.split('\n').length - 1 : text.split('\n').length;
+}
+
+/**
+ * Tool result content is a string or a list of text blocks
+ */
+function resultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((c) => (typeof c === 'string' ? c : (c as { text?: string }).text ?? ''))
+      .join('\n');
+  }
+  return content === undefined ? '' : JSON.stringify(content);
+}
+
+function stringField(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.split('\n')[0];
+  return line.length > max || line !== text ? `${line.slice(0, max - 1)}…` : line;
+}
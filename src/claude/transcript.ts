@@ -0,0 +1,107 @@
+/**
+ * Claude Transcripts
+ * Records the raw stream-json output of Claude runs (one JSONL file per
+ * session, appended to by every run in it) and reads it back for replay
+ */
+
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * One line of a transcript file
+ */
+export type TranscriptEntry =
+  | { type: 'start'; at: string; workdir: string; prompt: string }
+  | { type: 'event'; at: string; line: string }       // Raw stream-json line from stdout
+  | { type: 'stderr'; at: string; text: string }
+  | { type: 'exit'; at: string; exitCode: number; aborted: boolean };
+
+/**
+ * A single recorded run
+ */
+export interface TranscriptRun {
+  start: Extract<TranscriptEntry, { type: 'start' }>;
+  entries: TranscriptEntry[];           // Events and stderr, in order
+  exit?: Extract<TranscriptEntry, { type: 'exit' }>;
+}
+
+/**
+ * Appends one run to a transcript file
+ */
+export class TranscriptWriter {
+  private stream: WriteStream;
+  private closed = false;
+
+  constructor(path: string, workdir: string, prompt: string) {
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+    } catch {
+      // Reported by the stream's error handler below
+    }
+    this.stream = createWriteStream(path, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error(`[Transcript] Failed to write ${path}:`, error);
+    });
+    this.write({ type: 'start', at: new Date().toISOString(), workdir, prompt });
+  }
+
+  event(line: string): void {
+    this.write({ type: 'event', at: new Date().toISOString(), line });
+  }
+
+  stderr(text: string): void {
+    this.write({ type: 'stderr', at: new Date().toISOString(), text });
+  }
+
+  /**
+   * Record the exit and close the file, resolving once it's flushed (later calls are ignored)
+   */
+  close(exitCode: number, aborted: boolean): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.write({ type: 'exit', at: new Date().toISOString(), exitCode, aborted });
+    this.closed = true;
+    return new Promise((resolve) => this.stream.end(resolve));
+  }
+
+  private write(entry: TranscriptEntry): void {
+    if (this.closed) return;
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+/**
+ * Read a transcript file, split into its runs (oldest first)
+ */
+export async function readTranscript(path: string): Promise<TranscriptRun[]> {
+  const content = await readFile(path, 'utf8');
+  const runs: TranscriptRun[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line) as TranscriptEntry;
+    } catch {
+      // A crash mid-write can leave a truncated last line
+      continue;
+    }
+
+    if (entry.type === 'start') {
+      runs.push({ start: entry, entries: [] });
+      continue;
+    }
+
+    const current = runs[runs.length - 1];
+    if (!current) continue;
+
+    if (entry.type === 'exit') {
+      current.exit = entry;
+    } else {
+      current.entries.push(entry);
+    }
+  }
+
+  return runs;
+}
@@ -195,6 +195,7 @@ export interface LogQueryParams {
   level?: string;
   source?: string;
   sessionId?: string;
+  tool?: string;                     // Claude tool name recorded in metadata (Edit, Bash, ...)
   startTime?: Date;
   endTime?: Date;
 }
@@ -214,7 +215,7 @@ export interface DbLogEntry {
 export async function queryLogs(params: LogQueryParams = {}): Promise<DbLogEntry[]> {
   if (!pool || !isInitialized) return [];
 
-  const { limit = 100, offset = 0, level, source, sessionId, startTime, endTime } = params;
+  const { limit = 100, offset = 0, level, source, sessionId, tool, startTime, endTime } = params;
 
   const conditions: string[] = [];
   const values: unknown[] = [];
@@ -235,6 +236,11 @@ export async function queryLogs(params: LogQueryParams = {}): Promise<DbLogEntry
     values.push(sessionId);
   }
 
+  if (tool) {
+    conditions.push(`metadata->>'tool' = $${paramIndex++}`);
+    values.push(tool);
+  }
+
   if (startTime) {
     conditions.push(`timestamp >= $${paramIndex++}`);
     values.push(startTime);
@@ -268,7 +274,7 @@ export async function queryLogs(params: LogQueryParams = {}): Promise<DbLogEntry
 export async function getLogCount(params: Omit<LogQueryParams, 'limit' | 'offset'> = {}): Promise<number> {
   if (!pool || !isInitialized) return 0;
 
-  const { level, source, sessionId, startTime, endTime } = params;
+  const { level, source, sessionId, tool, startTime, endTime } = params;
 
   const conditions: string[] = [];
   const values: unknown[] = [];
@@ -289,6 +295,11 @@ export async function getLogCount(params: Omit<LogQueryParams, 'limit' | 'offset
     values.push(sessionId);
   }
 
+  if (tool) {
+    conditions.push(`metadata->>'tool' = $${paramIndex++}`);
+    values.push(tool);
+  }
+
   if (startTime) {
     conditions.push(`timestamp >= $${paramIndex++}`);
     values.push(startTime);
@@ -0,0 +1,115 @@
+/**
+ * Forge Adapters
+ * Open and track pull requests for session branches on a code forge
+ * (GitHub or anything speaking the same REST API)
+ */
+
+import { fetchJson } from '../utils/fetch.js';
+import { PullRequestInfo, PullRequestState } from '../types.js';
+
+/**
+ * Options for opening a pull request
+ */
+export interface CreatePullRequestOptions {
+  title: string;
+  body: string;
+  head: string;    // Branch with the changes
+  base: string;    // Branch to merge into
+}
+
+/**
+ * A code forge that can host pull requests
+ */
+export interface ForgeAdapter {
+  readonly name: string;
+  createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo>;
+  getPullRequest(number: number): Promise<PullRequestInfo>;
+}
+
+/**
+ * Configuration for the GitHub adapter
+ */
+export interface GitHubForgeConfig {
+  apiUrl?: string;   // Defaults to https://api.github.com (point at a fake server for testing)
+  owner: string;
+  repo: string;
+  token: string;
+}
+
+/**
+ * Subset of the GitHub pull request resource that we use
+ */
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  merged_at?: string | null;
+}
+
+/**
+ * GitHub REST adapter
+ */
+export class GitHubForge implements ForgeAdapter {
+  readonly name = 'github';
+  private apiUrl: string;
+
+  constructor(private config: GitHubForgeConfig) {
+    this.apiUrl = (config.apiUrl ?? 'https://api.github.com').replace(/\/$/, '');
+  }
+
+  /**
+   * Open a pull request
+   * @throws Error if the API call fails
+   */
+  async createPullRequest(options: CreatePullRequestOptions): Promise<PullRequestInfo> {
+    const pr = await this.request<GitHubPullRequest>('POST', '/pulls', {
+      title: options.title,
+      body: options.body,
+      head: options.head,
+      base: options.base,
+    });
+
+    console.log(`[Forge] Opened PR #${pr.number}: ${pr.html_url}`);
+    return this.toInfo(pr);
+  }
+
+  /**
+   * Get the current state of a pull request
+   * @throws Error if the API call fails
+   */
+  async getPullRequest(number: number): Promise<PullRequestInfo> {
+    const pr = await this.request<GitHubPullRequest>('GET', `/pulls/${number}`);
+    return this.toInfo(pr);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: object): Promise<T> {
+    const url = `${this.apiUrl}/repos/${this.config.owner}/${this.config.repo}${path}`;
+    const result = await fetchJson<T>(url, {
+      method,
+      body,
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+
+    if (!result.success || !result.data) {
+      const detail = (result.data as { message?: string } | undefined)?.message;
+      throw new Error(`GitHub ${method} ${path} failed: ${result.error ?? 'no data'}${detail ? ` (${detail})` : ''}`);
+    }
+    return result.data;
+  }
+
+  private toInfo(pr: GitHubPullRequest): PullRequestInfo {
+    const state: PullRequestState = pr.merged || pr.merged_at ? 'merged' : pr.state;
+    return {
+      number: pr.number,
+      url: pr.html_url,
+      state,
+      forge: this.name,
+      updatedAt: new Date(),
+    };
+  }
+}
@@ -4,3 +4,9 @@
 
 export { WorktreeManager } from './worktree.js';
 export type { WorktreeConfig } from './worktree.js';
+export { extractPatch, stripPatch, isUnifiedDiff, patchedFiles, parseRejectOutput, formatRejectReport } from './patch.js';
+export type { PatchApplyResult, PatchFileResult, PatchHunkResult } from './patch.js';
+export { GitHubForge } from './forge.js';
+export type { ForgeAdapter, CreatePullRequestOptions, GitHubForgeConfig } from './forge.js';
+export { PostgresSessionStore, JsonFileSessionStore, createSessionStore } from './sessionStore.js';
+export type { SessionStore, StoredQueuedRequest, StoredRateLimitBucket } from './sessionStore.js';
@@ -0,0 +1,183 @@
+/**
+ * Patch Handling
+ * Finds unified diffs in chat messages and turns `git apply --reject` output
+ * into a per-hunk report, so a patch that doesn't apply can be fixed by its author
+ */
+
+export interface PatchHunkResult {
+  index: number;       // 1-based, as git numbers them
+  header: string;      // The "@@ -a,b +c,d @@" line
+  applied: boolean;
+}
+
+/**
+ * How one file of a patch fared
+ */
+export interface PatchFileResult {
+  path: string;
+  status: 'applied' | 'partial' | 'failed';
+  hunks: PatchHunkResult[];
+  error?: string;      // Why git refused the whole file (e.g. it doesn't exist)
+}
+
+/**
+ * Outcome of applying a patch to a worktree
+ */
+export interface PatchApplyResult {
+  applied: boolean;
+  method?: 'clean' | '3way';
+  files: PatchFileResult[];   // Per-file results when the patch was rejected
+  error?: string;
+}
+
+interface PatchFile {
+  path: string;
+  hunks: string[];
+}
+
+// ```diff / ```patch fences, or an unlabelled fence whose body is a diff
+const FENCED_DIFF = /```(diff|patch)?[ \t]*\n([\s\S]*?)```/g;
+
+/**
+ * Pull a unified diff out of message text
+ * @returns the patch (ending in a newline, as git apply expects), or null if there isn't one
+ */
+export function extractPatch(content: string): string | null {
+  for (const match of content.matchAll(FENCED_DIFF)) {
+    if (isUnifiedDiff(match[2])) {
+      return withTrailingNewline(match[2]);
+    }
+  }
+
+  // An unfenced diff runs from its first header to the end of the message
+  const start = content.search(/^(diff --git |--- \S)/m);
+  if (start !== -1 && !content.includes('```') && isUnifiedDiff(content.slice(start))) {
+    return withTrailingNewline(content.slice(start));
+  }
+  return null;
+}
+
+/**
+ * The message text around a patch (the requester's explanation, if any)
+ */
+export function stripPatch(content: string): string {
+  const withoutFences = content.replace(FENCED_DIFF, (block, _lang, body: string) => (isUnifiedDiff(body) ? '' : block));
+  const start = withoutFences.search(/^(diff --git |--- \S)/m);
+  return (start !== -1 && isUnifiedDiff(withoutFences.slice(start)) ? withoutFences.slice(0, start) : withoutFences).trim();
+}
+
+/**
+ * Whether some text has the headers and at least one hunk of a unified diff
+ */
+export function isUnifiedDiff(text: string): boolean {
+  return /^--- \S.*\n\+\+\+ \S/m.test(text) && /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m.test(text);
+}
+
+/**
+ * The files a patch touches, in order
+ */
+export function patchedFiles(patch: string): string[] {
+  return parsePatch(patch).map((f) => f.path);
+}
+
+/**
+ * Build the per-hunk report from `git apply --reject --verbose` output
+ * Files git never got to (e.g. missing from the tree) are marked failed with its error
+ */
+export function parseRejectOutput(output: string, patch: string): PatchFileResult[] {
+  const files = parsePatch(patch);
+  const results = new Map<string, PatchFileResult>(
+    files.map((f) => [f.path, { path: f.path, status: 'failed', hunks: [] }])
+  );
+  const headersFor = (path: string) => files.find((f) => f.path === path)?.hunks ?? [];
+
+  let current: PatchFileResult | undefined;
+  let checking: string | undefined;
+
+  for (const line of output.split('\n')) {
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(/^Checking patch (.+)\.\.\.$/))) {
+      checking = match[1];
+    } else if ((match = line.match(/^Applied patch (.+) cleanly\.$/))) {
+      const result = resultFor(results, match[1]);
+      result.status = 'applied';
+      result.hunks = headersFor(match[1]).map((header, i) => ({ index: i + 1, header, applied: true }));
+      current = undefined;
+    } else if ((match = line.match(/^Applying patch (.+) with \d+ rejects?\.\.\.$/))) {
+      current = resultFor(results, match[1]);
+      current.status = 'partial';
+    } else if (current && (match = line.match(/^(Hunk|Rejected hunk) #(\d+)/))) {
+      const index = parseInt(match[2], 10);
+      current.hunks.push({ index, header: headersFor(current.path)[index - 1] ?? '', applied: match[1] === 'Hunk' });
+    } else if ((match = line.match(/^error: (.+)$/)) && checking && match[1] !== 'while searching for:') {
+      const result = resultFor(results, checking);
+      result.error ??= match[1];
+    }
+  }
+
+  // A file whose hunks all failed is a failure, not a partial
+  for (const result of results.values()) {
+    if (result.status === 'partial' && result.hunks.every((h) => !h.applied)) {
+      result.status = 'failed';
+    }
+  }
+  return [...results.values()];
+}
+
+/**
+ * Describe which hunks applied and which were rejected, file by file
+ */
+export function formatRejectReport(files: PatchFileResult[]): string {
+  return files.map((file) => {
+    const icon = file.status === 'applied' ? '✅' : file.status === 'partial' ? '⚠️' : '❌';
+    const lines = [`${icon} \`${file.path}\``];
+    if (file.hunks.length === 0 && file.error) {
+      lines.push(`   ${file.error}`);
+    }
+    for (const hunk of file.status === 'applied' ? [] : file.hunks) {
+      lines.push(`   ${hunk.applied ? '✓' : '✗'} hunk #${hunk.index}${hunk.header ? ` \`${hunk.header}\`` : ''}${hunk.applied ? '' : ' rejected'}`);
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+/**
+ * Split a patch into files and the headers of their hunks
+ */
+function parsePatch(patch: string): PatchFile[] {
+  const files: PatchFile[] = [];
+  let current: PatchFile | undefined;
+  const lines = patch.split('\n');
+
+  for (const [i, line] of lines.entries()) {
+    // A file header is a ---/+++ pair; a lone "--- " line is a removed "-- " line
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = stripPrefix(line.slice(4));
+      const newPath = stripPrefix(lines[i + 1].slice(4));
+      current = { path: newPath === '/dev/null' ? oldPath : newPath, hunks: [] };
+      files.push(current);
+    } else if (current && line.startsWith('@@ ')) {
+      current.hunks.push(line.match(/^@@ [^@]+ @@/)?.[0] ?? line);
+    }
+  }
+  return files;
+}
+
+function stripPrefix(path: string): string {
+  const name = path.split('\t')[0].trim();
+  return name === '/dev/null' ? name : name.replace(/^[ab]\//, '');
+}
+
+function resultFor(results: Map<string, PatchFileResult>, path: string): PatchFileResult {
+  let result = results.get(path);
+  if (!result) {
+    result = { path, status: 'failed', hunks: [] };
+    results.set(path, result);
+  }
+  return result;
+}
+
+function withTrailingNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
@@ -0,0 +1,346 @@
+/**
+ * Work Session Store
+ * Persists WorkSession records, the session queue and rate limit buckets so they survive restarts and crashes
+ * Uses PostgreSQL when available, otherwise a local JSON file
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { getPool, isDbAvailable } from '../db/index.js';
+import { ArbiterDecision, ChatMessage, WorkSession } from '../types.js';
+
+/**
+ * A request waiting for a session slot, as stored
+ * Its transport is found again after a restart by the messages' `transport` type
+ */
+export interface StoredQueuedRequest {
+  id: string;
+  messages: ChatMessage[];
+  decision: ArbiterDecision;
+  statusChannelId?: string;
+  queuedAt: Date;
+}
+
+/**
+ * A self-edit rate limit bucket (see RateLimiter), keyed e.g. "user:123"
+ */
+export interface StoredRateLimitBucket {
+  tokens: number;
+  updatedAt: number;    // Epoch ms of the last refill
+}
+
+// Finished sessions are kept in the JSON file for this long after their last update
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * Storage backend for work sessions
+ */
+export interface SessionStore {
+  readonly name: string;
+  load(): Promise<WorkSession[]>;
+  save(session: WorkSession): Promise<void>;
+  loadQueue(): Promise<StoredQueuedRequest[]>;
+  saveQueue(requests: StoredQueuedRequest[]): Promise<void>;   // Replaces the whole queue, in order
+  loadRateLimitBuckets(): Promise<Record<string, StoredRateLimitBucket>>;
+  saveRateLimitBuckets(buckets: Record<string, StoredRateLimitBucket>): Promise<void>;   // Upserts the given keys
+}
+
+/**
+ * Convert a session to plain JSON (transport-specific raw payloads are dropped)
+ */
+export function serializeSession(session: WorkSession): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(session, (key, value) => (key === 'raw' ? undefined : value)));
+}
+
+/**
+ * Rebuild a session from stored JSON, reviving dates
+ */
+export function deserializeSession(data: Record<string, unknown>): WorkSession {
+  const session = data as unknown as WorkSession;
+
+  return {
+    ...session,
+    triggeredBy: reviveMessage(session.triggeredBy),
+    relatedMessages: (session.relatedMessages ?? []).map(reviveMessage),
+    pendingMessages: (session.pendingMessages ?? []).map(reviveMessage),
+    createdAt: new Date(session.createdAt),
+    updatedAt: new Date(session.updatedAt),
+    commits: session.commits ?? [],
+    shouldCheckpoint: false,
+    checkpointCount: session.checkpointCount ?? 0,
+    pullRequest: session.pullRequest
+      ? { ...session.pullRequest, updatedAt: new Date(session.pullRequest.updatedAt) }
+      : undefined,
+  };
+}
+
+/**
+ * Rebuild a queued request from stored JSON, reviving dates
+ */
+export function deserializeQueuedRequest(data: Record<string, unknown>): StoredQueuedRequest {
+  const request = data as unknown as StoredQueuedRequest;
+  return { ...request, messages: request.messages.map(reviveMessage), queuedAt: new Date(request.queuedAt) };
+}
+
+function reviveMessage(message: ChatMessage): ChatMessage {
+  return { ...message, timestamp: new Date(message.timestamp) };
+}
+
+function serializeQueue(requests: StoredQueuedRequest[]): Record<string, unknown>[] {
+  return requests.map(({ id, messages, decision, statusChannelId, queuedAt }) =>
+    JSON.parse(JSON.stringify({ id, messages, decision, statusChannelId, queuedAt }, (key, value) => (key === 'raw' ? undefined : value)))
+  );
+}
+
+/**
+ * PostgreSQL-backed store (work_sessions, session_queue and rate_limit_buckets tables)
+ */
+export class PostgresSessionStore implements SessionStore {
+  readonly name = 'postgres';
+  private tableReady = false;
+
+  private async ensureTable(): Promise<void> {
+    const pool = getPool();
+    if (!pool || this.tableReady) return;
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS work_sessions (
+        id VARCHAR(100) PRIMARY KEY,
+        status VARCHAR(50) NOT NULL,
+        branch_name VARCHAR(255) NOT NULL,
+        channel_id VARCHAR(100),
+        created_at TIMESTAMPTZ NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_work_sessions_status ON work_sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_work_sessions_updated_at ON work_sessions(updated_at DESC);
+
+      CREATE TABLE IF NOT EXISTS session_queue (
+        id VARCHAR(100) PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data JSONB NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key VARCHAR(255) PRIMARY KEY,
+        tokens DOUBLE PRECISION NOT NULL,
+        updated_at BIGINT NOT NULL
+      );
+    `);
+    this.tableReady = true;
+    console.log('[SessionStore] work_sessions, session_queue and rate_limit_buckets tables ready');
+  }
+
+  async load(): Promise<WorkSession[]> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return [];
+
+    await this.ensureTable();
+    const result = await pool.query<{ data: Record<string, unknown> }>(
+      'SELECT data FROM work_sessions ORDER BY created_at ASC'
+    );
+    return result.rows.map((row) => deserializeSession(row.data));
+  }
+
+  async save(session: WorkSession): Promise<void> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return;
+
+    await this.ensureTable();
+    await pool.query(
+      `INSERT INTO work_sessions (id, status, branch_name, channel_id, created_at, updated_at, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         updated_at = EXCLUDED.updated_at,
+         data = EXCLUDED.data`,
+      [
+        session.id,
+        session.status,
+        session.branchName,
+        session.triggeredBy.channelId,
+        session.createdAt,
+        session.updatedAt,
+        JSON.stringify(serializeSession(session)),
+      ]
+    );
+  }
+
+  async loadQueue(): Promise<StoredQueuedRequest[]> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return [];
+
+    await this.ensureTable();
+    const result = await pool.query<{ data: Record<string, unknown> }>(
+      'SELECT data FROM session_queue ORDER BY position ASC'
+    );
+    return result.rows.map((row) => deserializeQueuedRequest(row.data));
+  }
+
+  async saveQueue(requests: StoredQueuedRequest[]): Promise<void> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return;
+
+    await this.ensureTable();
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM session_queue');
+      for (const [position, data] of serializeQueue(requests).entries()) {
+        await client.query(
+          'INSERT INTO session_queue (id, position, data) VALUES ($1, $2, $3)',
+          [data.id, position, JSON.stringify(data)]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async loadRateLimitBuckets(): Promise<Record<string, StoredRateLimitBucket>> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return {};
+
+    await this.ensureTable();
+    const result = await pool.query<{ key: string; tokens: number; updated_at: string }>(
+      'SELECT key, tokens, updated_at FROM rate_limit_buckets'
+    );
+    return Object.fromEntries(result.rows.map((row) => [row.key, { tokens: row.tokens, updatedAt: Number(row.updated_at) }]));
+  }
+
+  async saveRateLimitBuckets(buckets: Record<string, StoredRateLimitBucket>): Promise<void> {
+    const pool = getPool();
+    if (!pool || !isDbAvailable()) return;
+
+    await this.ensureTable();
+    for (const [key, bucket] of Object.entries(buckets)) {
+      await pool.query(
+        `INSERT INTO rate_limit_buckets (key, tokens, updated_at) VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET tokens = EXCLUDED.tokens, updated_at = EXCLUDED.updated_at`,
+        [key, bucket.tokens, bucket.updatedAt]
+      );
+    }
+  }
+}
+
+/**
+ * JSON file store - the whole file is rewritten (atomically) on every save
+ * Completed, failed and abandoned sessions are dropped once older than the retention window
+ * The queue and rate limit buckets live next to it, in `<name>.queue.json` and `<name>.rate-limits.json`
+ */
+export class JsonFileSessionStore implements SessionStore {
+  readonly name = 'json';
+  private records: Map<string, Record<string, unknown>> = new Map();
+  private buckets: Record<string, StoredRateLimitBucket> = {};
+  private writeChain: Promise<void> = Promise.resolve();
+  private queuePath: string;
+  private rateLimitPath: string;
+
+  constructor(private path: string, private retentionMs = DEFAULT_RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+    this.queuePath = path.replace(/(\.json)?$/, '.queue.json');
+    this.rateLimitPath = path.replace(/(\.json)?$/, '.rate-limits.json');
+  }
+
+  async load(): Promise<WorkSession[]> {
+    try {
+      const raw = JSON.parse(await readFile(this.path, 'utf8')) as Record<string, unknown>[];
+      this.records = new Map(raw.map((r) => [r.id as string, r]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[SessionStore] Failed to read ${this.path}:`, error);
+      }
+      this.records = new Map();
+    }
+
+    const pruned = this.prune();
+    if (pruned > 0) {
+      console.log(`[SessionStore] Dropped ${pruned} finished session(s) past the retention window`);
+      await this.enqueueWrite(this.path, () => Array.from(this.records.values()));
+    }
+    return Array.from(this.records.values()).map(deserializeSession);
+  }
+
+  save(session: WorkSession): Promise<void> {
+    this.records.set(session.id, serializeSession(session));
+    this.prune();
+    return this.enqueueWrite(this.path, () => Array.from(this.records.values()));
+  }
+
+  /**
+   * Forget finished sessions last updated before the retention window
+   * (a completed session with an open pull request is still being tracked, so it stays)
+   * @returns how many were dropped
+   */
+  private prune(): number {
+    const cutoff = Date.now() - this.retentionMs;
+    let pruned = 0;
+    for (const [id, record] of this.records) {
+      const session = record as unknown as WorkSession;
+      const finished = session.status === 'completed' || session.status === 'failed' || session.status === 'abandoned';
+      if (finished && session.pullRequest?.state !== 'open' && new Date(session.updatedAt).getTime() < cutoff) {
+        this.records.delete(id);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  async loadQueue(): Promise<StoredQueuedRequest[]> {
+    const raw = await this.readJson<Record<string, unknown>[]>(this.queuePath);
+    return (raw ?? []).map(deserializeQueuedRequest);
+  }
+
+  saveQueue(requests: StoredQueuedRequest[]): Promise<void> {
+    const data = serializeQueue(requests);
+    return this.enqueueWrite(this.queuePath, () => data);
+  }
+
+  async loadRateLimitBuckets(): Promise<Record<string, StoredRateLimitBucket>> {
+    this.buckets = (await this.readJson<Record<string, StoredRateLimitBucket>>(this.rateLimitPath)) ?? {};
+    return { ...this.buckets };
+  }
+
+  saveRateLimitBuckets(buckets: Record<string, StoredRateLimitBucket>): Promise<void> {
+    Object.assign(this.buckets, buckets);
+    return this.enqueueWrite(this.rateLimitPath, () => this.buckets);
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[SessionStore] Failed to read ${path}:`, error);
+      }
+      return null;
+    }
+  }
+
+  // Serialize writes so an older snapshot never overwrites a newer one
+  private enqueueWrite(path: string, data: () => unknown): Promise<void> {
+    this.writeChain = this.writeChain.then(() => this.write(path, data())).catch((error) => {
+      console.error(`[SessionStore] Failed to write ${path}:`, error);
+    });
+    return this.writeChain;
+  }
+
+  private async write(path: string, data: unknown): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data, null, 2));
+    await rename(tmpPath, path);
+  }
+}
+
+/**
+ * Pick the session store: PostgreSQL if connected, otherwise the JSON file
+ */
+export function createSessionStore(jsonPath: string, retentionMs?: number): SessionStore {
+  return isDbAvailable() ? new PostgresSessionStore() : new JsonFileSessionStore(jsonPath, retentionMs);
+}
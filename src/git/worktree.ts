@@ -6,15 +6,18 @@
 
 import { execFile, spawn } from 'child_process';
 import { promisify } from 'util';
-import { mkdir, rm, access, readdir, symlink } from 'fs/promises';
+import { mkdir, rm, access, readdir, symlink, readFile } from 'fs/promises';
 import { join } from 'path';
 import { WorkSession, WorkSessionStatus, ChatMessage } from '../types.js';
+import { SessionStore } from './sessionStore.js';
+import { PatchApplyResult, parseRejectOutput } from './patch.js';
 
 /**
  * Result of a merge operation
  */
 export interface MergeResult {
   success: boolean;
+  mergeCommit?: string;    // Merge commit created on the default branch
   error?: string;
   conflictType?: 'local_changes' | 'untracked_files' | 'merge_conflict' | 'other';
   conflictDetails?: string;
@@ -22,6 +25,11 @@ export interface MergeResult {
 
 const execFileAsync = promisify(execFile);
 
+/**
+ * Statuses of sessions that were still running when the process stopped
+ */
+const IN_FLIGHT_STATUSES: WorkSessionStatus[] = ['creating', 'active', 'committing', 'reviewing', 'rebasing'];
+
 /**
  * Configuration for the worktree manager
  */
@@ -37,11 +45,19 @@ export interface WorktreeConfig {
 export class WorktreeManager {
   private config: WorktreeConfig;
   private sessions: Map<string, WorkSession> = new Map();
+  private store: SessionStore | null = null;
 
   constructor(config: WorktreeConfig) {
     this.config = config;
   }
 
+  /**
+   * Persist sessions to a store (call before initialize() to restore previous sessions)
+   */
+  setStore(store: SessionStore): void {
+    this.store = store;
+  }
+
   /**
    * Initialize the worktree manager
    * Creates base directory if it doesn't exist
@@ -53,6 +69,9 @@ export class WorktreeManager {
 
       // Clean up any stale worktrees
       await this.cleanupStaleWorktrees();
+
+      // Reload sessions from before the last restart
+      await this.restoreSessions();
     } catch (error) {
       console.error('[Worktree] Initialization error:', error);
       throw error;
@@ -64,7 +83,8 @@ export class WorktreeManager {
    */
   async createSession(
     triggeredBy: ChatMessage,
-    taskDescription: string
+    taskDescription: string,
+    options: { readOnly?: boolean } = {}
   ): Promise<WorkSession> {
     const sessionId = this.generateSessionId();
     const branchName = this.generateBranchName(taskDescription);
@@ -84,6 +104,7 @@ export class WorktreeManager {
       pendingMessages: [],
       shouldCheckpoint: false,
       checkpointCount: 0,
+      readOnly: options.readOnly,
     };
 
     this.sessions.set(sessionId, session);
@@ -130,12 +151,14 @@ export class WorktreeManager {
 
       session.status = 'active';
       session.updatedAt = new Date();
+      this.persist(session);
 
       console.log(`[Worktree] Created session ${sessionId} at ${worktreePath}`);
       return session;
     } catch (error) {
       session.status = 'failed';
       session.updatedAt = new Date();
+      this.persist(session);
       console.error(`[Worktree] Failed to create session ${sessionId}:`, error);
       throw error;
     }
@@ -149,9 +172,60 @@ export class WorktreeManager {
     if (session) {
       session.relatedMessages.push(message);
       session.updatedAt = new Date();
+      this.persist(session);
     }
   }
 
+  /**
+   * Persist a session after it was changed outside the manager
+   */
+  saveSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.persist(session);
+    }
+  }
+
+  /**
+   * Get sessions that were interrupted by a restart or crash
+   */
+  getInterruptedSessions(): WorkSession[] {
+    return Array.from(this.sessions.values()).filter((s) => s.status === 'interrupted');
+  }
+
+  /**
+   * Reopen an interrupted session so work can continue
+   * Recreates the worktree from the session branch if it no longer exists
+   */
+  async reopenSession(sessionId: string): Promise<WorkSession> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.status !== 'interrupted') {
+      throw new Error(`Session ${sessionId} is ${session.status}, not interrupted`);
+    }
+
+    if (!(await this.pathExists(session.worktreePath))) {
+      await this.gitCommand('worktree prune', this.config.repoPath);
+      await this.gitCommand(
+        `worktree add "${session.worktreePath}" ${session.branchName}`,
+        this.config.repoPath
+      );
+      try {
+        await symlink(join(this.config.repoPath, 'node_modules'), join(session.worktreePath, 'node_modules'), 'dir');
+      } catch {
+        // Might already exist
+      }
+      console.log(`[Worktree] Recreated worktree for session ${sessionId}`);
+    }
+
+    session.status = 'active';
+    session.updatedAt = new Date();
+    this.persist(session);
+    return session;
+  }
+
   /**
    * Get an active session by ID
    */
@@ -159,26 +233,109 @@ export class WorktreeManager {
     return this.sessions.get(sessionId);
   }
 
+  /**
+   * Get sessions with an open pull request
+   */
+  getSessionsWithOpenPullRequests(): WorkSession[] {
+    return Array.from(this.sessions.values()).filter((s) => s.pullRequest?.state === 'open');
+  }
+
   /**
    * Get all active sessions
    */
   getActiveSessions(): WorkSession[] {
     return Array.from(this.sessions.values()).filter(
-      (s) => s.status === 'active' || s.status === 'creating'
+      (s) => s.status === 'active' || s.status === 'creating' || s.status === 'reviewing'
     );
   }
 
   /**
    * Find session by channel (for continuing work)
+   * Sessions with their own thread are only found by findSessionByThread; read-only
+   * research sessions take no follow-ups and are never found
    */
   findSessionByChannel(channelId: string): WorkSession | undefined {
     return Array.from(this.sessions.values()).find(
       (s) =>
         s.status === 'active' &&
+        !s.readOnly &&
+        !s.threadId &&
         s.triggeredBy.channelId === channelId
     );
   }
 
+  /**
+   * Find session by the thread it posts into (for continuing work)
+   */
+  findSessionByThread(threadId: string): WorkSession | undefined {
+    return Array.from(this.sessions.values()).find(
+      (s) => s.status === 'active' && !s.readOnly && s.threadId === threadId
+    );
+  }
+
+  /**
+   * Apply a patch file to a session's worktree (left uncommitted)
+   * @throws Error with git's message if the patch doesn't apply cleanly
+   */
+  async applyPatch(sessionId: string, patchPath: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    try {
+      await this.gitCommand(`apply --check ${patchPath}`, session.worktreePath);
+      await this.gitCommand(`apply ${patchPath}`, session.worktreePath);
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(stderr || (error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /**
+   * Apply a patch file to a session's worktree, falling back to a three-way merge
+   * If neither works, a --reject pass finds out which hunks apply and the worktree is reset
+   */
+  async applyPatchWithFallback(sessionId: string, patchPath: string): Promise<PatchApplyResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    const cwd = session.worktreePath;
+
+    try {
+      await this.applyPatch(sessionId, patchPath);
+      return { applied: true, method: 'clean', files: [] };
+    } catch (error) {
+      console.log(`[Worktree] Patch doesn't apply cleanly in ${sessionId}, trying a three-way merge: ${(error as Error).message.split('\n')[0]}`);
+    }
+
+    const untrackedBefore = await this.untrackedFiles(cwd);
+    try {
+      await this.gitCommand(`apply --3way ${patchPath}`, cwd);
+      return { applied: true, method: '3way', files: [] };
+    } catch {
+      await this.resetWorktree(cwd, untrackedBefore);
+    }
+
+    // Nothing applied - find out hunk by hunk what didn't, then throw the partial result away
+    let output = '';
+    try {
+      await this.gitCommand(`apply --reject --verbose ${patchPath}`, cwd);
+    } catch (error) {
+      output = (error as { stderr?: string }).stderr ?? '';
+    }
+    await this.resetWorktree(cwd, untrackedBefore);
+
+    const patch = await readFile(join(cwd, patchPath), 'utf8');
+    const files = parseRejectOutput(output, patch);
+    return {
+      applied: false,
+      files,
+      error: files.find((f) => f.error)?.error ?? output.split('\n').find((l) => l.startsWith('error:'))?.slice(7),
+    };
+  }
+
   /**
    * Stage and commit changes in a session's worktree
    */
@@ -222,6 +379,7 @@ export class WorktreeManager {
       session.commits.push(commitHash);
       session.status = 'active';
       session.updatedAt = new Date();
+      this.persist(session);
 
       console.log(`[Worktree] Committed ${commitHash.slice(0, 8)} in session ${sessionId}`);
       return commitHash;
@@ -292,6 +450,23 @@ export class WorktreeManager {
     console.log(`[Worktree] Pushed branch ${session.branchName}`);
   }
 
+  /**
+   * Abort a merge left half-done in the MAIN repo (e.g. a conflict resolution that was cancelled)
+   * @returns true if there was a merge to abort
+   */
+  async abortMergeInProgress(): Promise<boolean> {
+    const { repoPath } = this.config;
+    try {
+      await this.gitCommand('rev-parse -q --verify MERGE_HEAD', repoPath);
+    } catch {
+      return false;
+    }
+
+    await this.gitCommand('merge --abort', repoPath);
+    console.log('[Worktree] Aborted an unfinished merge in the main repo');
+    return true;
+  }
+
   /**
    * Merge session branch directly into main branch
    * This runs in the MAIN repo, not the worktree
@@ -378,8 +553,10 @@ export class WorktreeManager {
         console.log('[Worktree] No remote to push to, continuing...');
       }
 
+      const mergeCommit = (await this.gitCommand('rev-parse HEAD', repoPath)).trim();
+
       console.log(`[Worktree] Successfully merged ${branchName} into ${defaultBranch}`);
-      return { success: true };
+      return { success: true, mergeCommit };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`[Worktree] Merge failed:`, errorMessage);
@@ -441,6 +618,7 @@ export class WorktreeManager {
 
       session.status = 'completed';
       session.updatedAt = new Date();
+      this.persist(session);
 
       console.log(`[Worktree] Completed session ${sessionId}`);
     } catch (error) {
@@ -452,13 +630,15 @@ export class WorktreeManager {
         // Ignore
       }
       session.status = 'completed';
+      this.persist(session);
     }
   }
 
   /**
    * Abandon a session without completing work
+   * The branch is deleted unless keepBranch is set (e.g. it holds a WIP commit)
    */
-  async abandonSession(sessionId: string): Promise<void> {
+  async abandonSession(sessionId: string, options: { keepBranch?: boolean } = {}): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       return;
@@ -471,10 +651,12 @@ export class WorktreeManager {
       );
 
       // Delete the branch since work is abandoned
-      await this.gitCommand(
-        `branch -D ${session.branchName}`,
-        this.config.repoPath
-      );
+      if (!options.keepBranch) {
+        await this.gitCommand(
+          `branch -D ${session.branchName}`,
+          this.config.repoPath
+        );
+      }
     } catch {
       // Try direct removal
       try {
@@ -486,31 +668,63 @@ export class WorktreeManager {
 
     session.status = 'abandoned';
     session.updatedAt = new Date();
+    this.persist(session);
     console.log(`[Worktree] Abandoned session ${sessionId}`);
   }
 
   /**
-   * Get diff of uncommitted changes in a session
+   * Get diff of a session's changes
+   * By default only uncommitted changes (new files included); with againstBase, everything
+   * committed on the session branch since it diverged from the default branch.
+   * Read-only: the index is left alone, since Claude may be working in the worktree
    */
-  async getDiff(sessionId: string): Promise<string> {
+  async getDiff(sessionId: string, againstBase = false): Promise<string> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
-    const diff = await this.gitCommand('diff HEAD', session.worktreePath);
+    if (againstBase) {
+      return this.gitCommand(`diff ${this.config.defaultBranch}...HEAD`, session.worktreePath);
+    }
+
+    let diff = await this.gitCommand('diff HEAD', session.worktreePath);
+    for (const file of await this.untrackedFiles(session.worktreePath)) {
+      diff += await this.diffNewFile(session.worktreePath, file);
+    }
     return diff;
   }
 
+  /**
+   * Get a diffstat summary of everything committed on the session branch
+   */
+  async getDiffStat(sessionId: string): Promise<string> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    return this.gitCommand(`diff --stat ${this.config.defaultBranch}...HEAD`, session.worktreePath);
+  }
+
   /**
    * Get list of changed files in a session
+   * By default only uncommitted changes; with againstBase, all files changed on the session branch
    */
-  async getChangedFiles(sessionId: string): Promise<string[]> {
+  async getChangedFiles(sessionId: string, againstBase = false): Promise<string[]> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session ${sessionId} not found`);
     }
 
+    if (againstBase) {
+      const names = await this.gitCommand(
+        `diff --name-only ${this.config.defaultBranch}...HEAD`,
+        session.worktreePath
+      );
+      return names.split('\n').filter((line) => line.trim());
+    }
+
     const status = await this.gitCommand('status --porcelain', session.worktreePath);
     return status
       .split('\n')
@@ -555,6 +769,93 @@ export class WorktreeManager {
     }
   }
 
+  /**
+   * Reload persisted sessions
+   * Sessions still in flight when the process stopped are marked completed if their last
+   * commit already reached the default branch, interrupted if their branch still exists
+   * (so they can be resumed), and failed otherwise. Research sessions are abandoned.
+   */
+  private async restoreSessions(): Promise<void> {
+    if (!this.store) return;
+
+    let stored: WorkSession[];
+    try {
+      stored = await this.store.load();
+    } catch (error) {
+      console.error(`[Worktree] Failed to load sessions from ${this.store.name} store:`, error);
+      return;
+    }
+
+    let interrupted = 0;
+    for (const session of stored) {
+      this.sessions.set(session.id, session);
+      if (!IN_FLIGHT_STATUSES.includes(session.status)) continue;
+
+      // An interrupted research run has nothing worth resuming
+      if (session.readOnly) {
+        try {
+          await this.gitCommand(`branch -D ${session.branchName}`, this.config.repoPath);
+        } catch {
+          // Branch already gone
+        }
+        session.status = 'abandoned';
+        session.updatedAt = new Date();
+        this.persist(session);
+        continue;
+      }
+
+      const lastCommit = session.commits[session.commits.length - 1];
+      if (lastCommit && await this.isAncestorOfDefault(lastCommit)) {
+        session.status = 'completed';
+      } else if (await this.branchExists(session.branchName)) {
+        session.status = 'interrupted';
+        interrupted++;
+      } else {
+        session.status = 'failed';
+      }
+      session.updatedAt = new Date();
+      this.persist(session);
+    }
+
+    console.log(`[Worktree] Restored ${stored.length} session(s) from ${this.store.name} store (${interrupted} interrupted)`);
+  }
+
+  /**
+   * Save a session to the store in the background
+   */
+  private persist(session: WorkSession): void {
+    this.store?.save(session).catch((error) => {
+      console.error(`[Worktree] Failed to persist session ${session.id}:`, error);
+    });
+  }
+
+  private async isAncestorOfDefault(commit: string): Promise<boolean> {
+    try {
+      await this.gitCommand(`merge-base --is-ancestor ${commit} ${this.config.defaultBranch}`, this.config.repoPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async branchExists(branchName: string): Promise<boolean> {
+    try {
+      await this.gitCommand(`rev-parse --verify --quiet refs/heads/${branchName}`, this.config.repoPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async pathExists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Execute a git command (without shell)
    */
@@ -577,6 +878,47 @@ export class WorktreeManager {
     return stdout;
   }
 
+  /**
+   * An untracked file as a diff adding it
+   */
+  private async diffNewFile(cwd: string, file: string): Promise<string> {
+    try {
+      await execFileAsync('/usr/bin/git', ['diff', '--no-index', '--', '/dev/null', file], {
+        cwd,
+        env: { ...process.env, PATH: '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin' },
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return '';
+    } catch (error) {
+      // --no-index exits 1 when the files differ, which they always do here
+      const { code, stdout } = error as { code?: number; stdout?: string };
+      if (code === 1 && stdout !== undefined) {
+        return stdout;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Untracked files that aren't ignored
+   */
+  private async untrackedFiles(cwd: string): Promise<Set<string>> {
+    const output = await this.gitCommand('ls-files --others --exclude-standard', cwd);
+    return new Set(output.split('\n').filter(Boolean));
+  }
+
+  /**
+   * Undo a failed patch: reset tracked files and delete the untracked ones it created (.rej files, new files)
+   */
+  private async resetWorktree(cwd: string, keepUntracked: Set<string>): Promise<void> {
+    await this.gitCommand('reset --hard --quiet', cwd);
+    for (const file of await this.untrackedFiles(cwd)) {
+      if (!keepUntracked.has(file)) {
+        await rm(join(cwd, file), { force: true });
+      }
+    }
+  }
+
   /**
    * Generate a unique session ID
    */
@@ -8,9 +8,20 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { Arbiter } from './arbiter/index.js';
 import { DiscordTransport } from './transports/discord.js';
+import { CliTransport } from './transports/cli.js';
+import { WebhookTransport } from './transports/webhook.js';
+import { SlackTransport } from './transports/slack.js';
 import { ArbiterConfig } from './types.js';
+import { loadChannelPolicy } from './arbiter/channelPolicy.js';
+import { loadAuthorization } from './arbiter/authorization.js';
+import { parseRateLimit, RateLimits } from './arbiter/rateLimit.js';
+import { GitHubForge } from './git/forge.js';
+import { createSessionStore } from './git/sessionStore.js';
+import { getRollbackConfig, markBootReady } from './arbiter/rollback.js';
 import { initializeDb, closeDb } from './db/index.js';
 import { initializePsychology } from './psychology/index.js';
+import { getLlmConfig, LLM_FEATURES } from './llm/index.js';
+import { getUsageLedger, initializeUsage } from './usage/index.js';
 
 // Get directory of this file and load .env from project root
 const __filename = fileURLToPath(import.meta.url);
@@ -19,9 +30,34 @@ const envPath = join(__dirname, '..', '.env');
 console.log('Loading .env from:', envPath);
 dotenv.config({ path: envPath });
 
+// Which transports to run (comma-separated): 'discord' (default), 'slack', 'cli', 'webhook'
+const transportTypes = (process.env.ARBITER_TRANSPORT ?? 'discord')
+  .split(',')
+  .map((t) => t.trim())
+  .filter(Boolean);
+
 // Validate required environment variables
 function validateEnv(): void {
-  const required = ['DISCORD_BOT_TOKEN', 'OPENAI_API_KEY'];
+  const required: string[] = [];
+  const needsOpenAIKey = LLM_FEATURES.some((feature) => {
+    const llm = getLlmConfig(feature);
+    return llm.provider === 'openai' && !llm.apiKey;
+  });
+  if (needsOpenAIKey) {
+    required.push('OPENAI_API_KEY');
+  }
+  if (transportTypes.includes('discord')) {
+    required.push('DISCORD_BOT_TOKEN');
+  }
+  if (transportTypes.includes('slack')) {
+    required.push('SLACK_BOT_TOKEN', 'SLACK_APP_TOKEN');
+  }
+  if (transportTypes.includes('webhook')) {
+    required.push('WEBHOOK_SECRET');
+  }
+  if (process.env.ARBITER_MERGE_MODE === 'pr') {
+    required.push('FORGE_REPO', 'FORGE_TOKEN');
+  }
   const missing = required.filter((key) => !process.env[key]);
 
   if (missing.length > 0) {
@@ -30,6 +66,19 @@ function validateEnv(): void {
   }
 }
 
+/**
+ * Parse a USD budget from the environment (unset or invalid = no budget)
+ */
+function parseBudget(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const amount = parseFloat(value);
+  if (Number.isNaN(amount) || amount < 0) {
+    console.warn(`[Main] Ignoring invalid budget "${value}"`);
+    return undefined;
+  }
+  return amount;
+}
+
 async function main(): Promise<void> {
   console.log('=== Omega Arbiter ===');
   console.log('Self-editing agent with git worktree management\n');
@@ -48,30 +97,138 @@ async function main(): Promise<void> {
   await initializePsychology();
   console.log('[Main] Psychological profiling system initialized');
 
+  // Token/cost ledger, with optional daily budgets that stop Claude runs once spent
+  const usageInDb = await initializeUsage();
+  getUsageLedger().setBudget({
+    dailyUsd: parseBudget(process.env.USAGE_DAILY_BUDGET_USD),
+    userDailyUsd: parseBudget(process.env.USAGE_USER_DAILY_BUDGET_USD),
+  });
+
   // Build configuration
   const config: ArbiterConfig = {
-    model: process.env.ARBITER_MODEL ?? 'gpt-4o-mini',
     confidenceThreshold: parseInt(process.env.ARBITER_CONFIDENCE_THRESHOLD ?? '70', 10),
     gitRepoPath: process.env.GIT_REPO_PATH ?? process.cwd(),
     worktreeBasePath: process.env.GIT_WORKTREE_BASE ?? '/tmp/arbiter-worktrees',
     defaultBranch: process.env.GIT_DEFAULT_BRANCH ?? 'main',
+    reviewMode: process.env.ARBITER_REVIEW_MODE === 'true',
+    reviewTimeoutMs: parseInt(process.env.ARBITER_REVIEW_TIMEOUT_MINUTES ?? '60', 10) * 60 * 1000,
+    verifyCommands: (process.env.ARBITER_VERIFY_COMMANDS ?? '')
+      .split(',')
+      .map((c) => c.trim())
+      .filter(Boolean),
+    verifyOnFailure: process.env.ARBITER_VERIFY_ON_FAILURE === 'fix' ? 'fix' : 'block',
+    verifyMaxFixAttempts: parseInt(process.env.ARBITER_VERIFY_MAX_FIX_ATTEMPTS ?? '2', 10),
+    verifyTimeoutMs: parseInt(process.env.ARBITER_VERIFY_TIMEOUT_SECONDS ?? '600', 10) * 1000,
+    pullRequestPollMs: parseInt(process.env.FORGE_POLL_SECONDS ?? '60', 10) * 1000,
+    maxParallelSessions: parseInt(process.env.ARBITER_MAX_PARALLEL_SESSIONS ?? '3', 10),
+    sessionThreads: process.env.ARBITER_SESSION_THREADS !== 'false',
+    attachmentMaxBytes: parseInt(process.env.ATTACHMENT_MAX_KB ?? '1024', 10) * 1024,
+    attachmentMaxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES ?? '10', 10),
+    applyPatchAttachments: process.env.ATTACHMENT_APPLY_PATCHES !== 'false',
+    // Unset: patches get the same checks as self-edits; empty: no checks
+    patchCheckCommands: process.env.ARBITER_PATCH_CHECK_COMMANDS?.split(',')
+      .map((c) => c.trim())
+      .filter(Boolean),
   };
 
+  // Record Claude runs so they can be replayed (npm run replay -- <transcript>)
+  if (process.env.CLAUDE_TRANSCRIPTS !== 'false') {
+    config.transcriptDir = process.env.CLAUDE_TRANSCRIPT_DIR ?? join(config.gitRepoPath, '.arbiter', 'transcripts');
+  }
+
   console.log('Configuration:');
-  console.log(`  Model: ${config.model}`);
+  for (const feature of LLM_FEATURES) {
+    const llm = getLlmConfig(feature);
+    console.log(`  LLM (${feature}): ${llm.provider} ${llm.model}${llm.baseURL ? ` @ ${llm.baseURL}` : ''}`);
+  }
   console.log(`  Confidence threshold: ${config.confidenceThreshold}%`);
+  const budget = getUsageLedger().getBudget();
+  console.log(`  Daily budget: ${budget.dailyUsd !== undefined ? `$${budget.dailyUsd}` : 'none'}${budget.userDailyUsd !== undefined ? ` ($${budget.userDailyUsd} per user)` : ''}`);
   console.log(`  Git repo: ${config.gitRepoPath}`);
   console.log(`  Worktree base: ${config.worktreeBasePath}`);
   console.log(`  Default branch: ${config.defaultBranch}`);
+  console.log(`  Verify commands: ${config.verifyCommands!.length ? `${config.verifyCommands!.join(', ')} (on failure: ${config.verifyOnFailure})` : 'none'}`);
+  console.log(`  Patch checks: ${config.patchCheckCommands ? config.patchCheckCommands.join(', ') || 'none' : 'same as verify commands'}`);
+  console.log(`  Max parallel sessions: ${config.maxParallelSessions! > 0 ? config.maxParallelSessions : 'unlimited'}`);
+  console.log(`  Session threads: ${config.sessionThreads ? 'on' : 'off'}`);
+  console.log(`  Attachments: up to ${config.attachmentMaxFiles} x ${config.attachmentMaxBytes! / 1024} KB${config.applyPatchAttachments ? ', patches applied' : ''}`);
+  console.log(`  Review mode: ${config.reviewMode ? `on (${config.reviewTimeoutMs! / 60000} min timeout)` : 'off'}`);
+  console.log(`  Transports: ${transportTypes.join(', ')}`);
   console.log('');
 
   // Create arbiter
   const arbiter = new Arbiter(config);
 
+  // Persist work sessions so they survive restarts (PostgreSQL if connected, else a JSON file)
+  const sessionStore = createSessionStore(
+    process.env.SESSION_STORE_FILE ?? join(config.gitRepoPath, '.arbiter', 'sessions.json'),
+    process.env.SESSION_STORE_RETENTION_DAYS
+      ? parseInt(process.env.SESSION_STORE_RETENTION_DAYS, 10) * 24 * 60 * 60 * 1000
+      : undefined
+  );
+  arbiter.setSessionStore(sessionStore);
+
+  // Without PostgreSQL, usage goes to a JSON lines file so budgets survive restarts
+  if (!usageInDb) {
+    const usageFile = process.env.USAGE_FILE ?? join(config.gitRepoPath, '.arbiter', 'usage.jsonl');
+    await getUsageLedger().useFile(usageFile);
+    console.log(`[Main] Usage recorded to ${usageFile}`);
+  }
+
+  // Load per-channel policy (allowlist, allowed actions, thresholds) if configured
+  const channelPolicyFile = process.env.CHANNEL_POLICY_FILE;
+  if (channelPolicyFile) {
+    arbiter.setChannelPolicy(loadChannelPolicy(channelPolicyFile));
+    console.log(`[Main] Channel policy loaded from ${channelPolicyFile}`);
+  }
+
+  // Load role-based authorization (who may self-edit, merge, restart) if configured
+  const authorizationFile = process.env.AUTHORIZATION_FILE;
+  if (authorizationFile) {
+    arbiter.setAuthorization(loadAuthorization(authorizationFile));
+    console.log(`[Main] Authorization loaded from ${authorizationFile}`);
+  } else {
+    console.warn(
+      '[Main] ⚠️ AUTHORIZATION_FILE is not set - authorization is DISABLED: every user is a maintainer ' +
+      'and can start self-edits, merge to main and restart the bot'
+    );
+  }
+
+  // Token-bucket limits on starting self-edit sessions (e.g. RATE_LIMIT_USER=3/hour)
+  const rateLimits: RateLimits = {};
+  for (const [scope, value] of [
+    ['user', process.env.RATE_LIMIT_USER],
+    ['channel', process.env.RATE_LIMIT_CHANNEL],
+    ['global', process.env.RATE_LIMIT_GLOBAL],
+  ] as const) {
+    if (value) {
+      rateLimits[scope] = parseRateLimit(value);
+    }
+  }
+  if (Object.keys(rateLimits).length > 0) {
+    arbiter.setRateLimits(rateLimits);
+  }
+
+  // Pull request mode: push session branches and open PRs instead of merging to main
+  if (process.env.ARBITER_MERGE_MODE === 'pr') {
+    const [owner, repo] = process.env.FORGE_REPO!.split('/');
+    arbiter.setForge(new GitHubForge({
+      apiUrl: process.env.FORGE_API_URL,
+      owner,
+      repo,
+      token: process.env.FORGE_TOKEN!,
+    }));
+  }
+
   // Add event listeners
   arbiter.on('ready', () => {
     console.log('[Main] Arbiter is ready and listening');
 
+    // Tell the boot guard this boot succeeded (the last merge starts counting as stable)
+    if (process.env.ARBITER_AUTO_ROLLBACK !== 'false') {
+      markBootReady(getRollbackConfig());
+    }
+
     // Configure status channel after Discord is connected
     const statusChannelId = process.env.STATUS_CHANNEL_ID;
     const statusChannelName = process.env.STATUS_CHANNEL_NAME;
@@ -79,7 +236,7 @@ async function main(): Promise<void> {
     if (statusChannelId) {
       arbiter.setStatusChannel(statusChannelId);
       console.log(`[Main] Status channel set to ID: ${statusChannelId}`);
-    } else if (statusChannelName) {
+    } else if (statusChannelName && discordTransport) {
       const channelId = discordTransport.findChannelByName(statusChannelName);
       if (channelId) {
         arbiter.setStatusChannel(channelId);
@@ -122,14 +279,64 @@ async function main(): Promise<void> {
     console.error('[Error]', error.message);
   });
 
-  // Add Discord transport
-  const discordToken = process.env.DISCORD_BOT_TOKEN!;
-  // Only respond to messages in the specified channel (omega-debug channel)
-  // Can be overridden via DISCORD_ALLOWED_CHANNEL_ID env var
-  const allowedChannelId = process.env.DISCORD_ALLOWED_CHANNEL_ID ?? '1441038048946028666';
-  console.log(`  Allowed channel: ${allowedChannelId}`);
-  const discordTransport = new DiscordTransport(discordToken, allowedChannelId);
-  arbiter.addTransport('discord', discordTransport);
+  let discordTransport: DiscordTransport | null = null;
+
+  if (transportTypes.includes('cli')) {
+    // Add CLI transport (stdin/stdout)
+    arbiter.addTransport('cli', new CliTransport({
+      botName: process.env.CLI_BOT_NAME,
+      userName: process.env.CLI_USER_NAME,
+    }));
+  }
+
+  if (transportTypes.includes('webhook')) {
+    // Add webhook transport (HTTP in, callback URLs out)
+    // WEBHOOK_CALLBACK_URLS format: channelId=url,channelId=url
+    const callbackUrls = Object.fromEntries(
+      (process.env.WEBHOOK_CALLBACK_URLS ?? '')
+        .split(',')
+        .map((pair) => pair.trim().split('='))
+        .filter((parts) => parts.length >= 2)
+        .map(([channelId, ...url]) => [channelId, url.join('=')])
+    );
+    const webhookPort = parseInt(process.env.WEBHOOK_PORT ?? '3100', 10);
+    console.log(`  Webhook port: ${webhookPort}`);
+    arbiter.addTransport('webhook', new WebhookTransport({
+      port: webhookPort,
+      path: process.env.WEBHOOK_PATH,
+      secret: process.env.WEBHOOK_SECRET!,
+      callbackUrls,
+      defaultCallbackUrl: process.env.WEBHOOK_DEFAULT_CALLBACK_URL,
+      maxAgeSeconds: process.env.WEBHOOK_MAX_AGE_SECONDS ? parseInt(process.env.WEBHOOK_MAX_AGE_SECONDS, 10) : undefined,
+    }));
+  }
+
+  if (transportTypes.includes('slack')) {
+    // Add Slack transport (Socket Mode)
+    const allowedChannelIds = process.env.SLACK_ALLOWED_CHANNEL_IDS
+      ?.split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    arbiter.addTransport('slack', new SlackTransport({
+      botToken: process.env.SLACK_BOT_TOKEN!,
+      appToken: process.env.SLACK_APP_TOKEN!,
+      apiBaseUrl: process.env.SLACK_API_URL,
+      allowedChannelIds,
+    }));
+  }
+
+  if (transportTypes.includes('discord')) {
+    // Add Discord transport
+    const discordToken = process.env.DISCORD_BOT_TOKEN!;
+    // Only respond to messages in the specified channel (omega-debug channel)
+    // Can be overridden via DISCORD_ALLOWED_CHANNEL_ID env var; with a channel
+    // policy file the policy decides which channels are allowed instead
+    const allowedChannelId = process.env.DISCORD_ALLOWED_CHANNEL_ID
+      ?? (channelPolicyFile ? undefined : '1441038048946028666');
+    console.log(`  Allowed channel: ${allowedChannelId ?? 'per channel policy'}`);
+    discordTransport = new DiscordTransport(discordToken, allowedChannelId);
+    arbiter.addTransport('discord', discordTransport);
+  }
 
   // Start the arbiter
   await arbiter.start();
@@ -0,0 +1,84 @@
+/**
+ * Fake LLM Provider
+ * Deterministic stand-in for tests and offline runs: replies come from a
+ * queue of canned responses, a handler function, or a fixed default
+ */
+
+import { z } from 'zod';
+import { CompletionOptions, LlmMessage, LlmProvider, parseJsonReply } from './provider.js';
+import { getUsageLedger } from '../usage/index.js';
+
+/**
+ * A canned reply: text, or an object that is serialized as JSON
+ */
+export type FakeReply = string | object;
+
+/**
+ * Computes a reply from the request (return undefined to fall through to the queue)
+ */
+export type FakeReplyHandler = (messages: LlmMessage[], options: CompletionOptions) => FakeReply | undefined;
+
+/**
+ * A request the fake provider received
+ */
+export interface FakeLlmCall {
+  messages: LlmMessage[];
+  options: CompletionOptions;
+  json: boolean;
+}
+
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  private queue: FakeReply[] = [];
+  private handler: FakeReplyHandler | null = null;
+  private calls: FakeLlmCall[] = [];
+
+  constructor(private defaultReply: FakeReply = 'OK') {}
+
+  /**
+   * Queue replies, returned in order before the handler/default is used
+   */
+  enqueue(...replies: FakeReply[]): void {
+    this.queue.push(...replies);
+  }
+
+  setHandler(handler: FakeReplyHandler | null): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Every request received so far
+   */
+  getCalls(): FakeLlmCall[] {
+    return [...this.calls];
+  }
+
+  reset(): void {
+    this.queue = [];
+    this.handler = null;
+    this.calls = [];
+  }
+
+  async complete(messages: LlmMessage[], options: CompletionOptions = {}): Promise<string> {
+    return this.reply(messages, options, false);
+  }
+
+  async completeJson<T>(messages: LlmMessage[], schema: z.ZodType<T>, options: CompletionOptions = {}): Promise<T> {
+    return parseJsonReply(this.reply(messages, options, true), schema);
+  }
+
+  private reply(messages: LlmMessage[], options: CompletionOptions, json: boolean): string {
+    this.calls.push({ messages, options, json });
+    const reply = this.handler?.(messages, options) ?? this.queue.shift() ?? this.defaultReply;
+    const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+
+    // Rough token counts (~4 characters per token) so usage accounting can be exercised
+    getUsageLedger().record(options.usage ?? { feature: 'other' }, {
+      model: options.model ?? 'fake',
+      inputTokens: Math.ceil(messages.reduce((n, m) => n + m.content.length, 0) / 4),
+      outputTokens: Math.ceil(content.length / 4),
+    });
+
+    return content;
+  }
+}
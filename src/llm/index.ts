@@ -0,0 +1,122 @@
+/**
+ * LLM Module
+ * Picks the provider and model for each feature that talks to a language model.
+ *
+ * Configured via environment variables; feature-specific ones win:
+ *   LLM_PROVIDER / LLM_<FEATURE>_PROVIDER   openai (default), openai-compatible, fake
+ *   LLM_MODEL / LLM_<FEATURE>_MODEL         model name
+ *   LLM_BASE_URL / LLM_<FEATURE>_BASE_URL   API base URL (required for openai-compatible)
+ *   LLM_API_KEY / LLM_<FEATURE>_API_KEY     API key (falls back to OPENAI_API_KEY)
+ *   LLM_JSON_MODE                           set to false for servers without response_format
+ * where FEATURE is DECISION, RESPOND, PSYCHOLOGY, PROMPT or FOLLOWUP.
+ */
+
+import { FakeLlmProvider } from './fake.js';
+import { LlmProvider, OpenAICompatibleProvider, OpenAIProvider } from './provider.js';
+
+export { OpenAIProvider, OpenAICompatibleProvider, parseJsonReply } from './provider.js';
+export type { LlmProvider, LlmMessage, CompletionOptions, OpenAIProviderConfig } from './provider.js';
+export { FakeLlmProvider } from './fake.js';
+export type { FakeReply, FakeReplyHandler, FakeLlmCall } from './fake.js';
+
+/**
+ * Features that use a language model
+ */
+export type LlmFeature = 'decision' | 'respond' | 'psychology' | 'prompt' | 'followup';
+
+export const LLM_FEATURES: LlmFeature[] = ['decision', 'respond', 'psychology', 'prompt', 'followup'];
+
+export type LlmProviderType = 'openai' | 'openai-compatible' | 'fake';
+
+/**
+ * Resolved provider settings for one feature
+ */
+export interface LlmFeatureConfig {
+  provider: LlmProviderType;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  jsonMode: boolean;
+}
+
+const providers: Map<LlmFeature, LlmProvider> = new Map();
+
+function env(feature: LlmFeature, key: string): string | undefined {
+  return process.env[`LLM_${feature.toUpperCase()}_${key}`] || process.env[`LLM_${key}`] || undefined;
+}
+
+/**
+ * Resolve the provider settings for a feature from the environment
+ */
+export function getLlmConfig(feature: LlmFeature): LlmFeatureConfig {
+  const provider = (env(feature, 'PROVIDER') ?? 'openai') as LlmProviderType;
+  if (!['openai', 'openai-compatible', 'fake'].includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}" for ${feature}`);
+  }
+
+  // ARBITER_MODEL has always picked the model for decisions and replies
+  const legacyModel = feature === 'decision' || feature === 'respond' ? process.env.ARBITER_MODEL : undefined;
+
+  return {
+    provider,
+    model: env(feature, 'MODEL') ?? legacyModel ?? 'gpt-4o-mini',
+    baseURL: env(feature, 'BASE_URL'),
+    apiKey: env(feature, 'API_KEY') ?? process.env.OPENAI_API_KEY,
+    jsonMode: process.env.LLM_JSON_MODE !== 'false',
+  };
+}
+
+/**
+ * Build a provider from resolved settings
+ */
+export function createLlmProvider(config: LlmFeatureConfig): LlmProvider {
+  switch (config.provider) {
+    case 'fake':
+      return new FakeLlmProvider();
+    case 'openai-compatible':
+      if (!config.baseURL) {
+        throw new Error('openai-compatible provider requires LLM_BASE_URL');
+      }
+      return new OpenAICompatibleProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        defaultModel: config.model,
+        jsonMode: config.jsonMode,
+      });
+    default:
+      return new OpenAIProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        defaultModel: config.model,
+        jsonMode: config.jsonMode,
+      });
+  }
+}
+
+/**
+ * Get the provider for a feature (created from the environment on first use)
+ */
+export function getLlmProvider(feature: LlmFeature): LlmProvider {
+  let provider = providers.get(feature);
+  if (!provider) {
+    provider = createLlmProvider(getLlmConfig(feature));
+    providers.set(feature, provider);
+  }
+  return provider;
+}
+
+/**
+ * Override the provider for a feature (or all features) - e.g. a FakeLlmProvider in tests
+ */
+export function setLlmProvider(feature: LlmFeature | 'all', provider: LlmProvider): void {
+  for (const f of feature === 'all' ? LLM_FEATURES : [feature]) {
+    providers.set(f, provider);
+  }
+}
+
+/**
+ * Forget configured providers so the next lookup re-reads the environment
+ */
+export function resetLlmProviders(): void {
+  providers.clear();
+}
@@ -0,0 +1,130 @@
+/**
+ * LLM Providers
+ * Chat completion backends used for decisions, replies, psychological
+ * analysis and prompt enhancement (OpenAI or any OpenAI-compatible server)
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { getUsageLedger, UsageTag } from '../usage/index.js';
+
+/**
+ * A single chat message sent to the model
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Per-call completion settings
+ */
+export interface CompletionOptions {
+  model?: string;          // Overrides the provider's default model
+  temperature?: number;
+  maxTokens?: number;
+  usage?: UsageTag;        // Who the call's tokens are billed to in the usage ledger
+}
+
+/**
+ * A chat completion backend
+ */
+export interface LlmProvider {
+  readonly name: string;
+  /**
+   * Plain chat completion
+   * @returns the assistant's reply text (empty if the model returned nothing)
+   */
+  complete(messages: LlmMessage[], options?: CompletionOptions): Promise<string>;
+  /**
+   * JSON-mode completion, parsed and validated against a zod schema
+   * @throws if the reply is not valid JSON or doesn't match the schema
+   */
+  completeJson<T>(messages: LlmMessage[], schema: z.ZodType<T>, options?: CompletionOptions): Promise<T>;
+}
+
+/**
+ * Parse a model reply as JSON and validate it. Tolerates a markdown code
+ * fence around the object, which local models often add.
+ */
+export function parseJsonReply<T>(content: string, schema: z.ZodType<T>): T {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const json = fenced ? fenced[1] : content;
+  return schema.parse(JSON.parse(json));
+}
+
+/**
+ * Configuration for the OpenAI provider
+ */
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+  defaultModel: string;
+  jsonMode?: boolean;      // Send response_format json_object (default true)
+}
+
+/**
+ * OpenAI chat completions API
+ */
+export class OpenAIProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(protected config: OpenAIProviderConfig) {}
+
+  // Lazy so a missing key only fails when the provider is actually used
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async complete(messages: LlmMessage[], options: CompletionOptions = {}): Promise<string> {
+    return (await this.request(messages, options, false)) ?? '';
+  }
+
+  async completeJson<T>(messages: LlmMessage[], schema: z.ZodType<T>, options: CompletionOptions = {}): Promise<T> {
+    const content = await this.request(messages, options, true);
+    if (!content) {
+      throw new Error(`No response from ${this.name}`);
+    }
+    return parseJsonReply(content, schema);
+  }
+
+  private async request(messages: LlmMessage[], options: CompletionOptions, json: boolean): Promise<string | null | undefined> {
+    const model = options.model ?? this.config.defaultModel;
+    const response = await this.getClient().chat.completions.create({
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...(json && this.config.jsonMode !== false ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    if (response.usage) {
+      getUsageLedger().record(options.usage ?? { feature: 'other' }, {
+        model: response.model || model,
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      });
+    }
+
+    return response.choices[0]?.message?.content;
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (Ollama, llama.cpp,
+ * vLLM, LM Studio, ...). The API key is optional for local servers.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(config: OpenAIProviderConfig & { baseURL: string }) {
+    super({ ...config, apiKey: config.apiKey || 'not-needed' });
+  }
+}
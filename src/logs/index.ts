@@ -18,6 +18,7 @@ export interface LogEntry {
   source: string;
   message: string;
   metadata?: Record<string, unknown>;
+  sessionId?: string;   // From the logging context at the time
 }
 
 export interface LogContext {
@@ -37,12 +38,12 @@ export class LogStore {
     this.maxLogs = maxLogs;
     this.loadFromFile();
 
-    // Save to file periodically (every 5 seconds if dirty)
+    // Save to file periodically (every 5 seconds if dirty); doesn't keep the process alive
     setInterval(() => {
       if (this.dirty) {
         this.saveToFile();
       }
-    }, 5000);
+    }, 5000).unref();
   }
 
   /**
@@ -99,6 +100,7 @@ export class LogStore {
       source,
       message,
       metadata,
+      sessionId: this.currentContext.sessionId,
     };
 
     this.logs.push(entry);
@@ -177,17 +179,24 @@ export class LogStore {
     level?: LogEntry['level'];
     source?: string;
     sessionId?: string;
+    tool?: string;
   } = {}): Promise<LogEntry[]> {
     if (!isDbAvailable()) {
-      // Fall back to in-memory
-      let logs = this.getLogs(params.limit);
+      // Fall back to in-memory (filter first, so the limit applies to matching entries)
+      let logs = this.getLogs(this.maxLogs);
       if (params.level) {
         logs = logs.filter(l => l.level === params.level);
       }
       if (params.source) {
         logs = logs.filter(l => l.source.toLowerCase().includes(params.source!.toLowerCase()));
       }
-      return logs;
+      if (params.tool) {
+        logs = logs.filter(l => l.metadata?.tool === params.tool);
+      }
+      if (params.sessionId) {
+        logs = logs.filter(l => (l.sessionId ?? l.metadata?.sessionId) === params.sessionId);
+      }
+      return logs.slice(0, params.limit ?? 100);
     }
 
     const dbLogs = await queryLogs({
@@ -195,6 +204,7 @@ export class LogStore {
       level: params.level,
       source: params.source,
       sessionId: params.sessionId,
+      tool: params.tool,
     });
 
     // Convert DB format to LogEntry format
@@ -204,6 +214,7 @@ export class LogStore {
       source: dbLog.source,
       message: dbLog.message,
       metadata: dbLog.metadata || undefined,
+      sessionId: dbLog.session_id ?? undefined,
     }));
   }
 
@@ -10,9 +10,9 @@
  * - Communication Accommodation Theory (Giles, 2016)
  */
 
-import OpenAI from 'openai';
 import { z } from 'zod';
 import { ChatMessage } from '../types.js';
+import { getLlmProvider } from '../llm/index.js';
 import {
   MessageAnalysis,
   UserPsychProfile,
@@ -24,18 +24,6 @@ import {
   ObservationType,
 } from './types.js';
 
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
 /**
  * Zod schema for AI analysis output
  */
@@ -84,11 +72,12 @@ type AnalysisOutput = z.infer<typeof AnalysisSchema>;
 
 /**
  * Analyze a single message for psychological signals
+ * `model` overrides the model configured for this feature
  */
 export async function analyzeMessage(
   message: ChatMessage,
   existingProfile?: UserPsychProfile,
-  model: string = 'gpt-4o-mini'
+  model?: string
 ): Promise<MessageAnalysis> {
   const profileContext = existingProfile
     ? `
@@ -102,9 +91,8 @@ Current profile summary:
     : 'This is a new user with no existing profile.';
 
   try {
-    const response = await getOpenAI().chat.completions.create({
-      model,
-      messages: [
+    const validated = await getLlmProvider('psychology').completeJson(
+      [
         {
           role: 'system',
           content: `You are a psychological analysis system trained in personality psychology and linguistic analysis.
@@ -147,17 +135,13 @@ ${profileContext}
 Provide psychological analysis as JSON.`,
         },
       ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from AI');
-    }
-
-    const parsed = JSON.parse(content);
-    const validated = AnalysisSchema.parse(parsed);
+      AnalysisSchema,
+      {
+        model,
+        temperature: 0.3,
+        usage: { feature: 'psychology', userId: message.authorId, channelId: message.channelId },
+      }
+    );
 
     // Build the analysis result
     const analysis: MessageAnalysis = {
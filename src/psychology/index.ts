@@ -28,7 +28,7 @@ import {
   getProfileStats,
   deleteProfile,
 } from './store.js';
-import {
+import type {
   UserPsychProfile,
   ProfileSummary,
   MessageAnalysis,
@@ -36,7 +36,7 @@ import {
 } from './types.js';
 
 // Re-export types
-export {
+export type {
   UserPsychProfile,
   ProfileSummary,
   MessageAnalysis,
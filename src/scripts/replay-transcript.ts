@@ -0,0 +1,94 @@
+/**
+ * Script to replay a recorded Claude transcript through the live output stream
+ * Prints every version of the status message as a chat transport would show it
+ * Run with: npm run replay -- <transcript.jsonl> [--speed N] [--throttle MS] [--max-length N]
+ */
+
+import { ReplayClaudeRunner } from '../claude/replayRunner.js';
+import { readTranscript } from '../claude/transcript.js';
+import { LiveOutputStream } from '../claude/liveStream.js';
+import { BaseTransport } from '../transports/base.js';
+import { ChatMessage, TransportType } from '../types.js';
+
+/**
+ * Keeps every version of every message instead of posting anywhere
+ */
+class RecordingTransport extends BaseTransport {
+  type: TransportType = 'cli';
+  readonly messages: { id: string; channelId: string; versions: string[] }[] = [];
+
+  constructor(readonly maxMessageLength: number) {
+    super();
+  }
+
+  async connect(): Promise<void> {}
+  async disconnect(): Promise<void> {}
+  async react(): Promise<void> {}
+  async getMessageHistory(): Promise<ChatMessage[]> { return []; }
+  getBotId(): string { return 'replay'; }
+  getBotName(): string { return 'Arbiter'; }
+
+  async send(channelId: string, content: string): Promise<void> {
+    await this.sendAndGetId(channelId, content);
+  }
+
+  async sendAndGetId(channelId: string, content: string): Promise<string> {
+    const id = `msg-${this.messages.length + 1}`;
+    this.messages.push({ id, channelId, versions: [content] });
+    return id;
+  }
+
+  async editMessage(_channelId: string, messageId: string, content: string): Promise<void> {
+    this.messages.find((m) => m.id === messageId)?.versions.push(content);
+  }
+}
+
+function option(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? Number(process.argv[index + 1]) : fallback;
+}
+
+async function main() {
+  const path = process.argv[2];
+  if (!path || path.startsWith('--')) {
+    console.log('Usage: npm run replay -- <transcript.jsonl> [--speed N] [--throttle MS] [--max-length N]');
+    process.exit(1);
+  }
+
+  const runs = await readTranscript(path);
+  console.log(`📼 ${runs.length} run(s) in ${path}\n`);
+
+  const transport = new RecordingTransport(option('max-length', 2000));
+  const runner = new ReplayClaudeRunner([...runs], { speed: option('speed', 0) });
+
+  for (const [index, run] of runs.entries()) {
+    const stream = new LiveOutputStream(transport, `run-${index + 1}`, option('throttle', 2000));
+    await stream.start(`▶️ **Replaying run ${index + 1}** (recorded ${run.start.at})`);
+
+    const result = await runner.run({
+      workdir: run.start.workdir,
+      prompt: run.start.prompt,
+      onOutput: async (event) => {
+        await stream.handleEvent(event);
+      },
+    });
+
+    await stream.finalize(result.summary, result.success);
+    console.log(`--- Run ${index + 1}: exit code ${result.exitCode} ---\n`);
+
+    for (const message of transport.messages.filter((m) => m.channelId === `run-${index + 1}`)) {
+      const versions = message.versions;
+      versions.forEach((content, version) => {
+        console.log(`[${message.id} v${version + 1}/${versions.length}, ${content.length} chars]`);
+        console.log(content + '\n');
+      });
+    }
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Replay failed:', error);
+  process.exit(1);
+});
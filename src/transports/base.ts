@@ -2,7 +2,25 @@
  * Base transport class with common functionality
  */
 
-import { ChatMessage, Transport, TransportType } from '../types.js';
+import { ChatMessage, ChatReaction, EditableTransport, ThreadedTransport, Transport, TransportType } from '../types.js';
+
+/**
+ * Check whether a transport supports sending editable messages
+ */
+export function isEditableTransport(transport: Transport): transport is EditableTransport {
+  return (
+    typeof transport.sendAndGetId === 'function' &&
+    typeof transport.editMessage === 'function' &&
+    typeof transport.maxMessageLength === 'number'
+  );
+}
+
+/**
+ * Check whether a transport can open threads
+ */
+export function isThreadedTransport(transport: Transport): transport is ThreadedTransport {
+  return typeof transport.createThread === 'function';
+}
 
 export abstract class BaseTransport implements Transport {
   abstract type: TransportType;
@@ -10,6 +28,7 @@ export abstract class BaseTransport implements Transport {
   protected messageHandlers: ((message: ChatMessage) => Promise<void>)[] = [];
   protected readyHandlers: (() => void)[] = [];
   protected errorHandlers: ((error: Error) => void)[] = [];
+  protected reactionHandlers: ((reaction: ChatReaction) => Promise<void>)[] = [];
 
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
@@ -31,6 +50,10 @@ export abstract class BaseTransport implements Transport {
     this.errorHandlers.push(handler);
   }
 
+  onReaction(handler: (reaction: ChatReaction) => Promise<void>): void {
+    this.reactionHandlers.push(handler);
+  }
+
   protected async emitMessage(message: ChatMessage): Promise<void> {
     for (const handler of this.messageHandlers) {
       try {
@@ -42,6 +65,17 @@ export abstract class BaseTransport implements Transport {
     }
   }
 
+  protected async emitReaction(reaction: ChatReaction): Promise<void> {
+    for (const handler of this.reactionHandlers) {
+      try {
+        await handler(reaction);
+      } catch (error) {
+        console.error('Error in reaction handler:', error);
+        this.emitError(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
   protected emitReady(): void {
     for (const handler of this.readyHandlers) {
       try {
@@ -0,0 +1,177 @@
+/**
+ * CLI transport - reads chat messages from stdin and prints replies to stdout
+ * Lets the full arbiter pipeline run locally without a Discord bot token
+ */
+
+import { createInterface, Interface } from 'readline';
+import { userInfo } from 'os';
+import { BaseTransport } from './base.js';
+import { ChatMessage, TransportType } from '../types.js';
+import { getLogStore } from '../logs/index.js';
+
+/**
+ * Configuration for the CLI transport
+ */
+export interface CliTransportConfig {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  channelId?: string;      // Channel every stdin line is posted to
+  channelName?: string;
+  userId?: string;         // Author of stdin lines (defaults to the OS user)
+  userName?: string;
+  botName?: string;
+  maxHistory?: number;     // Messages kept for getMessageHistory()
+}
+
+export class CliTransport extends BaseTransport {
+  type: TransportType = 'cli';
+
+  private input: NodeJS.ReadableStream;
+  private output: NodeJS.WritableStream;
+  private channelId: string;
+  private channelName: string;
+  private userId: string;
+  private userName: string;
+  private botName: string;
+  private maxHistory: number;
+
+  private rl: Interface | null = null;
+  private history: Map<string, ChatMessage[]> = new Map();
+  private messageCounter = 0;
+
+  constructor(config: CliTransportConfig = {}) {
+    super();
+    const osUser = userInfo().username;
+
+    this.input = config.input ?? process.stdin;
+    this.output = config.output ?? process.stdout;
+    this.channelId = config.channelId ?? 'cli';
+    this.channelName = config.channelName ?? 'cli';
+    this.userId = config.userId ?? `cli-${osUser}`;
+    this.userName = config.userName ?? osUser;
+    this.botName = config.botName ?? 'Arbiter';
+    this.maxHistory = config.maxHistory ?? 100;
+  }
+
+  async connect(): Promise<void> {
+    console.log('[CLI] Reading messages from stdin...');
+
+    this.rl = createInterface({ input: this.input, terminal: false });
+
+    // Lines become messages in arrival order, but aren't awaited: a long-running
+    // self-edit must not hold up later input (e.g. "!arbiter cancel")
+    this.rl.on('line', (line) => this.handleLine(line));
+
+    this.rl.on('close', () => {
+      console.log('[CLI] Input closed');
+    });
+
+    this.emitReady();
+  }
+
+  async disconnect(): Promise<void> {
+    console.log('[CLI] Disconnecting...');
+    this.rl?.close();
+    this.rl = null;
+  }
+
+  async send(channelId: string, content: string): Promise<void> {
+    getLogStore().message('Bot', content.slice(0, 500), { channelId });
+
+    const message = this.createMessage(channelId, content, 'bot', this.botName);
+    this.record(message);
+    this.print(`[${this.botName}] ${content}`);
+  }
+
+  async react(messageId: string, channelId: string, emoji: string): Promise<void> {
+    const messages = this.history.get(channelId) ?? [];
+    if (!messages.some((m) => m.id === messageId)) {
+      throw new Error(`Message ${messageId} not found in channel ${channelId}`);
+    }
+
+    this.print(`[${this.botName} reacted ${emoji} to ${messageId}]`);
+  }
+
+  async getMessageHistory(channelId: string, limit = 30): Promise<ChatMessage[]> {
+    const messages = this.history.get(channelId) ?? [];
+    return messages.slice(-limit);
+  }
+
+  getBotId(): string {
+    return 'bot';
+  }
+
+  getBotName(): string {
+    return this.botName;
+  }
+
+  /**
+   * Convert a stdin line to a ChatMessage and hand it to the arbiter
+   */
+  private handleLine(line: string): void {
+    const content = line.trim();
+    if (!content) return;
+
+    let message: ChatMessage;
+    try {
+      message = this.createMessage(this.channelId, content, this.userId, this.userName);
+      message.mentionsBotId = content.toLowerCase().includes(`@${this.botName.toLowerCase()}`);
+      this.record(message);
+
+      const logStore = getLogStore();
+      logStore.setContext({
+        channelId: message.channelId,
+        userId: message.authorId,
+      });
+      logStore.message('CLI', `[${message.authorName}] ${content.slice(0, 500)}`, {
+        authorId: message.authorId,
+        authorName: message.authorName,
+        channelName: message.channelName,
+        channelId: message.channelId,
+      });
+    } catch (error) {
+      console.error('[CLI] Error processing message:', error);
+      this.emitError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.emitMessage(message).catch((error) => {
+      console.error('[CLI] Error handling message:', error);
+      this.emitError(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
+  private createMessage(
+    channelId: string,
+    content: string,
+    authorId: string,
+    authorName: string
+  ): ChatMessage {
+    return {
+      id: `cli-${++this.messageCounter}`,
+      content,
+      authorId,
+      authorName,
+      channelId,
+      channelName: channelId === this.channelId ? this.channelName : channelId,
+      timestamp: new Date(),
+      transport: 'cli',
+    };
+  }
+
+  /**
+   * Store a message in the per-channel history, trimming old entries
+   */
+  private record(message: ChatMessage): void {
+    const messages = this.history.get(message.channelId) ?? [];
+    messages.push(message);
+    if (messages.length > this.maxHistory) {
+      messages.splice(0, messages.length - this.maxHistory);
+    }
+    this.history.set(message.channelId, messages);
+  }
+
+  private print(text: string): void {
+    this.output.write(text + '\n');
+  }
+}
@@ -8,16 +8,27 @@ import {
   GatewayIntentBits,
   Events,
   Message,
+  MessageReaction,
+  PartialMessageReaction,
+  PartialUser,
+  Partials,
+  User,
   TextChannel,
   DMChannel,
   NewsChannel,
+  ThreadChannel,
+  ThreadAutoArchiveDuration,
+  Channel,
 } from 'discord.js';
 import { BaseTransport } from './base.js';
 import { ChatMessage, TransportType, Attachment } from '../types.js';
 import { getLogStore } from '../logs/index.js';
 
+type SendableChannel = TextChannel | DMChannel | NewsChannel | ThreadChannel;
+
 export class DiscordTransport extends BaseTransport {
   type: TransportType = 'discord';
+  maxMessageLength = 2000;
 
   private client: Client;
   private botToken: string;
@@ -36,7 +47,11 @@ export class DiscordTransport extends BaseTransport {
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent, // Required to read message content
         GatewayIntentBits.DirectMessages,
+        GatewayIntentBits.GuildMessageReactions,   // Approve/reject reactions on review messages
+        GatewayIntentBits.DirectMessageReactions,
       ],
+      // Reactions on messages sent before startup arrive as partials
+      partials: [Partials.Message, Partials.Reaction],
     });
 
     this.setupEventHandlers();
@@ -59,8 +74,8 @@ export class DiscordTransport extends BaseTransport {
           return;
         }
 
-        // Filter by allowed channel if configured
-        if (this.allowedChannelId && message.channel.id !== this.allowedChannelId) {
+        // Filter by allowed channel if configured (threads count as their parent channel)
+        if (!this.isAllowedChannel(message.channel)) {
           console.log(`[Discord] Ignoring message from channel ${message.channel.id} (not allowed channel ${this.allowedChannelId})`);
           return;
         }
@@ -89,6 +104,16 @@ export class DiscordTransport extends BaseTransport {
       }
     });
 
+    // Reaction add event
+    this.client.on(Events.MessageReactionAdd, async (reaction, user) => {
+      try {
+        await this.handleReaction(reaction, user);
+      } catch (error) {
+        console.error('[Discord] Error processing reaction:', error);
+        this.emitError(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
     // Error handling
     this.client.on(Events.Error, (error) => {
       console.error('[Discord] Client error:', error);
@@ -96,6 +121,49 @@ export class DiscordTransport extends BaseTransport {
     });
   }
 
+  /**
+   * Convert a reaction add into a ChatReaction and emit it
+   */
+  private async handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser
+  ): Promise<void> {
+    if (user.id === this.client.user?.id) {
+      return;
+    }
+
+    const message = reaction.message;
+    if (!this.isAllowedChannel(message.channel)) {
+      return;
+    }
+
+    const emoji = reaction.emoji.name;
+    if (!emoji) {
+      return;
+    }
+
+    // Resolve the reacting member's roles for authorization
+    let authorRoles: string[] = [];
+    if (message.guild) {
+      try {
+        const member = await message.guild.members.fetch(user.id);
+        authorRoles = member.roles.cache.map((role) => role.id);
+      } catch (error) {
+        console.error(`[Discord] Failed to fetch member ${user.id}:`, error);
+      }
+    }
+
+    await this.emitReaction({
+      messageId: message.id,
+      channelId: message.channelId,
+      emoji,
+      authorId: user.id,
+      authorName: user.username ?? user.id,
+      authorRoles,
+      transport: 'discord',
+    });
+  }
+
   /**
    * Convert Discord.js Message to our ChatMessage format
    */
@@ -110,19 +178,33 @@ export class DiscordTransport extends BaseTransport {
       url: att.url,
       contentType: att.contentType ?? undefined,
       size: att.size,
+      description: att.description ?? undefined,
     }));
 
+    // Role IDs only - names can be changed or copied by anyone who can manage roles
+    const authorRoles: string[] = message.member
+      ? message.member.roles.cache.map((role) => role.id)
+      : [];
+
+    // In a thread, channelId is the thread itself so replies land there
+    const thread = message.channel.isThread() ? message.channel : null;
+
     return {
       id: message.id,
       content: message.content,
       authorId: message.author.id,
       authorName: message.author.username,
+      authorRoles: authorRoles.length > 0 ? authorRoles : undefined,
       channelId: message.channel.id,
       channelName,
+      guildId: message.guildId ?? undefined,
+      threadId: thread?.id,
+      parentChannelId: thread?.parentId ?? undefined,
       timestamp: message.createdAt,
       transport: 'discord',
       replyToId: message.reference?.messageId ?? undefined,
       mentionsBotId,
+      repliesToBot: !!message.reference && message.mentions.repliedUser?.id === this.client.user?.id,
       attachments: attachments.length > 0 ? attachments : undefined,
       raw: message,
     };
@@ -132,10 +214,25 @@ export class DiscordTransport extends BaseTransport {
     if (message.channel.isDMBased()) {
       return 'DM';
     }
+    // Name threads after their channel, so channel policies and "#channel" mentions still apply
+    if (message.channel.isThread()) {
+      return message.channel.parent?.name ?? message.channel.name;
+    }
     const channel = message.channel as TextChannel | NewsChannel;
     return channel.name;
   }
 
+  /**
+   * Whether messages from this channel (or this thread's parent channel) are handled
+   */
+  private isAllowedChannel(channel: Channel): boolean {
+    if (!this.allowedChannelId) {
+      return true;
+    }
+    const channelId = channel.isThread() ? channel.parentId : channel.id;
+    return channelId === this.allowedChannelId;
+  }
+
   async connect(): Promise<void> {
     console.log('[Discord] Connecting to Gateway...');
     await this.client.login(this.botToken);
@@ -161,9 +258,9 @@ export class DiscordTransport extends BaseTransport {
     getLogStore().message('Bot', content.slice(0, 500), { channelId });
 
     // Handle Discord's 2000 character limit
-    const chunks = this.chunkMessage(content, 2000);
+    const chunks = this.chunkMessage(content, this.maxMessageLength);
     for (const chunk of chunks) {
-      await (channel as TextChannel | DMChannel | NewsChannel).send(chunk);
+      await (channel as SendableChannel).send(chunk);
     }
   }
 
@@ -181,11 +278,11 @@ export class DiscordTransport extends BaseTransport {
     }
 
     // Truncate to Discord's limit if needed (for editable messages we want just one)
-    const truncatedContent = content.length > 2000
-      ? content.slice(0, 1997) + '...'
+    const truncatedContent = content.length > this.maxMessageLength
+      ? content.slice(0, this.maxMessageLength - 3) + '...'
       : content;
 
-    const sentMessage = await (channel as TextChannel | DMChannel | NewsChannel).send(truncatedContent);
+    const sentMessage = await (channel as SendableChannel).send(truncatedContent);
     return sentMessage.id;
   }
 
@@ -203,11 +300,11 @@ export class DiscordTransport extends BaseTransport {
     }
 
     // Truncate to Discord's limit if needed
-    const truncatedContent = content.length > 2000
-      ? content.slice(0, 1997) + '...'
+    const truncatedContent = content.length > this.maxMessageLength
+      ? content.slice(0, this.maxMessageLength - 3) + '...'
       : content;
 
-    const message = await (channel as TextChannel | DMChannel | NewsChannel).messages.fetch(messageId);
+    const message = await (channel as SendableChannel).messages.fetch(messageId);
     await message.edit(truncatedContent);
   }
 
@@ -217,7 +314,7 @@ export class DiscordTransport extends BaseTransport {
       throw new Error(`Channel ${channelId} not found or not text-based`);
     }
 
-    const message = await (channel as TextChannel | DMChannel | NewsChannel).messages.fetch(messageId);
+    const message = await (channel as SendableChannel).messages.fetch(messageId);
     await message.react(emoji);
   }
 
@@ -227,13 +324,30 @@ export class DiscordTransport extends BaseTransport {
       return [];
     }
 
-    const messages = await (channel as TextChannel | DMChannel | NewsChannel).messages.fetch({ limit });
+    const messages = await (channel as SendableChannel).messages.fetch({ limit });
 
     return messages
       .map((msg) => this.convertMessage(msg))
       .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
+  /**
+   * Start a thread on a message and return the thread's channel ID
+   */
+  async createThread(channelId: string, messageId: string, name: string): Promise<string> {
+    const channel = await this.client.channels.fetch(channelId);
+    if (!(channel instanceof TextChannel || channel instanceof NewsChannel)) {
+      throw new Error(`Channel ${channelId} does not support threads`);
+    }
+
+    const message = await channel.messages.fetch(messageId);
+    const thread = await message.startThread({
+      name: name.slice(0, 100),   // Discord's thread name limit
+      autoArchiveDuration: ThreadAutoArchiveDuration.OneDay,
+    });
+    return thread.id;
+  }
+
   getBotId(): string {
     return this.client.user?.id ?? '';
   }
@@ -261,7 +375,8 @@ export class DiscordTransport extends BaseTransport {
     return (
       channel instanceof TextChannel ||
       channel instanceof DMChannel ||
-      channel instanceof NewsChannel
+      channel instanceof NewsChannel ||
+      channel instanceof ThreadChannel
     );
   }
 
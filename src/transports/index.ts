@@ -2,5 +2,11 @@
  * Transport module exports
  */
 
-export { BaseTransport } from './base.js';
+export { BaseTransport, isEditableTransport } from './base.js';
 export { DiscordTransport } from './discord.js';
+export { CliTransport } from './cli.js';
+export type { CliTransportConfig } from './cli.js';
+export { WebhookTransport, signWebhookBody, verifyWebhookSignature, webhookSignatureHeaders } from './webhook.js';
+export type { WebhookTransportConfig, WebhookOutboundEvent } from './webhook.js';
+export { SlackTransport } from './slack.js';
+export type { SlackTransportConfig } from './slack.js';
@@ -0,0 +1,651 @@
+/**
+ * Slack transport - receives events over Socket Mode and replies via the Web API
+ *
+ * Socket Mode: apps.connections.open (app-level token) returns a WebSocket URL that
+ * delivers event envelopes, each of which must be acknowledged with its envelope_id.
+ * The API base URL is configurable so the transport can run against a local fake
+ * Slack server during development.
+ *
+ * Slack threads aren't channels of their own, so a thread is addressed as
+ * "<channel>:<thread_ts>"; messages sent there are posted as thread replies.
+ */
+
+import WebSocket from 'ws';
+import { z } from 'zod';
+import { BaseTransport } from './base.js';
+import { ChatMessage, TransportType, Attachment } from '../types.js';
+import { getLogStore } from '../logs/index.js';
+
+/**
+ * Configuration for the Slack transport
+ */
+export interface SlackTransportConfig {
+  botToken: string;              // xoxb- token for Web API calls
+  appToken: string;              // xapp- token for Socket Mode
+  apiBaseUrl?: string;           // Default: https://slack.com/api
+  allowedChannelIds?: string[];  // Only handle messages from these channels if set
+  reconnectDelayMs?: number;     // First reconnect delay, doubled after each failed attempt (default: 1000)
+  maxReconnectDelayMs?: number;  // Cap on the reconnect delay (default: 60000)
+}
+
+/**
+ * Subset of a Slack message event that we use
+ */
+const SlackMessageEventSchema = z.object({
+  type: z.literal('message'),
+  subtype: z.string().optional(),
+  ts: z.string(),
+  thread_ts: z.string().optional(),
+  channel: z.string(),
+  channel_type: z.string().optional(),
+  team: z.string().optional(),
+  user: z.string().optional(),
+  bot_id: z.string().optional(),
+  text: z.string().optional(),
+  files: z.array(z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    title: z.string().optional(),
+    url_private: z.string().optional(),
+    permalink: z.string().optional(),
+    mimetype: z.string().optional(),
+    size: z.number().optional(),
+  })).optional(),
+});
+
+/**
+ * Subset of a Slack reaction_added event that we use
+ */
+const SlackReactionEventSchema = z.object({
+  type: z.literal('reaction_added'),
+  user: z.string(),
+  reaction: z.string(),
+  item: z.object({
+    type: z.string(),
+    channel: z.string(),
+    ts: z.string(),
+  }),
+});
+
+/**
+ * Socket Mode envelope; the event is checked separately so unknown event types can be skipped
+ */
+const SocketEnvelopeSchema = z.object({
+  type: z.string(),   // hello, disconnect, events_api, slash_commands, interactive
+  envelope_id: z.string().optional(),
+  payload: z.object({
+    event: z.object({ type: z.string() }).passthrough().optional(),
+  }).optional(),
+  reason: z.string().optional(),
+});
+
+type SlackMessageEvent = z.infer<typeof SlackMessageEventSchema>;
+type SlackReactionEvent = z.infer<typeof SlackReactionEventSchema>;
+type SocketEnvelope = z.infer<typeof SocketEnvelopeSchema>;
+
+/**
+ * Parse a Socket Mode frame
+ * @returns the envelope, or null if the frame isn't JSON or isn't shaped like an envelope
+ */
+export function parseSocketEnvelope(frame: string): SocketEnvelope | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(frame);
+  } catch {
+    return null;
+  }
+  const result = SocketEnvelopeSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Slack message length limit for a single chat.postMessage text block
+ */
+const SLACK_MAX_MESSAGE_LENGTH = 4000;
+
+/**
+ * How many message -> channel ID mappings to keep for resolving reactions
+ */
+const MESSAGE_CHANNEL_CACHE_SIZE = 1000;
+
+/**
+ * Unicode emoji used by the arbiter -> Slack reaction names
+ */
+const EMOJI_NAMES: Record<string, string> = {
+  '👍': 'thumbsup',
+  '👎': 'thumbsdown',
+  '👀': 'eyes',
+  '✅': 'white_check_mark',
+  '❌': 'x',
+  '🎉': 'tada',
+  '🔧': 'wrench',
+  '⏳': 'hourglass_flowing_sand',
+  '📝': 'memo',
+  '🚀': 'rocket',
+  '😄': 'smile',
+};
+
+export class SlackTransport extends BaseTransport {
+  type: TransportType = 'slack';
+  maxMessageLength = SLACK_MAX_MESSAGE_LENGTH;
+
+  private config: SlackTransportConfig;
+  private apiBaseUrl: string;
+  private socket: WebSocket | null = null;
+  private ready = false;
+  private disconnecting = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  private botUserId = '';
+  private botName = 'Arbiter';
+  private userNames: Map<string, string> = new Map();
+  private channelNames: Map<string, string> = new Map();
+  private messageChannels: Map<string, string> = new Map();   // ts -> channel ID (with thread) of messages sent or seen
+
+  constructor(config: SlackTransportConfig) {
+    super();
+    this.config = config;
+    this.apiBaseUrl = (config.apiBaseUrl ?? 'https://slack.com/api').replace(/\/+$/, '');
+  }
+
+  async connect(): Promise<void> {
+    console.log('[Slack] Connecting via Socket Mode...');
+    this.disconnecting = false;
+
+    // Identify the bot user so we can ignore our own messages and detect mentions
+    const auth = await this.api<{ user_id: string; user: string }>('auth.test', {});
+    this.botUserId = auth.user_id;
+    this.botName = auth.user;
+
+    await this.openSocket();
+  }
+
+  async disconnect(): Promise<void> {
+    console.log('[Slack] Disconnecting...');
+    this.disconnecting = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.ready = false;
+  }
+
+  async send(channelId: string, content: string): Promise<void> {
+    // Log bot reply
+    getLogStore().message('Bot', content.slice(0, 500), { channelId });
+
+    const { channel, threadTs } = splitChannelId(channelId);
+    for (const chunk of this.chunkMessage(content, SLACK_MAX_MESSAGE_LENGTH)) {
+      const result = await this.api<{ ts: string }>('chat.postMessage', { channel, thread_ts: threadTs, text: chunk });
+      this.rememberMessageChannel(result.ts, channelId);
+    }
+  }
+
+  /**
+   * Send a message and return its ts (Slack's message ID, used for editing)
+   */
+  async sendAndGetId(channelId: string, content: string): Promise<string> {
+    const { channel, threadTs } = splitChannelId(channelId);
+    const result = await this.api<{ ts: string }>('chat.postMessage', {
+      channel,
+      thread_ts: threadTs,
+      text: this.truncate(content),
+    });
+    this.rememberMessageChannel(result.ts, channelId);
+    return result.ts;
+  }
+
+  /**
+   * Edit an existing message by ts
+   */
+  async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+    await this.api('chat.update', {
+      channel: splitChannelId(channelId).channel,
+      ts: messageId,
+      text: this.truncate(content),
+    });
+  }
+
+  async react(messageId: string, channelId: string, emoji: string): Promise<void> {
+    await this.api('reactions.add', {
+      channel: splitChannelId(channelId).channel,
+      timestamp: messageId,
+      name: EMOJI_NAMES[emoji] ?? emoji.replace(/^:|:$/g, ''),
+    });
+  }
+
+  /**
+   * A Slack thread needs no setup: replying with thread_ts set to the message starts it
+   * @returns the thread's channel ID ("<channel>:<ts>")
+   */
+  async createThread(channelId: string, messageId: string, _name: string): Promise<string> {
+    return `${splitChannelId(channelId).channel}:${messageId}`;
+  }
+
+  async getMessageHistory(channelId: string, limit = 30): Promise<ChatMessage[]> {
+    const { channel, threadTs } = splitChannelId(channelId);
+    try {
+      // Thread history is the thread's replies (starting with its parent message)
+      const result = await this.api<{ messages: Omit<SlackMessageEvent, 'channel'>[] }>(
+        threadTs ? 'conversations.replies' : 'conversations.history',
+        { channel, ts: threadTs, limit }
+      );
+
+      const messages: ChatMessage[] = [];
+      for (const msg of result.messages ?? []) {
+        messages.push(await this.convertMessage({ ...msg, channel }));
+      }
+
+      return messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    } catch (error) {
+      console.error(`[Slack] Failed to fetch history for ${channelId}:`, error);
+      return [];
+    }
+  }
+
+  getBotId(): string {
+    return this.botUserId;
+  }
+
+  getBotName(): string {
+    return this.botName;
+  }
+
+  /**
+   * Files shared in Slack are private to the workspace: url_private needs the bot token
+   * The token is only sent to Slack's own hosts (or the configured API host, e.g. a fake server)
+   */
+  getAttachmentHeaders(attachment: Attachment): Record<string, string> | undefined {
+    let host: string;
+    try {
+      host = new URL(attachment.url).hostname;
+    } catch {
+      return undefined;
+    }
+
+    const trusted = host === 'slack.com' || host.endsWith('.slack.com') || host === new URL(this.apiBaseUrl).hostname;
+    return trusted ? { Authorization: `Bearer ${this.config.botToken}` } : undefined;
+  }
+
+  /**
+   * Find a channel ID by name (public channels the bot can see)
+   */
+  async findChannelByName(channelName: string): Promise<string | null> {
+    try {
+      const result = await this.api<{ channels: { id: string; name: string }[] }>('conversations.list', {
+        types: 'public_channel,private_channel',
+        limit: 1000,
+      });
+      return result.channels.find((ch) => ch.name === channelName)?.id ?? null;
+    } catch (error) {
+      console.error('[Slack] Failed to list channels:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Open a Socket Mode connection and wire up envelope handling
+   */
+  private async openSocket(): Promise<void> {
+    const { url } = await this.api<{ url: string }>('apps.connections.open', {}, this.config.appToken);
+    if (this.disconnecting) return;
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.on('message', (data) => {
+      const envelope = parseSocketEnvelope(data.toString());
+      if (!envelope) {
+        console.warn('[Slack] Ignoring malformed socket frame');
+        return;
+      }
+      this.handleEnvelope(envelope).catch((error) => {
+        console.error('[Slack] Error handling envelope:', error);
+        this.emitError(error instanceof Error ? error : new Error(String(error)));
+      });
+    });
+
+    socket.on('error', (error) => {
+      console.error('[Slack] Socket error:', error);
+      this.emitError(error);
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.disconnecting) return;
+
+      // Slack rotates Socket Mode connections periodically - reconnect
+      console.log('[Slack] Socket closed');
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Reopen the socket after a delay, backing off exponentially while attempts keep failing
+   * Keeps trying until disconnect() is called; the backoff resets once Slack says hello
+   */
+  private scheduleReconnect(): void {
+    if (this.disconnecting || this.reconnectTimer) return;
+
+    const base = this.config.reconnectDelayMs ?? 1000;
+    const delay = Math.min(base * 2 ** this.reconnectAttempts, this.config.maxReconnectDelayMs ?? 60000);
+    this.reconnectAttempts++;
+    console.log(`[Slack] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.disconnecting) return;
+      this.openSocket().catch((error) => {
+        console.error('[Slack] Reconnect failed:', error);
+        this.emitError(error instanceof Error ? error : new Error(String(error)));
+        this.scheduleReconnect();
+      });
+    }, delay);
+  }
+
+  /**
+   * Handle a Socket Mode envelope
+   */
+  private async handleEnvelope(envelope: SocketEnvelope): Promise<void> {
+    // Every envelope with an ID must be acknowledged within 3 seconds
+    if (envelope.envelope_id) {
+      this.socket?.send(JSON.stringify({ envelope_id: envelope.envelope_id }));
+    }
+
+    switch (envelope.type) {
+      case 'hello':
+        this.reconnectAttempts = 0;
+        if (!this.ready) {
+          console.log(`[Slack] Bot online as ${this.botName} (${this.botUserId})`);
+          this.ready = true;
+          this.emitReady();
+        }
+        break;
+
+      case 'disconnect':
+        console.log(`[Slack] Server requested disconnect: ${envelope.reason ?? 'unknown'}`);
+        this.socket?.close();
+        break;
+
+      case 'events_api': {
+        // app_mention events duplicate channel messages - mentions are detected from text
+        const event = envelope.payload?.event;
+        const schema = event?.type === 'message' ? SlackMessageEventSchema
+          : event?.type === 'reaction_added' ? SlackReactionEventSchema
+          : null;
+        if (!event || !schema) {
+          break;
+        }
+
+        const parsed = schema.safeParse(event);
+        if (!parsed.success) {
+          console.warn(`[Slack] Ignoring malformed ${event.type} event: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+          break;
+        }
+        if (parsed.data.type === 'message') {
+          await this.handleMessageEvent(parsed.data);
+        } else {
+          await this.handleReactionEvent(parsed.data);
+        }
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  private async handleMessageEvent(event: SlackMessageEvent): Promise<void> {
+    // Ignore own/bot messages and edits/deletes/joins; keep plain messages and file shares
+    if (event.bot_id || !event.user || event.user === this.botUserId) {
+      return;
+    }
+    if (event.subtype && event.subtype !== 'file_share' && event.subtype !== 'thread_broadcast') {
+      return;
+    }
+
+    // Filter by allowed channels if configured
+    const allowed = this.config.allowedChannelIds;
+    if (allowed && allowed.length > 0 && !allowed.includes(event.channel)) {
+      console.log(`[Slack] Ignoring message from channel ${event.channel} (not allowed)`);
+      return;
+    }
+
+    const chatMessage = await this.convertMessage(event);
+
+    // Set logging context for this message
+    const logStore = getLogStore();
+    logStore.setContext({
+      channelId: event.channel,
+      userId: event.user,
+    });
+
+    // Log incoming message
+    logStore.message('Slack', `[${chatMessage.authorName}] ${chatMessage.content.slice(0, 500)}`, {
+      authorId: chatMessage.authorId,
+      authorName: chatMessage.authorName,
+      channelName: chatMessage.channelName,
+      channelId: chatMessage.channelId,
+    });
+
+    await this.emitMessage(chatMessage);
+  }
+
+  private async handleReactionEvent(event: SlackReactionEvent): Promise<void> {
+    if (event.user === this.botUserId || event.item.type !== 'message') {
+      return;
+    }
+
+    const allowed = this.config.allowedChannelIds;
+    if (allowed && allowed.length > 0 && !allowed.includes(event.item.channel)) {
+      return;
+    }
+
+    // Map Slack reaction names back to the unicode emoji the arbiter uses
+    const emoji = Object.keys(EMOJI_NAMES).find((key) => EMOJI_NAMES[key] === event.reaction) ?? event.reaction;
+
+    await this.emitReaction({
+      messageId: event.item.ts,
+      channelId: await this.reactionChannelId(event.item.channel, event.item.ts),
+      emoji,
+      authorId: event.user,
+      authorName: await this.getUserName(event.user),
+      transport: 'slack',
+    });
+  }
+
+  /**
+   * The channel ID of a reacted-to message - reaction events don't say which thread it is in
+   * Messages the transport sent or received are remembered; others are looked up
+   */
+  private async reactionChannelId(channel: string, ts: string): Promise<string> {
+    const known = this.messageChannels.get(ts);
+    if (known) return known;
+
+    try {
+      const result = await this.api<{ messages: { ts: string; thread_ts?: string }[] }>('conversations.replies', { channel, ts, limit: 1 });
+      const threadTs = result.messages.find((m) => m.ts === ts)?.thread_ts;
+      return threadTs && threadTs !== ts ? `${channel}:${threadTs}` : channel;
+    } catch (error) {
+      console.warn(`[Slack] Couldn't look up the thread of message ${ts}:`, error);
+      return channel;
+    }
+  }
+
+  private rememberMessageChannel(ts: string, channelId: string): void {
+    this.messageChannels.set(ts, channelId);
+    if (this.messageChannels.size > MESSAGE_CHANNEL_CACHE_SIZE) {
+      this.messageChannels.delete(this.messageChannels.keys().next().value!);
+    }
+  }
+
+  /**
+   * Convert a Slack message event to our ChatMessage format
+   */
+  private async convertMessage(event: SlackMessageEvent): Promise<ChatMessage> {
+    const text = event.text ?? '';
+    const isOwn = event.user === this.botUserId || !!event.bot_id;
+
+    const attachments: Attachment[] = (event.files ?? []).map((file) => ({
+      id: file.id,
+      filename: file.name ?? file.title ?? 'unknown',
+      url: file.url_private ?? file.permalink ?? '',
+      contentType: file.mimetype,
+      size: file.size,
+    }));
+
+    // A reply in a thread is addressed to the thread, so answers are posted there too
+    const inThread = !!event.thread_ts && event.thread_ts !== event.ts;
+    const threadId = inThread ? `${event.channel}:${event.thread_ts}` : undefined;
+    this.rememberMessageChannel(event.ts, threadId ?? event.channel);
+
+    return {
+      id: event.ts,
+      content: this.normalizeText(text),
+      authorId: event.user ?? event.bot_id ?? 'unknown',
+      authorName: isOwn ? this.botName : await this.getUserName(event.user),
+      channelId: threadId ?? event.channel,
+      channelName: event.channel_type === 'im' ? 'DM' : await this.getChannelName(event.channel),
+      threadId,
+      parentChannelId: inThread ? event.channel : undefined,
+      guildId: event.team,
+      timestamp: new Date(parseFloat(event.ts) * 1000),
+      transport: 'slack',
+      // Thread replies point at the thread's parent message
+      replyToId: inThread ? event.thread_ts : undefined,
+      mentionsBotId: this.botUserId ? text.includes(`<@${this.botUserId}>`) : false,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      raw: event,
+    };
+  }
+
+  /**
+   * Replace Slack's <@U123> mention markup with readable names
+   */
+  private normalizeText(text: string): string {
+    return text
+      .replace(new RegExp(`<@${this.botUserId}>`, 'g'), `@${this.botName}`)
+      .replace(/<@([A-Z0-9]+)>/g, (_, id: string) => `@${this.userNames.get(id) ?? id}`)
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+
+  private async getUserName(userId: string | undefined): Promise<string> {
+    if (!userId) return 'unknown';
+
+    const cached = this.userNames.get(userId);
+    if (cached) return cached;
+
+    try {
+      const result = await this.api<{ user: { name: string; real_name?: string } }>('users.info', { user: userId });
+      const name = result.user.name;
+      this.userNames.set(userId, name);
+      return name;
+    } catch {
+      return userId;
+    }
+  }
+
+  private async getChannelName(channelId: string): Promise<string | undefined> {
+    const cached = this.channelNames.get(channelId);
+    if (cached) return cached;
+
+    try {
+      const result = await this.api<{ channel: { name?: string; is_im?: boolean } }>('conversations.info', { channel: channelId });
+      const name = result.channel.is_im ? 'DM' : result.channel.name;
+      if (name) {
+        this.channelNames.set(channelId, name);
+      }
+      return name;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Call a Slack Web API method
+   * @throws Error if the HTTP request fails or Slack responds with ok: false
+   */
+  private async api<T = Record<string, unknown>>(
+    method: string,
+    body: Record<string, unknown>,
+    token: string = this.config.botToken
+  ): Promise<T> {
+    // Form encoding works for every method (read methods don't accept JSON bodies)
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(body)) {
+      if (value !== undefined) {
+        form.set(key, String(value));
+      }
+    }
+
+    const response = await fetch(`${this.apiBaseUrl}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Bearer ${token}`,
+      },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Slack API ${method} failed: HTTP ${response.status}`);
+    }
+
+    const data = await response.json() as { ok: boolean; error?: string } & T;
+    if (!data.ok) {
+      throw new Error(`Slack API ${method} failed: ${data.error ?? 'unknown error'}`);
+    }
+
+    return data;
+  }
+
+  private truncate(content: string): string {
+    return content.length > SLACK_MAX_MESSAGE_LENGTH
+      ? content.slice(0, SLACK_MAX_MESSAGE_LENGTH - 3) + '...'
+      : content;
+  }
+
+  private chunkMessage(content: string, maxLength: number): string[] {
+    if (content.length <= maxLength) {
+      return [content];
+    }
+
+    const chunks: string[] = [];
+    let remaining = content;
+
+    while (remaining.length > 0) {
+      if (remaining.length <= maxLength) {
+        chunks.push(remaining);
+        break;
+      }
+
+      // Try to split at a newline, then a space, then force split
+      let splitIndex = remaining.lastIndexOf('\n', maxLength);
+      if (splitIndex === -1 || splitIndex < maxLength / 2) {
+        splitIndex = remaining.lastIndexOf(' ', maxLength);
+      }
+      if (splitIndex === -1 || splitIndex < maxLength / 2) {
+        splitIndex = maxLength;
+      }
+
+      chunks.push(remaining.slice(0, splitIndex));
+      remaining = remaining.slice(splitIndex).trimStart();
+    }
+
+    return chunks;
+  }
+}
+
+/**
+ * Split a channel ID into the Slack channel and, for a thread, the thread's parent ts
+ */
+function splitChannelId(channelId: string): { channel: string; threadTs?: string } {
+  const [channel, threadTs] = channelId.split(':', 2);
+  return { channel, threadTs };
+}
@@ -0,0 +1,434 @@
+/**
+ * Webhook transport - accepts chat messages over HTTP and delivers replies to callback URLs
+ * Lets CI systems and internal tools talk to the arbiter without going through Discord
+ *
+ * Inbound:  POST {path} with a JSON body and the headers
+ *           X-Arbiter-Timestamp: <unix seconds>
+ *           X-Arbiter-Nonce: <unique per request>
+ *           X-Arbiter-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<nonce>.<raw body>">
+ *           Requests outside the timestamp window or reusing a nonce are rejected as replays
+ * Outbound: POST to the channel's callback URL with a JSON event, signed the same way
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { BaseTransport } from './base.js';
+import { ChatMessage, TransportType } from '../types.js';
+import { getLogStore } from '../logs/index.js';
+import { post } from '../utils/fetch.js';
+
+export const SIGNATURE_HEADER = 'x-arbiter-signature';
+export const TIMESTAMP_HEADER = 'x-arbiter-timestamp';
+export const NONCE_HEADER = 'x-arbiter-nonce';
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1MB
+const DEFAULT_MAX_AGE_SECONDS = 300;
+
+/**
+ * Configuration for the webhook transport
+ */
+export interface WebhookTransportConfig {
+  port: number;
+  hostname?: string;
+  path?: string;                          // Inbound endpoint (default: /messages)
+  secret: string;                         // Shared secret for HMAC signatures
+  callbackUrls?: Record<string, string>;  // channelId -> callback URL
+  defaultCallbackUrl?: string;            // Used when a channel has no callback configured
+  botName?: string;
+  maxHistory?: number;                    // Messages kept per channel for getMessageHistory()
+  maxAgeSeconds?: number;                 // How far a request's timestamp may be from now (default: 300)
+}
+
+/**
+ * Zod schema for inbound webhook payloads
+ */
+const InboundMessageSchema = z.object({
+  id: z.string().optional(),
+  content: z.string(),
+  authorId: z.string(),
+  authorName: z.string(),
+  channelId: z.string(),
+  channelName: z.string().optional(),
+  timestamp: z.string().optional(),
+  replyToId: z.string().optional(),
+  mentionsBot: z.boolean().optional(),
+  attachments: z.array(z.object({
+    id: z.string().regex(/^[\w.-]{1,100}$/, 'letters, digits, ".", "_" and "-" only'),
+    filename: z.string(),
+    url: z.string(),
+    contentType: z.string().optional(),
+    size: z.number().optional(),
+  })).optional(),
+  callbackUrl: z.string().url().optional(),  // Registers/overrides the channel's callback URL
+});
+
+/**
+ * Events delivered to callback URLs
+ */
+export type WebhookOutboundEvent =
+  | { type: 'message'; channelId: string; content: string; timestamp: string }
+  | { type: 'reaction'; channelId: string; messageId: string; emoji: string; timestamp: string };
+
+/**
+ * Compute the signature header value for a body sent at a timestamp with a nonce
+ */
+export function signWebhookBody(secret: string, body: string, timestamp: string, nonce: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${nonce}.${body}`).digest('hex');
+}
+
+/**
+ * Verify a signature header value against a body, timestamp and nonce (constant-time)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  signature: string | undefined,
+  timestamp: string | undefined,
+  nonce: string | undefined
+): boolean {
+  if (!signature || !timestamp || !nonce) return false;
+
+  const expected = Buffer.from(signWebhookBody(secret, body, timestamp, nonce));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build the timestamp, nonce and signature headers for a body
+ */
+export function webhookSignatureHeaders(secret: string, body: string, now = new Date()): Record<string, string> {
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  const nonce = randomUUID();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: signWebhookBody(secret, body, timestamp, nonce),
+  };
+}
+
+export class WebhookTransport extends BaseTransport {
+  type: TransportType = 'webhook';
+
+  private config: WebhookTransportConfig;
+  private path: string;
+  private botName: string;
+  private maxHistory: number;
+  private maxAgeMs: number;
+
+  private server: Server | null = null;
+  private callbackUrls: Map<string, string>;
+  private history: Map<string, ChatMessage[]> = new Map();
+  private seenNonces: Map<string, number> = new Map();   // nonce -> when its timestamp leaves the window
+  private messageCounter = 0;
+
+  constructor(config: WebhookTransportConfig) {
+    super();
+    if (!config.secret) {
+      throw new Error('Webhook transport requires a shared secret');
+    }
+
+    this.config = config;
+    this.path = config.path ?? '/messages';
+    this.botName = config.botName ?? 'Arbiter';
+    this.maxHistory = config.maxHistory ?? 100;
+    this.maxAgeMs = (config.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS) * 1000;
+    this.callbackUrls = new Map(Object.entries(config.callbackUrls ?? {}));
+  }
+
+  async connect(): Promise<void> {
+    const { port, hostname = '0.0.0.0' } = this.config;
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[Webhook] Request handler error:', error);
+        this.respond(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, hostname, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    console.log(`[Webhook] Listening on http://${hostname}:${this.getPort()}${this.path}`);
+    this.emitReady();
+  }
+
+  async disconnect(): Promise<void> {
+    console.log('[Webhook] Disconnecting...');
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  async send(channelId: string, content: string): Promise<void> {
+    getLogStore().message('Bot', content.slice(0, 500), { channelId });
+
+    this.record({
+      id: this.nextMessageId(),
+      content,
+      authorId: this.getBotId(),
+      authorName: this.botName,
+      channelId,
+      timestamp: new Date(),
+      transport: 'webhook',
+    });
+
+    await this.deliver(channelId, {
+      type: 'message',
+      channelId,
+      content,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  async react(messageId: string, channelId: string, emoji: string): Promise<void> {
+    await this.deliver(channelId, {
+      type: 'reaction',
+      channelId,
+      messageId,
+      emoji,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  async getMessageHistory(channelId: string, limit = 30): Promise<ChatMessage[]> {
+    const messages = this.history.get(channelId) ?? [];
+    return messages.slice(-limit);
+  }
+
+  getBotId(): string {
+    return 'webhook-bot';
+  }
+
+  getBotName(): string {
+    return this.botName;
+  }
+
+  /**
+   * Get the port the server is listening on (useful when configured with port 0)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.config.port;
+  }
+
+  /**
+   * Set or replace the callback URL for a channel
+   */
+  setCallbackUrl(channelId: string, url: string): void {
+    this.callbackUrls.set(channelId, url);
+  }
+
+  /**
+   * Handle an inbound HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      this.respond(res, 200, { status: 'ok' });
+      return;
+    }
+
+    if (url.pathname !== this.path) {
+      this.respond(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      this.respond(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await this.readBody(req);
+    } catch (error) {
+      this.respond(res, 413, { error: error instanceof Error ? error.message : 'Body too large' });
+      return;
+    }
+
+    const timestamp = this.header(req, TIMESTAMP_HEADER);
+    const nonce = this.header(req, NONCE_HEADER);
+    if (!verifyWebhookSignature(this.config.secret, body, this.header(req, SIGNATURE_HEADER), timestamp, nonce)) {
+      console.warn('[Webhook] Rejected request with invalid signature');
+      getLogStore().warn('Webhook', 'Rejected request with invalid signature', {
+        remoteAddress: req.socket.remoteAddress,
+      });
+      this.respond(res, 401, { error: 'Invalid signature' });
+      return;
+    }
+
+    // Checked after the signature so only signed requests take up room in the nonce cache
+    const replay = this.checkReplay(timestamp!, nonce!);
+    if (replay) {
+      console.warn(`[Webhook] Rejected request: ${replay}`);
+      getLogStore().warn('Webhook', `Rejected request: ${replay}`, {
+        remoteAddress: req.socket.remoteAddress,
+        timestamp,
+      });
+      this.respond(res, 401, { error: replay });
+      return;
+    }
+
+    let payload: z.infer<typeof InboundMessageSchema>;
+    try {
+      payload = InboundMessageSchema.parse(JSON.parse(body));
+    } catch (error) {
+      const detail = error instanceof z.ZodError
+        ? error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')
+        : 'Invalid JSON';
+      this.respond(res, 400, { error: detail });
+      return;
+    }
+
+    if (payload.callbackUrl) {
+      this.setCallbackUrl(payload.channelId, payload.callbackUrl);
+    }
+
+    const chatMessage = this.convertMessage(payload);
+    this.record(chatMessage);
+
+    // Set logging context for this message
+    const logStore = getLogStore();
+    logStore.setContext({
+      channelId: chatMessage.channelId,
+      userId: chatMessage.authorId,
+    });
+    logStore.message('Webhook', `[${chatMessage.authorName}] ${chatMessage.content.slice(0, 500)}`, {
+      authorId: chatMessage.authorId,
+      authorName: chatMessage.authorName,
+      channelName: chatMessage.channelName,
+      channelId: chatMessage.channelId,
+    });
+
+    // Acknowledge before processing - replies arrive via the callback URL
+    this.respond(res, 202, { id: chatMessage.id });
+
+    await this.emitMessage(chatMessage);
+  }
+
+  /**
+   * Convert an inbound payload to our ChatMessage format
+   */
+  private convertMessage(payload: z.infer<typeof InboundMessageSchema>): ChatMessage {
+    const timestamp = payload.timestamp ? new Date(payload.timestamp) : new Date();
+
+    return {
+      id: payload.id ?? this.nextMessageId(),
+      content: payload.content,
+      authorId: payload.authorId,
+      authorName: payload.authorName,
+      channelId: payload.channelId,
+      channelName: payload.channelName,
+      timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+      transport: 'webhook',
+      replyToId: payload.replyToId,
+      mentionsBotId: payload.mentionsBot,
+      attachments: payload.attachments && payload.attachments.length > 0 ? payload.attachments : undefined,
+      raw: payload,
+    };
+  }
+
+  /**
+   * POST a signed event to the channel's callback URL
+   */
+  private async deliver(channelId: string, event: WebhookOutboundEvent): Promise<void> {
+    const callbackUrl = this.callbackUrls.get(channelId) ?? this.config.defaultCallbackUrl;
+    if (!callbackUrl) {
+      throw new Error(`No callback URL configured for channel ${channelId}`);
+    }
+
+    const body = JSON.stringify(event);
+    const result = await post(callbackUrl, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        ...webhookSignatureHeaders(this.config.secret, body),
+      },
+      timeout: 10000,
+      retries: 2,
+    });
+
+    if (!result.success) {
+      throw new Error(`Webhook delivery to ${callbackUrl} failed: ${result.error}`);
+    }
+  }
+
+  /**
+   * Reject requests whose timestamp is outside the window, or whose nonce was already used within it
+   * @returns why the request was rejected, or null if it's fresh
+   */
+  private checkReplay(timestamp: string, nonce: string): string | null {
+    const now = Date.now();
+    for (const [seen, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) {
+        this.seenNonces.delete(seen);
+      }
+    }
+
+    const sentAt = /^\d+$/.test(timestamp) ? Number(timestamp) * 1000 : NaN;
+    if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > this.maxAgeMs) {
+      return 'Stale timestamp';
+    }
+    if (this.seenNonces.has(nonce)) {
+      return 'Nonce already used';
+    }
+
+    // A nonce can't be replayed once its timestamp is out of the window, so forget it then
+    this.seenNonces.set(nonce, sentAt + this.maxAgeMs);
+    return null;
+  }
+
+  private header(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new Error(`Body exceeds ${MAX_BODY_BYTES} bytes`));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private respond(res: ServerResponse, status: number, body: Record<string, unknown>): void {
+    if (res.headersSent) return;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Store a message in the per-channel history, trimming old entries
+   */
+  private record(message: ChatMessage): void {
+    const messages = this.history.get(message.channelId) ?? [];
+    messages.push(message);
+    if (messages.length > this.maxHistory) {
+      messages.splice(0, messages.length - this.maxHistory);
+    }
+    this.history.set(message.channelId, messages);
+  }
+
+  private nextMessageId(): string {
+    return `wh-${Date.now().toString(36)}-${++this.messageCounter}`;
+  }
+}
@@ -10,14 +10,19 @@ export interface ChatMessage {
   content: string;
   authorId: string;
   authorName: string;
+  authorRoles?: string[];    // Transport role IDs (e.g. Discord roles), used for authorization
   channelId: string;
   channelName?: string;
+  guildId?: string;          // Discord guild / Slack team the channel belongs to
+  threadId?: string;         // Set when the message was posted in a thread (channelId is then the thread itself)
+  parentChannelId?: string;  // Channel the thread belongs to
   timestamp: Date;
   transport: TransportType;
 
   // Optional metadata
   replyToId?: string;
   mentionsBotId?: boolean;
+  repliesToBot?: boolean;    // Reply to one of the bot's own messages
   attachments?: Attachment[];
 
   // Raw transport-specific data
@@ -30,10 +35,24 @@ export interface Attachment {
   url: string;
   contentType?: string;
   size?: number;
+  description?: string;      // Alt text, where the transport has it
 }
 
 export type TransportType = 'discord' | 'slack' | 'cli' | 'webhook';
 
+/**
+ * A reaction added to a message by a user
+ */
+export interface ChatReaction {
+  messageId: string;
+  channelId: string;
+  emoji: string;
+  authorId: string;
+  authorName: string;
+  authorRoles?: string[];
+  transport: TransportType;
+}
+
 /**
  * Decision from the arbiter about whether/how to act
  */
@@ -43,6 +62,7 @@ export interface ArbiterDecision {
   reason: string;
   actionType: ActionType;
   suggestedApproach?: string;
+  notice?: string;                   // Told to the user before acting (e.g. why self_edit was refused)
 }
 
 export type ActionType =
@@ -50,6 +70,7 @@ export type ActionType =
   | 'acknowledge'      // Simple acknowledgment (emoji, short reply)
   | 'respond'          // Generate a response
   | 'self_edit'        // Create worktree and edit own code
+  | 'apply_patch'      // Apply a unified diff from the message and merge it (no Claude)
   | 'research'         // Gather information before acting
   | 'defer';           // Queue for later processing
 
@@ -71,16 +92,43 @@ export interface WorkSession {
   pendingMessages: ChatMessage[];    // Follow-up messages awaiting delivery
   shouldCheckpoint: boolean;         // Flag to trigger checkpoint on next tool_result
   checkpointCount: number;           // Number of checkpoints in this session
+
+  // Pull request mode
+  pullRequest?: PullRequestInfo;     // Set when the branch was proposed as a PR instead of merged
+
+  // Thread the session posts into; follow-ups are routed by it instead of by channel
+  threadId?: string;
+
+  // Live status messages the session posted (replies to them are follow-ups)
+  statusMessageIds?: string[];
+
+  // Research session: Claude only reads (plan mode), nothing is committed and the worktree is discarded
+  readOnly?: boolean;
+}
+
+export type PullRequestState = 'open' | 'closed' | 'merged';
+
+/**
+ * A pull request opened for a session branch
+ */
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  state: PullRequestState;
+  forge: string;
+  updatedAt: Date;
 }
 
 export type WorkSessionStatus =
   | 'creating'
   | 'active'
   | 'committing'
+  | 'reviewing'        // Committed, waiting for human approval before merge
   | 'rebasing'
   | 'completed'
   | 'failed'
-  | 'abandoned';
+  | 'abandoned'
+  | 'interrupted';     // Was in flight when the process stopped - can be resumed
 
 /**
  * Message history context for decision making
@@ -114,6 +162,7 @@ export interface Transport {
   onMessage(handler: (message: ChatMessage) => Promise<void>): void;
   onReady(handler: () => void): void;
   onError(handler: (error: Error) => void): void;
+  onReaction?(handler: (reaction: ChatReaction) => Promise<void>): void;
 
   // Sending
   send(channelId: string, content: string): Promise<void>;
@@ -123,15 +172,55 @@ export interface Transport {
   getMessageHistory(channelId: string, limit?: number): Promise<ChatMessage[]>;
   getBotId(): string;
   getBotName(): string;
+
+  // Optional editing capability (see EditableTransport)
+  maxMessageLength?: number;
+  sendAndGetId?(channelId: string, content: string): Promise<string>;
+  editMessage?(channelId: string, messageId: string, content: string): Promise<void>;
+
+  // Optional threading capability (see ThreadedTransport)
+  createThread?(channelId: string, messageId: string, name: string): Promise<string>;
+
+  // Optional headers an attachment download needs (e.g. Slack's bot token for private files)
+  getAttachmentHeaders?(attachment: Attachment): Record<string, string> | undefined;
+}
+
+/**
+ * Transport that can edit messages it has sent - used for live progress updates
+ */
+export interface EditableTransport extends Transport {
+  maxMessageLength: number;
+  sendAndGetId(channelId: string, content: string): Promise<string>;
+  editMessage(channelId: string, messageId: string, content: string): Promise<void>;
+}
+
+/**
+ * Transport that can open a thread on a message - used to give each session its own conversation
+ */
+export interface ThreadedTransport extends Transport {
+  createThread(channelId: string, messageId: string, name: string): Promise<string>;   // Returns the thread's channel ID
 }
 
 /**
  * Configuration for the arbiter
  */
 export interface ArbiterConfig {
-  model: string;
   confidenceThreshold: number;
   gitRepoPath: string;
   worktreeBasePath: string;
   defaultBranch: string;
+  reviewMode?: boolean;          // Require human approval before merging self-edit branches
+  reviewTimeoutMs?: number;      // Abandon the session if nobody reviews it in time
+  verifyCommands?: string[];     // Checks run in the worktree before merging (e.g. 'npm run type-check')
+  verifyOnFailure?: 'block' | 'fix';   // Keep the branch unmerged, or let Claude fix it and re-check
+  verifyMaxFixAttempts?: number;
+  verifyTimeoutMs?: number;      // Per-command timeout
+  pullRequestPollMs?: number;    // How often to refresh PR state in pull request mode
+  transcriptDir?: string;        // Where Claude run transcripts are recorded (one file per session)
+  maxParallelSessions?: number;  // Self-edit sessions running at once, the rest are queued (0 = unlimited)
+  sessionThreads?: boolean;      // Open a thread per session where the transport supports it (default true)
+  attachmentMaxBytes?: number;   // Largest attachment downloaded into a session worktree
+  attachmentMaxFiles?: number;   // Attachments downloaded per request
+  applyPatchAttachments?: boolean;   // git apply .patch/.diff attachments before Claude starts (default true)
+  patchCheckCommands?: string[];     // Checks run before merging an apply_patch session (default: verifyCommands)
 }
@@ -0,0 +1,313 @@
+/**
+ * Usage Accounting Module
+ * Ledger of tokens and cost for every LLM call and Claude run, attributed
+ * to a session, user, channel and feature, with optional daily budgets
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { initializeUsageTable, insertUsage, queryUsageRows } from './store.js';
+import { estimateCost } from './pricing.js';
+import type {
+  BudgetStatus,
+  UsageBudget,
+  UsageFilter,
+  UsageRecord,
+  UsageRow,
+  UsageSummary,
+  UsageTag,
+  UsageTotals,
+} from './types.js';
+
+export { estimateCost } from './pricing.js';
+export type {
+  BudgetStatus,
+  UsageBudget,
+  UsageContext,
+  UsageFeature,
+  UsageFilter,
+  UsageRecord,
+  UsageRow,
+  UsageSummary,
+  UsageTag,
+  UsageTotals,
+} from './types.js';
+
+/**
+ * Tokens and cost reported for one call
+ */
+export interface UsageAmount {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd?: number;          // Estimated from the model's price when not reported
+}
+
+// Records older than this are dropped from the JSON file when it's loaded
+const FILE_RETENTION_DAYS = 31;
+
+export class UsageLedger {
+  private records: UsageRecord[] = [];
+  private budget: UsageBudget = {};
+  private file?: string;
+  private fileWrites: Promise<void> = Promise.resolve();
+
+  constructor(private maxRecords = 10000) {}
+
+  /**
+   * Keep records in a JSON lines file when PostgreSQL isn't available,
+   * so budgets count spend from before a restart
+   */
+  async useFile(path: string): Promise<void> {
+    this.file = path;
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(`[Usage] Could not read ${path}:`, error);
+      }
+      return;
+    }
+
+    const cutoff = Date.now() - FILE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const loaded: UsageRecord[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        record.timestamp = new Date(record.timestamp);
+        if (record.timestamp.getTime() >= cutoff) {
+          loaded.push(record);
+        }
+      } catch {
+        // A line cut short by a crash; skip it
+      }
+    }
+    this.records = [...loaded, ...this.records].slice(-this.maxRecords);
+
+    // Rewrite without the expired records (temp file + rename so a crash can't truncate it)
+    this.fileWrites = this.fileWrites.then(async () => {
+      const tmp = `${path}.tmp`;
+      await writeFile(tmp, loaded.map((r) => JSON.stringify(r) + '\n').join(''), 'utf8');
+      await rename(tmp, path);
+    }).catch((error) => console.warn(`[Usage] Could not rewrite ${path}:`, error));
+    await this.fileWrites;
+  }
+
+  /**
+   * Record a call (kept in memory and persisted to PostgreSQL or the usage file)
+   */
+  record(tag: UsageTag, amount: UsageAmount): UsageRecord {
+    const record: UsageRecord = {
+      ...tag,
+      timestamp: new Date(),
+      model: amount.model,
+      inputTokens: amount.inputTokens,
+      outputTokens: amount.outputTokens,
+      costUsd: amount.costUsd ?? estimateCost(amount.model, amount.inputTokens, amount.outputTokens),
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records = this.records.slice(-this.maxRecords);
+    }
+
+    if (this.file) {
+      const path = this.file;
+      this.fileWrites = this.fileWrites.then(async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, JSON.stringify(record) + '\n', 'utf8');
+      }).catch((error) => console.warn(`[Usage] Could not append to ${path}:`, error));
+    } else {
+      insertUsage(record).catch(() => {
+        // Already logged in insertUsage
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * Usage matching a filter, from the database if connected (otherwise the records
+   * in memory, which include the usage file's)
+   */
+  async summarize(filter: UsageFilter = {}): Promise<UsageSummary> {
+    const rows = (this.file ? null : await queryUsageRows(filter)) ?? this.memoryRows(filter);
+    return summarizeRows(rows, filter.since);
+  }
+
+  setBudget(budget: UsageBudget): void {
+    this.budget = budget;
+  }
+
+  getBudget(): UsageBudget {
+    return this.budget;
+  }
+
+  /**
+   * Today's spend (UTC) against the daily budgets, overall and for one user
+   */
+  async checkBudget(userId?: string): Promise<BudgetStatus> {
+    const { dailyUsd, userDailyUsd } = this.budget;
+    const status: BudgetStatus = { exceeded: false };
+    if (dailyUsd === undefined && userDailyUsd === undefined) {
+      return status;
+    }
+
+    const today = await this.summarize({ since: startOfDay() });
+
+    if (dailyUsd !== undefined) {
+      status.daily = { spentUsd: today.total.costUsd, limitUsd: dailyUsd };
+      if (today.total.costUsd >= dailyUsd) {
+        status.exceeded = true;
+        status.reason = `Daily budget reached ($${formatUsd(today.total.costUsd)} of $${formatUsd(dailyUsd)})`;
+      }
+    }
+
+    if (userId && userDailyUsd !== undefined) {
+      const spentUsd = today.byUser[userId]?.costUsd ?? 0;
+      status.user = { spentUsd, limitUsd: userDailyUsd };
+      if (!status.exceeded && spentUsd >= userDailyUsd) {
+        status.exceeded = true;
+        status.reason = `Your daily budget is used up ($${formatUsd(spentUsd)} of $${formatUsd(userDailyUsd)})`;
+      }
+    }
+
+    return status;
+  }
+
+  /**
+   * Wait for pending writes to the usage file
+   */
+  async flush(): Promise<void> {
+    await this.fileWrites;
+  }
+
+  /**
+   * Forget in-memory records (the database and usage file are left alone)
+   */
+  clear(): void {
+    this.records = [];
+  }
+
+  private memoryRows(filter: UsageFilter): UsageRow[] {
+    return this.records
+      .filter((r) =>
+        (!filter.since || r.timestamp >= filter.since) &&
+        (!filter.feature || r.feature === filter.feature) &&
+        (!filter.sessionId || r.sessionId === filter.sessionId) &&
+        (!filter.userId || r.userId === filter.userId) &&
+        (!filter.channelId || r.channelId === filter.channelId)
+      )
+      .map((r) => ({
+        feature: r.feature,
+        model: r.model,
+        sessionId: r.sessionId,
+        userId: r.userId,
+        channelId: r.channelId,
+        calls: 1,
+        inputTokens: r.inputTokens,
+        outputTokens: r.outputTokens,
+        costUsd: r.costUsd,
+      }));
+  }
+}
+
+// Singleton instance
+let ledgerInstance: UsageLedger | null = null;
+
+export function getUsageLedger(): UsageLedger {
+  if (!ledgerInstance) {
+    ledgerInstance = new UsageLedger();
+  }
+  return ledgerInstance;
+}
+
+/**
+ * Initialize the usage module (creates the database table if connected)
+ */
+export async function initializeUsage(): Promise<boolean> {
+  return initializeUsageTable();
+}
+
+/**
+ * Midnight UTC of the current day
+ */
+export function startOfDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Aggregate rows into totals per feature, model, user, channel and session
+ */
+export function summarizeRows(rows: UsageRow[], since?: Date): UsageSummary {
+  const summary: UsageSummary = {
+    since,
+    total: emptyTotals(),
+    byFeature: {},
+    byModel: {},
+    byUser: {},
+    byChannel: {},
+    bySession: {},
+  };
+
+  for (const row of rows) {
+    addTotals(summary.total, row);
+    addTotals((summary.byFeature[row.feature] ??= emptyTotals()), row);
+    addTotals((summary.byModel[row.model] ??= emptyTotals()), row);
+    if (row.userId) addTotals((summary.byUser[row.userId] ??= emptyTotals()), row);
+    if (row.channelId) addTotals((summary.byChannel[row.channelId] ??= emptyTotals()), row);
+    if (row.sessionId) addTotals((summary.bySession[row.sessionId] ??= emptyTotals()), row);
+  }
+
+  return summary;
+}
+
+/**
+ * Format a usage summary for a chat message
+ */
+export function formatUsageSummary(title: string, summary: UsageSummary, budget?: BudgetStatus): string {
+  const lines = [`📊 **${title}**`, formatTotals(summary.total)];
+
+  const features = Object.entries(summary.byFeature).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+  if (features.length > 0) {
+    lines.push('', '**By feature:**');
+    for (const [feature, totals] of features) {
+      lines.push(`• ${feature}: ${formatTotals(totals)}`);
+    }
+  }
+
+  if (budget?.daily) {
+    lines.push('', `Daily budget: $${formatUsd(budget.daily.spentUsd)} of $${formatUsd(budget.daily.limitUsd)}`);
+  }
+  if (budget?.user) {
+    lines.push(`Your daily budget: $${formatUsd(budget.user.spentUsd)} of $${formatUsd(budget.user.limitUsd)}`);
+  }
+  if (budget?.exceeded) {
+    lines.push(`⛔ ${budget.reason} - code changes are paused until midnight UTC`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  return `${totals.calls} call${totals.calls === 1 ? '' : 's'}, ${tokens.toLocaleString('en-US')} tokens ` +
+    `(${totals.inputTokens.toLocaleString('en-US')} in / ${totals.outputTokens.toLocaleString('en-US')} out), $${formatUsd(totals.costUsd)}`;
+}
+
+function formatUsd(amount: number): string {
+  return amount < 1 ? amount.toFixed(4) : amount.toFixed(2);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addTotals(target: UsageTotals, row: UsageTotals): void {
+  target.calls += row.calls;
+  target.inputTokens += row.inputTokens;
+  target.outputTokens += row.outputTokens;
+  target.costUsd += row.costUsd;
+}
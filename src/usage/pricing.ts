@@ -0,0 +1,34 @@
+/**
+ * Model Pricing
+ * USD per million tokens for the OpenAI models the arbiter is usually run
+ * with. Unknown models (local servers, fakes) are treated as free.
+ */
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Longer names first so "gpt-4o-mini" isn't priced as "gpt-4o"
+const PRICES: [string, ModelPrice][] = [
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['o4-mini', { input: 1.1, output: 4.4 }],
+  ['o3-mini', { input: 1.1, output: 4.4 }],
+  ['o3', { input: 2, output: 8 }],
+];
+
+/**
+ * Estimated cost of a call in USD (0 for models without a known price)
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const name = model.toLowerCase();
+  const price = PRICES.find(([prefix]) => name.startsWith(prefix))?.[1];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
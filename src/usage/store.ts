@@ -0,0 +1,143 @@
+/**
+ * Usage Ledger Storage
+ * Persists usage records in PostgreSQL so totals (and budgets) survive
+ * restarts and the dashboard can read them
+ */
+
+import { getPool, isDbAvailable } from '../db/index.js';
+import type { UsageFeature, UsageFilter, UsageRecord, UsageRow } from './types.js';
+
+/**
+ * Initialize the llm_usage table
+ */
+export async function initializeUsageTable(): Promise<boolean> {
+  const pool = getPool();
+  if (!pool) {
+    console.log('[Usage] No database connection, usage will be in-memory only');
+    return false;
+  }
+
+  const createTableQuery = `
+    CREATE TABLE IF NOT EXISTS llm_usage (
+      id SERIAL PRIMARY KEY,
+      timestamp TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      feature VARCHAR(50) NOT NULL,
+      model VARCHAR(255) NOT NULL,
+      session_id VARCHAR(100),
+      user_id VARCHAR(100),
+      channel_id VARCHAR(100),
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_timestamp ON llm_usage(timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_user_id ON llm_usage(user_id);
+    CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+  `;
+
+  try {
+    await pool.query(createTableQuery);
+    console.log('[Usage] llm_usage table ready');
+    return true;
+  } catch (error) {
+    console.error('[Usage] Failed to create usage table:', error);
+    return false;
+  }
+}
+
+/**
+ * Insert a usage record
+ */
+export async function insertUsage(record: UsageRecord): Promise<void> {
+  const pool = getPool();
+  if (!pool || !isDbAvailable()) return;
+
+  try {
+    await pool.query(
+      `INSERT INTO llm_usage (timestamp, feature, model, session_id, user_id, channel_id, input_tokens, output_tokens, cost_usd)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        record.timestamp,
+        record.feature,
+        record.model,
+        record.sessionId || null,
+        record.userId || null,
+        record.channelId || null,
+        record.inputTokens,
+        record.outputTokens,
+        record.costUsd,
+      ]
+    );
+  } catch (error) {
+    // Don't let accounting failures break the call that was accounted for
+    console.error('[Usage] Failed to insert usage:', error);
+  }
+}
+
+/**
+ * Query usage grouped by feature, model, session, user and channel
+ * @returns null if the database is not available
+ */
+export async function queryUsageRows(filter: UsageFilter = {}): Promise<UsageRow[] | null> {
+  const pool = getPool();
+  if (!pool || !isDbAvailable()) return null;
+
+  const conditions: string[] = [];
+  const values: unknown[] = [];
+
+  const columns: [keyof UsageFilter, string, string][] = [
+    ['since', 'timestamp', '>='],
+    ['feature', 'feature', '='],
+    ['sessionId', 'session_id', '='],
+    ['userId', 'user_id', '='],
+    ['channelId', 'channel_id', '='],
+  ];
+  for (const [key, column, op] of columns) {
+    if (filter[key] !== undefined) {
+      values.push(filter[key]);
+      conditions.push(`${column} ${op} $${values.length}`);
+    }
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  try {
+    const result = await pool.query<{
+      feature: string;
+      model: string;
+      session_id: string | null;
+      user_id: string | null;
+      channel_id: string | null;
+      calls: string;
+      input_tokens: string;
+      output_tokens: string;
+      cost_usd: string;
+    }>(
+      `SELECT feature, model, session_id, user_id, channel_id,
+              COUNT(*) AS calls,
+              COALESCE(SUM(input_tokens), 0) AS input_tokens,
+              COALESCE(SUM(output_tokens), 0) AS output_tokens,
+              COALESCE(SUM(cost_usd), 0) AS cost_usd
+       FROM llm_usage ${whereClause}
+       GROUP BY feature, model, session_id, user_id, channel_id`,
+      values
+    );
+
+    // pg returns bigint and numeric aggregates as strings
+    return result.rows.map((row) => ({
+      feature: row.feature as UsageFeature,
+      model: row.model,
+      sessionId: row.session_id ?? undefined,
+      userId: row.user_id ?? undefined,
+      channelId: row.channel_id ?? undefined,
+      calls: parseInt(row.calls, 10),
+      inputTokens: parseInt(row.input_tokens, 10),
+      outputTokens: parseInt(row.output_tokens, 10),
+      costUsd: parseFloat(row.cost_usd),
+    }));
+  } catch (error) {
+    console.error('[Usage] Failed to query usage:', error);
+    return null;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Usage Accounting Types
+ */
+
+import type { LlmFeature } from '../llm/index.js';
+
+/**
+ * What a model call was made for ('other' = a call made without a usage tag)
+ */
+export type UsageFeature = LlmFeature | 'claude' | 'other';
+
+/**
+ * Who and what a model call is attributed to
+ */
+export interface UsageContext {
+  sessionId?: string;
+  userId?: string;
+  channelId?: string;
+}
+
+/**
+ * Attribution passed along with an LLM call
+ */
+export interface UsageTag extends UsageContext {
+  feature: UsageFeature;
+}
+
+/**
+ * One recorded model call (or Claude run)
+ */
+export interface UsageRecord extends UsageTag {
+  timestamp: Date;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Token and cost totals for a group of records
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Records aggregated by feature, model, user and channel with the same attribution
+ * (the shape both the in-memory ledger and the database query produce)
+ */
+export interface UsageRow extends UsageTotals {
+  feature: UsageFeature;
+  model: string;
+  sessionId?: string;
+  userId?: string;
+  channelId?: string;
+}
+
+/**
+ * Filter for usage queries
+ */
+export interface UsageFilter extends UsageContext {
+  since?: Date;
+  feature?: UsageFeature;
+}
+
+/**
+ * Usage broken down by feature, user, channel and session
+ */
+export interface UsageSummary {
+  since?: Date;
+  total: UsageTotals;
+  byFeature: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+  byChannel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+}
+
+/**
+ * Daily spending limits in USD (days start at midnight UTC)
+ */
+export interface UsageBudget {
+  dailyUsd?: number;        // All users together
+  userDailyUsd?: number;    // Each user
+}
+
+/**
+ * Today's spend against the configured budget
+ */
+export interface BudgetStatus {
+  exceeded: boolean;
+  reason?: string;                                         // Set when exceeded
+  daily?: { spentUsd: number; limitUsd: number };
+  user?: { spentUsd: number; limitUsd: number };
+}
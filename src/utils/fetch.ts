@@ -35,6 +35,7 @@ export interface FetchOptions {
   retryDelay?: number;
   maxSize?: number;
   followRedirects?: boolean;
+  parseJson?: boolean;   // Parse application/json bodies (default: true); false returns the raw text
 }
 
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
@@ -86,6 +87,7 @@ export async function fetchUrl<T = unknown>(
     retries = DEFAULT_RETRIES,
     retryDelay = DEFAULT_RETRY_DELAY,
     maxSize = DEFAULT_MAX_SIZE,
+    parseJson = true,
   } = options;
 
   const startTime = Date.now();
@@ -155,7 +157,22 @@ export async function fetchUrl<T = unknown>(
 
       try {
         const text = await response.text();
-        if (contentType.includes('application/json')) {
+
+        // Not every server sends Content-Length
+        if (Buffer.byteLength(text) > maxSize) {
+          return {
+            success: false,
+            error: `Response too large: exceeds max size of ${maxSize} bytes`,
+            errorType: 'PARSE_ERROR',
+            statusCode: response.status,
+            statusText: response.statusText,
+            headers: responseHeaders,
+            responseTime,
+            url,
+          };
+        }
+
+        if (parseJson && contentType.includes('application/json')) {
           data = JSON.parse(text) as T;
         } else {
           data = text as unknown as T;
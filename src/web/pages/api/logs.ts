@@ -36,7 +36,7 @@ function getPool(): pg.Pool | null {
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { limit = '100', filter = '' } = req.query;
+  const { limit = '100', filter = '', tool = '' } = req.query;
   const limitNum = Math.min(parseInt(limit as string, 10) || 100, 1000);
   const filterStr = (filter as string).toLowerCase();
 
@@ -53,9 +53,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     `;
     const params: string[] = [];
 
+    const conditions: string[] = [];
+
     if (filterStr) {
-      query += ` WHERE LOWER(message) LIKE $1 OR LOWER(source) LIKE $1 OR LOWER(log_level) LIKE $1`;
       params.push(`%${filterStr}%`);
+      conditions.push(`(LOWER(message) LIKE $${params.length} OR LOWER(source) LIKE $${params.length} OR LOWER(log_level) LIKE $${params.length})`);
+    }
+
+    // Per-tool view of Claude activity (metadata.tool is set on tool call/result logs)
+    if (tool) {
+      params.push(tool as string);
+      conditions.push(`metadata->>'tool' = $${params.length}`);
+    }
+
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
     }
 
     query += ` ORDER BY timestamp DESC LIMIT ${limitNum}`;
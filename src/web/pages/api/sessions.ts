@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getPool, isDbAvailable } from '../../../db/index.js';
+import { queueCancelRequest } from '../../../arbiter/cancelRequests.js';
+
+interface SessionRow {
+  id: string;
+  status: string;
+  branchName: string;
+  channelName: string;
+  triggeredBy: string;
+  description: string;
+  commits: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SessionsResponse {
+  sessions: SessionRow[];
+  queued?: boolean;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SessionsResponse>
+) {
+  const pool = getPool();
+
+  if (!pool || !isDbAvailable()) {
+    return res.status(503).json({ sessions: [], error: 'Database not available' });
+  }
+
+  // POST { sessionId, keepWip } - ask the bot to cancel a running session
+  if (req.method === 'POST') {
+    const { sessionId, keepWip } = req.body ?? {};
+    if (typeof sessionId !== 'string' || !/^sess-[\w-]+$/.test(sessionId)) {
+      return res.status(400).json({ sessions: [], error: 'Invalid session ID' });
+    }
+
+    try {
+      await queueCancelRequest({ sessionId, keepWip: keepWip === true, requestedBy: 'dashboard' });
+      return res.status(202).json({ sessions: [], queued: true });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[API/Sessions] Error queueing cancel request:', err);
+      return res.status(500).json({ sessions: [], error: `Failed to cancel session: ${message}` });
+    }
+  }
+
+  try {
+    // The table only exists once the bot has saved a session with the postgres store
+    const exists = await pool.query<{ name: string | null }>(`SELECT to_regclass('work_sessions') AS name`);
+    if (!exists.rows[0]?.name) {
+      return res.status(200).json({ sessions: [] });
+    }
+
+    const result = await pool.query<{
+      id: string;
+      status: string;
+      branch_name: string;
+      created_at: Date;
+      updated_at: Date;
+      data: {
+        triggeredBy?: { authorName?: string; channelName?: string; content?: string };
+        commits?: unknown[];
+      };
+    }>(`
+      SELECT id, status, branch_name, created_at, updated_at, data
+      FROM work_sessions
+      ORDER BY updated_at DESC
+      LIMIT 100
+    `);
+
+    const sessions: SessionRow[] = result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      branchName: row.branch_name,
+      channelName: row.data.triggeredBy?.channelName || 'DM',
+      triggeredBy: row.data.triggeredBy?.authorName ?? 'unknown',
+      description: (row.data.triggeredBy?.content ?? '').slice(0, 120),
+      commits: row.data.commits?.length ?? 0,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    }));
+
+    res.status(200).json({ sessions });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[API/Sessions] Error fetching sessions:', err);
+    res.status(500).json({ sessions: [], error: `Failed to fetch sessions: ${message}` });
+  }
+}
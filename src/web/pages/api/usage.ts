@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getUsageLedger, startOfDay } from '../../../usage/index.js';
+import type { BudgetStatus, UsageSummary } from '../../../usage/index.js';
+
+interface UsageResponse {
+  summary: UsageSummary | null;
+  budget: BudgetStatus | null;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UsageResponse>
+) {
+  const { days = '1', userId, sessionId, channelId } = req.query;
+  const dayCount = Math.min(Math.max(parseInt(days as string, 10) || 1, 1), 365);
+
+  // Days are counted in UTC, like the budgets ("1" = today)
+  const since = startOfDay();
+  since.setUTCDate(since.getUTCDate() - (dayCount - 1));
+
+  try {
+    const ledger = getUsageLedger();
+    const summary = await ledger.summarize({
+      since,
+      userId: userId as string | undefined,
+      sessionId: sessionId as string | undefined,
+      channelId: channelId as string | undefined,
+    });
+    const budget = await ledger.checkBudget(userId as string | undefined);
+
+    res.status(200).json({ summary, budget });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error('[API/Usage] Error fetching usage:', err);
+    res.status(500).json({ summary: null, budget: null, error: `Failed to fetch usage: ${message}` });
+  }
+}
@@ -106,6 +106,12 @@ export default function BrowsePage() {
         <Link href="/profiles" style={{ color: '#4da6ff', textDecoration: 'none' }}>
           Profiles
         </Link>
+        <Link href="/usage" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Sessions
+        </Link>
       </nav>
 
       <div style={{ marginBottom: '20px', display: 'flex', alignItems: 'center', gap: '20px' }}>
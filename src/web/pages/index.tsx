@@ -30,6 +30,12 @@ export default function HomePage() {
         <Link href="/profiles" style={{ color: '#4da6ff', textDecoration: 'none' }}>
           Profiles
         </Link>
+        <Link href="/usage" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Sessions
+        </Link>
       </nav>
 
       {/* Hero Section */}
@@ -178,6 +184,30 @@ export default function HomePage() {
           }}>
             User Profiles
           </Link>
+          <Link href="/usage" style={{
+            display: 'inline-block',
+            padding: '12px 24px',
+            backgroundColor: '#16213e',
+            color: '#eab308',
+            textDecoration: 'none',
+            borderRadius: '6px',
+            fontWeight: 'bold',
+            border: '1px solid #444'
+          }}>
+            Usage & Cost
+          </Link>
+          <Link href="/sessions" style={{
+            display: 'inline-block',
+            padding: '12px 24px',
+            backgroundColor: '#16213e',
+            color: '#f97316',
+            textDecoration: 'none',
+            borderRadius: '6px',
+            fontWeight: 'bold',
+            border: '1px solid #444'
+          }}>
+            Work Sessions
+          </Link>
         </div>
       </div>
 
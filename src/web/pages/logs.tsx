@@ -70,6 +70,12 @@ export default function LogsPage() {
         <Link href="/profiles" style={{ color: '#4da6ff', textDecoration: 'none' }}>
           Profiles
         </Link>
+        <Link href="/usage" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Sessions
+        </Link>
       </nav>
 
       <h1 style={{ color: '#a855f7', marginBottom: '20px' }}>System Logs</h1>
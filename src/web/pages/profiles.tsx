@@ -621,6 +621,12 @@ export default function ProfilesPage() {
         <Link href="/profiles" style={{ color: '#a855f7', textDecoration: 'none', fontWeight: 'bold' }}>
           Profiles
         </Link>
+        <Link href="/usage" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Sessions
+        </Link>
       </nav>
 
       <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
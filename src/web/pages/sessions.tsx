@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface SessionRow {
+  id: string;
+  status: string;
+  branchName: string;
+  channelName: string;
+  triggeredBy: string;
+  description: string;
+  commits: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SessionsResponse {
+  sessions: SessionRow[];
+  queued?: boolean;
+  error?: string;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  creating: '#4da6ff',
+  active: '#4da6ff',
+  committing: '#4da6ff',
+  rebasing: '#4da6ff',
+  reviewing: '#eab308',
+  completed: '#22c55e',
+  failed: '#ef4444',
+  abandoned: '#888',
+  interrupted: '#f97316',
+};
+
+// Only sessions with a Claude run in progress can be cancelled
+const CANCELLABLE = new Set(['creating', 'active']);
+
+const buttonStyle = {
+  backgroundColor: '#16213e',
+  border: '1px solid #444',
+  color: '#eee',
+  padding: '4px 10px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  marginRight: '6px'
+};
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchSessions = async () => {
+    try {
+      const res = await fetch('/api/sessions');
+      const data: SessionsResponse = await res.json();
+      setSessions(data.sessions);
+      setError(data.error ?? null);
+    } catch (err) {
+      setError('Failed to fetch sessions');
+    }
+  };
+
+  const cancel = async (sessionId: string, keepWip: boolean) => {
+    if (!confirm(`Cancel ${sessionId}${keepWip ? ' and keep its work in progress' : ''}?`)) return;
+
+    try {
+      const res = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, keepWip }),
+      });
+      const data: SessionsResponse = await res.json();
+      if (data.error) {
+        setError(data.error);
+      } else {
+        setNotice(`Cancel requested for ${sessionId} - the bot picks it up within a few seconds`);
+      }
+    } catch (err) {
+      setError('Failed to cancel session');
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+    const interval = setInterval(fetchSessions, 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div style={{
+      fontFamily: 'monospace',
+      backgroundColor: '#1a1a2e',
+      color: '#eee',
+      minHeight: '100vh',
+      padding: '20px'
+    }}>
+      {/* Navigation */}
+      <nav style={{
+        display: 'flex',
+        gap: '20px',
+        marginBottom: '20px',
+        padding: '10px 15px',
+        backgroundColor: '#16213e',
+        borderRadius: '6px'
+      }}>
+        <Link href="/" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Home
+        </Link>
+        <Link href="/logs" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Logs
+        </Link>
+        <Link href="/browse" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Browse Files
+        </Link>
+        <Link href="/profiles" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Profiles
+        </Link>
+        <Link href="/usage" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#a855f7', textDecoration: 'none', fontWeight: 'bold' }}>
+          Sessions
+        </Link>
+      </nav>
+
+      <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+        <h1 style={{ color: '#a855f7', marginBottom: '10px' }}>Work Sessions</h1>
+        <p style={{ color: '#888', marginBottom: '25px' }}>
+          Self-edit sessions, most recent first. Cancelling stops the Claude run; "keep WIP" commits the work so far to the session branch instead of deleting it.
+        </p>
+
+        {error && (
+          <div style={{ color: '#ff6b6b', marginBottom: '20px' }}>{error}</div>
+        )}
+        {notice && (
+          <div style={{ color: '#22c55e', marginBottom: '20px' }}>{notice}</div>
+        )}
+
+        <div style={{
+          backgroundColor: '#16213e',
+          borderRadius: '8px',
+          padding: '15px'
+        }}>
+          {sessions.length === 0 ? (
+            <p style={{ color: '#666', margin: 0 }}>No sessions recorded</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+              <thead>
+                <tr style={{ color: '#888', textAlign: 'left' }}>
+                  <th style={{ padding: '6px' }}>Session</th>
+                  <th style={{ padding: '6px' }}>Status</th>
+                  <th style={{ padding: '6px' }}>Requested by</th>
+                  <th style={{ padding: '6px' }}>Request</th>
+                  <th style={{ padding: '6px', textAlign: 'right' }}>Commits</th>
+                  <th style={{ padding: '6px' }}>Updated</th>
+                  <th style={{ padding: '6px' }}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((s) => (
+                  <tr key={s.id} style={{ borderTop: '1px solid #333' }}>
+                    <td style={{ padding: '6px', wordBreak: 'break-all' }} title={s.branchName}>{s.id}</td>
+                    <td style={{ padding: '6px', color: STATUS_COLORS[s.status] ?? '#eee' }}>{s.status}</td>
+                    <td style={{ padding: '6px' }}>{s.triggeredBy} (#{s.channelName})</td>
+                    <td style={{ padding: '6px' }}>{s.description}</td>
+                    <td style={{ padding: '6px', textAlign: 'right' }}>{s.commits}</td>
+                    <td style={{ padding: '6px', color: '#888' }}>{new Date(s.updatedAt).toLocaleString()}</td>
+                    <td style={{ padding: '6px', whiteSpace: 'nowrap' }}>
+                      {CANCELLABLE.has(s.status) && (
+                        <>
+                          <button style={buttonStyle} onClick={() => cancel(s.id, false)}>Cancel</button>
+                          <button style={buttonStyle} onClick={() => cancel(s.id, true)}>Cancel &amp; keep WIP</button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageSummary {
+  since?: string;
+  total: UsageTotals;
+  byFeature: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+  byChannel: Record<string, UsageTotals>;
+  bySession: Record<string, UsageTotals>;
+}
+
+interface BudgetStatus {
+  exceeded: boolean;
+  reason?: string;
+  daily?: { spentUsd: number; limitUsd: number };
+  user?: { spentUsd: number; limitUsd: number };
+}
+
+interface UsageResponse {
+  summary: UsageSummary | null;
+  budget: BudgetStatus | null;
+  error?: string;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
+
+function formatTokens(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Record<string, UsageTotals> }) {
+  const entries = Object.entries(rows).sort(([, a], [, b]) => b.costUsd - a.costUsd);
+
+  return (
+    <div style={{
+      backgroundColor: '#16213e',
+      borderRadius: '8px',
+      padding: '15px',
+      marginBottom: '20px'
+    }}>
+      <h3 style={{ color: '#4da6ff', marginTop: 0 }}>{title}</h3>
+      {entries.length === 0 ? (
+        <p style={{ color: '#666', margin: 0 }}>No usage recorded</p>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr style={{ color: '#888', textAlign: 'left' }}>
+              <th style={{ padding: '6px' }}>Name</th>
+              <th style={{ padding: '6px', textAlign: 'right' }}>Calls</th>
+              <th style={{ padding: '6px', textAlign: 'right' }}>Input tokens</th>
+              <th style={{ padding: '6px', textAlign: 'right' }}>Output tokens</th>
+              <th style={{ padding: '6px', textAlign: 'right' }}>Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([name, totals]) => (
+              <tr key={name} style={{ borderTop: '1px solid #333' }}>
+                <td style={{ padding: '6px', wordBreak: 'break-all' }}>{name}</td>
+                <td style={{ padding: '6px', textAlign: 'right' }}>{totals.calls}</td>
+                <td style={{ padding: '6px', textAlign: 'right' }}>{formatTokens(totals.inputTokens)}</td>
+                <td style={{ padding: '6px', textAlign: 'right' }}>{formatTokens(totals.outputTokens)}</td>
+                <td style={{ padding: '6px', textAlign: 'right', color: '#eab308' }}>{formatUsd(totals.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [days, setDays] = useState('1');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = async () => {
+    try {
+      const res = await fetch(`/api/usage?days=${days}`);
+      const data: UsageResponse = await res.json();
+      setSummary(data.summary);
+      setBudget(data.budget);
+      setError(data.error ?? null);
+    } catch (err) {
+      setError('Failed to fetch usage');
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+    const interval = setInterval(fetchUsage, 10000);
+    return () => clearInterval(interval);
+  }, [days]);
+
+  return (
+    <div style={{
+      fontFamily: 'monospace',
+      backgroundColor: '#1a1a2e',
+      color: '#eee',
+      minHeight: '100vh',
+      padding: '20px'
+    }}>
+      {/* Navigation */}
+      <nav style={{
+        display: 'flex',
+        gap: '20px',
+        marginBottom: '20px',
+        padding: '10px 15px',
+        backgroundColor: '#16213e',
+        borderRadius: '6px'
+      }}>
+        <Link href="/" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Home
+        </Link>
+        <Link href="/logs" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Logs
+        </Link>
+        <Link href="/browse" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Browse Files
+        </Link>
+        <Link href="/profiles" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Profiles
+        </Link>
+        <Link href="/usage" style={{ color: '#a855f7', textDecoration: 'none', fontWeight: 'bold' }}>
+          Usage
+        </Link>
+        <Link href="/sessions" style={{ color: '#4da6ff', textDecoration: 'none' }}>
+          Sessions
+        </Link>
+      </nav>
+
+      <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+        <h1 style={{ color: '#a855f7', marginBottom: '10px' }}>Token Usage & Cost</h1>
+        <p style={{ color: '#888', marginBottom: '25px' }}>
+          LLM calls and Claude runs by feature, model, user, channel and session. Days start at midnight UTC.
+        </p>
+
+        <div style={{ marginBottom: '20px', display: 'flex', gap: '10px', alignItems: 'center' }}>
+          <span style={{ color: '#888', fontSize: '12px' }}>Period:</span>
+          <select
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            style={{
+              backgroundColor: '#16213e',
+              border: '1px solid #333',
+              color: '#eee',
+              padding: '6px 12px',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            <option value="1">Today</option>
+            <option value="7">Last 7 days</option>
+            <option value="30">Last 30 days</option>
+          </select>
+        </div>
+
+        {error && (
+          <div style={{ color: '#ff6b6b', marginBottom: '20px' }}>{error}</div>
+        )}
+
+        {budget?.exceeded && (
+          <div style={{
+            backgroundColor: '#3b1d1d',
+            border: '1px solid #ef4444',
+            borderRadius: '8px',
+            padding: '12px 15px',
+            marginBottom: '20px',
+            color: '#ff6b6b'
+          }}>
+            {budget.reason} - self-edits are refused until midnight UTC
+          </div>
+        )}
+
+        {summary && (
+          <>
+            <div style={{
+              backgroundColor: '#16213e',
+              borderRadius: '12px',
+              padding: '20px',
+              marginBottom: '25px',
+              display: 'grid',
+              gridTemplateColumns: 'repeat(4, 1fr)',
+              gap: '20px'
+            }}>
+              <div style={{ textAlign: 'center' }}>
+                <div style={{ color: '#a855f7', fontSize: '32px', fontWeight: 'bold' }}>
+                  {summary.total.calls}
+                </div>
+                <div style={{ color: '#888', fontSize: '12px' }}>Calls</div>
+              </div>
+              <div style={{ textAlign: 'center' }}>
+                <div style={{ color: '#4da6ff', fontSize: '32px', fontWeight: 'bold' }}>
+                  {formatTokens(summary.total.inputTokens + summary.total.outputTokens)}
+                </div>
+                <div style={{ color: '#888', fontSize: '12px' }}>Tokens</div>
+              </div>
+              <div style={{ textAlign: 'center' }}>
+                <div style={{ color: '#eab308', fontSize: '32px', fontWeight: 'bold' }}>
+                  {formatUsd(summary.total.costUsd)}
+                </div>
+                <div style={{ color: '#888', fontSize: '12px' }}>Cost</div>
+              </div>
+              <div style={{ textAlign: 'center' }}>
+                <div style={{ color: budget?.exceeded ? '#ef4444' : '#22c55e', fontSize: '32px', fontWeight: 'bold' }}>
+                  {budget?.daily ? `${formatUsd(budget.daily.spentUsd)} / ${formatUsd(budget.daily.limitUsd)}` : 'none'}
+                </div>
+                <div style={{ color: '#888', fontSize: '12px' }}>Daily Budget (today)</div>
+              </div>
+            </div>
+
+            <UsageTable title="By Feature" rows={summary.byFeature} />
+            <UsageTable title="By Model" rows={summary.byModel} />
+            <UsageTable title="By User" rows={summary.byUser} />
+            <UsageTable title="By Channel" rows={summary.byChannel} />
+            <UsageTable title="By Session" rows={summary.bySession} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+/**
+ * Tests for the apply_patch action (diffs applied and merged without Claude)
+ */
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { isBarePatch } from '../src/arbiter/decision.js';
+import { extractPatch, parseRejectOutput, stripPatch } from '../src/git/patch.js';
+import { ChatMessage } from '../src/types.js';
+import { Harness } from './harness.js';
+
+const APP = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve'].join('\n') + '\n';
+
+const CLEAN = `--- a/app.txt
++++ b/app.txt
+@@ -1,5 +1,5 @@
+ one
+-two
++TWO
+ three
+ four
+ five
+`;
+
+// The second hunk's context doesn't match ("twelve" isn't "twelve-typo")
+const STALE = `${CLEAN}@@ -8,5 +8,5 @@
+ eight
+ nine
+ ten
+-eleven
++ELEVEN
+ twelve-typo
+`;
+
+describe('extractPatch', () => {
+  it('finds fenced and pasted diffs', () => {
+    assert.equal(extractPatch(`please apply\n\`\`\`diff\n${CLEAN}\`\`\``), CLEAN);
+    assert.equal(extractPatch(`here you go:\n${CLEAN.trimEnd()}`), CLEAN);
+    assert.equal(extractPatch('```ts\nconst a = 1;\n```'), null);
+    assert.equal(extractPatch('--- a note ---\nnothing to see'), null);
+    assert.equal(stripPatch(`please apply\n\`\`\`diff\n${CLEAN}\`\`\``), 'please apply');
+  });
+});
+
+describe('isBarePatch', () => {
+  const message = (content: string, overrides: Partial<ChatMessage> = {}) =>
+    ({ id: '1', channelId: 'c', channelName: 'general', authorId: 'u', authorName: 'u', content, timestamp: new Date(), ...overrides }) as ChatMessage;
+
+  it('allows only a mention and a short "apply this" around the patch', () => {
+    assert.ok(isBarePatch(message(`\`\`\`diff\n${CLEAN}\`\`\``)));
+    assert.ok(isBarePatch(message(`<@123> please apply this patch\n\`\`\`diff\n${CLEAN}\`\`\``)));
+    assert.ok(!isBarePatch(message(`here's what I tried, thoughts?\n\`\`\`diff\n${CLEAN}\`\`\``)));
+    assert.ok(!isBarePatch(message('apply this and add a test', { attachments: [{ id: 'a', filename: 'fix.patch', url: '' }] })));
+    assert.ok(isBarePatch(message('apply this', { attachments: [{ id: 'a', filename: 'fix.patch', url: '' }] })));
+    assert.ok(!isBarePatch(message('apply this', { attachments: [{ id: 'a', filename: 'fix.patch', url: '' }, { id: 'b', filename: 'a.log', url: '' }] })));
+  });
+});
+
+describe('parseRejectOutput', () => {
+  it('reports hunks per file', () => {
+    const output = [
+      'Checking patch app.txt...',
+      'error: while searching for:',
+      'ten',
+      'error: patch failed: app.txt:8',
+      'Checking patch missing.txt...',
+      'error: missing.txt: No such file or directory',
+      'Applying patch app.txt with 1 reject...',
+      'Hunk #1 applied cleanly.',
+      'Rejected hunk #2.',
+    ].join('\n');
+    const patch = `${STALE}--- a/missing.txt\n+++ b/missing.txt\n@@ -1 +1 @@\n-a\n+b\n`;
+
+    assert.deepEqual(parseRejectOutput(output, patch), [
+      {
+        path: 'app.txt',
+        status: 'partial',
+        error: 'patch failed: app.txt:8',
+        hunks: [
+          { index: 1, header: '@@ -1,5 +1,5 @@', applied: true },
+          { index: 2, header: '@@ -8,5 +8,5 @@', applied: false },
+        ],
+      },
+      { path: 'missing.txt', status: 'failed', error: 'missing.txt: No such file or directory', hunks: [] },
+    ]);
+  });
+});
+
+describe('apply_patch in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create({
+      files: { 'app.txt': APP },
+      config: { patchCheckCommands: ['grep -q TWO app.txt'], verifyOnFailure: 'fix' },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('applies, checks and merges a pasted diff without Claude', async () => {
+    const exited = harness.waitForExit();
+    await harness.say(`apply this\n\`\`\`diff\n${CLEAN}\`\`\``, { mentionsBotId: true });
+
+    assert.equal(harness.claudeRuns.length, 0);
+    assert.equal(harness.decisions.getCalls().length, 0, 'bare patches are recognised without the model');
+    assert.match(await readFile(join(harness.repoPath, 'app.txt'), 'utf8'), /^one\nTWO\nthree/);
+    assert.ok((await harness.log()).includes('Apply patch: Apply patch to app.txt'));
+
+    const status = harness.transport.getSent('general').find((m) => m.content.includes('Applying patch'))!;
+    assert.match(status.content, /✓ Applied cleanly/);
+    assert.match(status.content, /▶️ `grep -q TWO app\.txt`/);
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.includes('Changes merged to main')));
+    await exited;
+  });
+
+  it('reports rejected hunks and leaves main alone', async () => {
+    await harness.say(`\`\`\`diff\n${STALE}\`\`\``, { mentionsBotId: true });
+
+    assert.equal(harness.claudeRuns.length, 0);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+    assert.equal(await harness.git('branch', '--list', 'arbiter/*'), '');
+
+    const report = harness.transport.getSent('general').find((m) => m.content.includes('Patch did not apply'));
+    assert.ok(report, 'expected a reject report');
+    assert.match(report.content, /⚠️ `app\.txt`\n {3}✓ hunk #1 `@@ -1,5 \+1,5 @@`\n {3}✗ hunk #2 `@@ -8,5 \+8,5 @@` rejected/);
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+
+  it('blocks the merge when the check fails instead of asking Claude to fix it', async () => {
+    const lowercase = CLEAN.replace('+TWO', '+deux');
+    await harness.say(`\`\`\`patch\n${lowercase}\`\`\``, { mentionsBotId: true });
+
+    assert.equal(harness.claudeRuns.length, 0);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.includes('`grep -q TWO app.txt` failed')));
+    assert.equal(harness.exitCodes.length, 0);
+  });
+
+  it('leaves a diff posted for discussion to the model', async () => {
+    await harness.say(`here's what I tried, thoughts?\n\`\`\`diff\n${CLEAN}\`\`\``);
+    await harness.say(`apply this\n\`\`\`diff\n${CLEAN}\`\`\``);
+
+    assert.equal(harness.decisions.getCalls().length, 2, 'a patch not addressed to the bot needs the model');
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+    assert.equal(await harness.git('branch', '--list', 'arbiter/*'), '');
+  });
+
+  it('leaves a patch with further instructions to the model', async () => {
+    await harness.say(`apply this and rename three to 3\n\`\`\`diff\n${CLEAN}\`\`\``, { mentionsBotId: true });
+
+    assert.equal(harness.decisions.getCalls().length, 1);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+  });
+});
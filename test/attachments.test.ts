@@ -0,0 +1,180 @@
+/**
+ * Tests for attachment ingestion into self-edit sessions
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { classifyAttachment, ingestAttachments } from '../src/claude/attachments.js';
+import { SlackTransport } from '../src/transports/slack.js';
+import { ArbiterDecision, Attachment, ChatMessage } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+
+const PATCH = `diff --git a/patched.txt b/patched.txt
+new file mode 100644
+--- /dev/null
++++ b/patched.txt
+@@ -0,0 +1 @@
++from a patch
+`;
+
+const FILES: Record<string, string> = {
+  '/fix.patch': PATCH,
+  '/error.log': 'TypeError: x is undefined\n    at main (src/index.ts:10:3)\n',
+  '/huge.log': 'x'.repeat(4096),
+  '/data.json': '{ "retries": 3 }\n',
+  '/broken.json': '{ "retries": ',
+};
+
+describe('classifyAttachment', () => {
+  it('sorts attachments by extension and content type', () => {
+    const kind = (filename: string, contentType?: string) => classifyAttachment({ id: '1', filename, url: '', contentType });
+    assert.equal(kind('fix.diff'), 'patch');
+    assert.equal(kind('changes', 'text/x-patch'), 'patch');
+    assert.equal(kind('crash.log'), 'text');
+    assert.equal(kind('data', 'application/json; charset=utf-8'), 'text');
+    assert.equal(kind('screenshot.png', 'image/png'), 'image');
+    assert.equal(kind('build.zip', 'application/zip'), 'other');
+  });
+});
+
+describe('Attachments in the pipeline', () => {
+  let harness: Harness;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      const body = req.url === '/private.log'
+        ? (req.headers.authorization === 'Bearer xoxb-test' ? 'private log\n' : undefined)
+        : FILES[req.url ?? ''];
+      const contentType = req.url?.endsWith('.json') ? 'application/json' : 'text/plain';
+      res.writeHead(body === undefined ? 404 : 200, { 'Content-Type': contentType });
+      res.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    harness = await Harness.create({ config: { attachmentMaxBytes: 1024 } });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('downloads attachments into the worktree, applies patches and tells Claude', async () => {
+    const attachments: Attachment[] = [
+      { id: 'a1', filename: 'fix.patch', url: `${baseUrl}/fix.patch` },
+      { id: 'a2', filename: 'error.log', url: `${baseUrl}/error.log`, contentType: 'text/plain' },
+      { id: 'a3', filename: 'screenshot.png', url: `${baseUrl}/screenshot.png`, contentType: 'image/png', size: 2048, description: 'Settings page with a broken toggle' },
+      { id: 'a4', filename: 'huge.log', url: `${baseUrl}/huge.log` },
+    ];
+    harness.decide(selfEdit);
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+    const exited = harness.waitForExit();
+
+    await harness.say('apply this fix and look at the error', { attachments });
+
+    const prompt = harness.claudeRuns[0].prompt;
+    assert.match(prompt, /## Attachments/);
+    assert.match(prompt, /\*\*fix\.patch\*\*.*saved to `\.arbiter-attachments\/a1-fix\.patch` - already applied/);
+    assert.match(prompt, /\*\*error\.log\*\*.*saved to `\.arbiter-attachments\/a2-error\.log`/);
+    assert.match(prompt, /\*\*screenshot\.png\*\*.*alt text: "Settings page with a broken toggle"/);
+    assert.match(prompt, /\*\*huge\.log\*\*.*not available: download failed: Response too large/);
+
+    // The patch is merged with Claude's changes; the scratch directory never is
+    assert.equal(await harness.git('show', 'main:patched.txt'), 'from a patch');
+    const files = (await harness.git('ls-tree', '-r', '--name-only', 'main')).split('\n');
+    assert.ok(files.includes('patched.txt'));
+    assert.ok(!files.some((f) => f.startsWith('.arbiter-attachments')), files.join(', '));
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.includes('✓ Applied fix.patch')));
+    await exited;
+  });
+
+  it('keeps downloads inside the scratch directory whatever the ID and filename say', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'arbiter-attachments-'));
+    try {
+      const worktree = join(root, 'worktree');
+      const message = {
+        authorName: 'tester',
+        attachments: [
+          { id: '../../escaped', filename: 'error.log', url: `${baseUrl}/error.log` },
+          { id: '..', filename: '..', url: `${baseUrl}/error.log`, contentType: 'text/plain' },
+        ],
+      } as ChatMessage;
+
+      const [first, second] = await ingestAttachments([message], worktree, { maxBytes: 1024, maxFiles: 10 });
+
+      assert.equal(first.path, join('.arbiter-attachments', 'escaped-error.log'));
+      assert.equal(second.path, join('.arbiter-attachments', 'attachment-attachment'));
+      assert.deepEqual((await readdir(root)).sort(), ['worktree']);
+      assert.deepEqual((await readdir(worktree)).sort(), ['.arbiter-attachments']);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('saves JSON attachments as sent, valid or not', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'arbiter-attachments-'));
+    try {
+      const message = {
+        authorName: 'tester',
+        attachments: [
+          { id: 'j1', filename: 'data.json', url: `${baseUrl}/data.json`, contentType: 'application/json' },
+          { id: 'j2', filename: 'broken.json', url: `${baseUrl}/broken.json`, contentType: 'application/json' },
+        ],
+      } as ChatMessage;
+
+      const [valid, broken] = await ingestAttachments([message], root, { maxBytes: 1024, maxFiles: 10 });
+
+      assert.equal(valid.path, join('.arbiter-attachments', 'j1-data.json'));
+      assert.equal(await readFile(join(root, valid.path), 'utf8'), FILES['/data.json']);
+      assert.equal(broken.path, join('.arbiter-attachments', 'j2-broken.json'));
+      assert.equal(await readFile(join(root, broken.path), 'utf8'), FILES['/broken.json']);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('downloads private files with the headers the transport supplies', async () => {
+    const slack = new SlackTransport({ botToken: 'xoxb-test', appToken: 'xapp-test' });
+    assert.deepEqual(slack.getAttachmentHeaders({ id: 'F1', filename: 'a.log', url: 'https://files.slack.com/files-pri/T1-F1/a.log' }), { Authorization: 'Bearer xoxb-test' });
+    assert.equal(slack.getAttachmentHeaders({ id: 'F1', filename: 'a.log', url: 'https://files.slack.com.evil.example/a.log' }), undefined);
+
+    const root = await mkdtemp(join(tmpdir(), 'arbiter-attachments-'));
+    try {
+      const message = { authorName: 'tester', attachments: [{ id: 'F1', filename: 'private.log', url: `${baseUrl}/private.log` }] } as ChatMessage;
+      const [withoutToken] = await ingestAttachments([message], root, { maxBytes: 1024, maxFiles: 10 });
+      const [withToken] = await ingestAttachments([message], root, { maxBytes: 1024, maxFiles: 10 }, () => ({ Authorization: 'Bearer xoxb-test' }));
+
+      assert.equal(withoutToken.path, undefined);
+      assert.equal(withToken.path, join('.arbiter-attachments', 'F1-private.log'));
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps a patch with further instructions on the Claude path', async () => {
+    harness.decide(selfEdit);
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+    const exited = harness.waitForExit();
+
+    await harness.say('apply this and add notes', {
+      mentionsBotId: true,
+      attachments: [{ id: 'a1', filename: 'fix.patch', url: `${baseUrl}/fix.patch` }],
+    });
+
+    assert.equal(harness.decisions.getCalls().length, 1, 'instructions beyond "apply this" need the model');
+    assert.equal(harness.claudeRuns.length, 1);
+    assert.match(harness.claudeRuns[0].prompt, /\*\*fix\.patch\*\*.*already applied/);
+    assert.equal(await harness.git('show', 'main:patched.txt'), 'from a patch');
+    assert.equal(await harness.git('show', 'main:notes.md'), 'hello');
+    await exited;
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for role-based authorization
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { Authorizer, AuthSubject, loadAuthorization } from '../src/arbiter/authorization.js';
+
+function subject(overrides: Partial<AuthSubject> = {}): AuthSubject {
+  return { authorId: '111', authorName: 'tester', channelId: 'c1', ...overrides };
+}
+
+describe('Authorizer', () => {
+  const authorizer = new Authorizer({
+    defaultRole: 'viewer',
+    users: { '111': 'requester' },
+    roles: { '900': 'maintainer' },
+  });
+
+  it('grants roles by user and role ID', () => {
+    assert.equal(authorizer.getRole(subject()), 'requester');
+    assert.equal(authorizer.getRole(subject({ authorId: '222', authorRoles: ['900'] })), 'maintainer');
+    assert.equal(authorizer.check(subject(), 'merge').allowed, false);
+    assert.equal(authorizer.check(subject({ authorRoles: ['900'] }), 'merge').allowed, true);
+  });
+
+  it('ignores display names and role names', () => {
+    assert.equal(authorizer.getRole(subject({ authorId: '222', authorName: '111' })), 'viewer');
+    assert.equal(authorizer.getRole(subject({ authorId: '222', authorRoles: ['Maintainers'] })), 'viewer');
+  });
+});
+
+describe('loadAuthorization', () => {
+  it('refuses roles keyed by name', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arbiter-auth-'));
+    try {
+      const path = join(dir, 'authorization.json');
+      await writeFile(path, JSON.stringify({ roles: { '900': 'maintainer' } }));
+      assert.deepEqual(loadAuthorization(path), { defaultRole: 'viewer', users: {}, roles: { '900': 'maintainer' } });
+
+      await writeFile(path, JSON.stringify({ roles: { Maintainers: 'maintainer' } }));
+      assert.throws(() => loadAuthorization(path), /Roles must be keyed by role ID, not name/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
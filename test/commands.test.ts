@@ -0,0 +1,177 @@
+/**
+ * Tests for "!arbiter" session control commands
+ */
+
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { formatDiff, parseArbiterCommand } from '../src/arbiter/commands.js';
+import { ArbiterDecision } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+
+describe('parseArbiterCommand', () => {
+  it('parses commands and their optional IDs', () => {
+    assert.deepEqual(parseArbiterCommand('!arbiter status'), { name: 'status' });
+    assert.deepEqual(parseArbiterCommand('!ARBITER cancel queue-4'), { name: 'cancel', id: 'queue-4' });
+    assert.deepEqual(parseArbiterCommand('!arbiter cancel sess-1 keep'), { name: 'cancel', id: 'sess-1', keepWip: true });
+    assert.deepEqual(parseArbiterCommand('!arbiter cancel keep'), { name: 'cancel', id: undefined, keepWip: true });
+    assert.deepEqual(parseArbiterCommand('!arbiter diff'), { name: 'diff', sessionId: undefined });
+    assert.deepEqual(parseArbiterCommand('!arbiter restart picked up new config'), { name: 'restart', reason: 'picked up new config' });
+    assert.deepEqual(parseArbiterCommand('!arbiter'), { name: 'help' });
+    assert.match((parseArbiterCommand('!arbiter logs 42') as { error?: string }).error ?? '', /isn't a session ID/);
+    assert.match((parseArbiterCommand('!arbiter deploy') as { error?: string }).error ?? '', /Unknown command `deploy`/);
+    assert.equal(parseArbiterCommand('what does !arbiter status do?'), null);
+    assert.equal(parseArbiterCommand('!arbiters'), null);
+  });
+});
+
+describe('formatDiff', () => {
+  it('keeps fences inside the diff from closing the code block', () => {
+    const formatted = formatDiff('sess-1', '+```ts\n+const a = 1;\n+```\n', 2000);
+    assert.equal(formatted.match(/```/g)!.length, 2, 'only the opening and closing fences');
+    assert.ok(formatted.endsWith('+`\u200b``\n```'));
+  });
+});
+
+describe('Arbiter commands in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('inspects and cancels a running session', async () => {
+    harness.decide(selfEdit);
+    harness.scriptClaude({ ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise(() => {}) });
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const [active] = harness.coordinator.getActiveSessions();
+    const last = () => harness.transport.getSent('general').at(-1)!.content;
+
+    await harness.say('!arbiter sessions');
+    assert.match(last(), new RegExp(`Active sessions \\(1\\)\\*\\*\\n• \`${active.id}\` - general, tester, \\d+s: please add a notes file`));
+
+    await harness.say('!arbiter status');
+    assert.match(last(), /State: running/);
+    assert.match(last(), /Sessions: 1 running, 0 queued, 0 awaiting review/);
+
+    await harness.say('!arbiter diff');
+    assert.match(last(), /```diff\n[\s\S]*new file mode[\s\S]*\+hello/);
+    const { stdout: status } = await promisify(execFile)('git', ['status', '--porcelain'], { cwd: harness.arbiter.getSession(active.id)!.worktreePath });
+    assert.match(status, /^\?\? notes\.md$/m, 'showing the diff leaves the index alone');
+
+    await harness.say('!arbiter logs');
+    assert.match(last(), new RegExp(`Logs for \`${active.id}\``));
+    assert.match(last(), /Created self-edit session/);
+
+    await harness.say(`!arbiter cancel ${active.id}`);
+    await editing;
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.startsWith('🛑 Cancelling')));
+
+    assert.equal(harness.claudeRuns[0].aborted, true);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /🛑 \*\*Session Cancelled\*\*\n\nCancelled by tester\.[\s\S]*has been deleted/);
+    assert.equal(harness.arbiter.getSession(active.id)?.status, 'abandoned');
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+
+    await harness.say('!arbiter cancel');
+    assert.match(last(), /There's no running session in this channel/);
+  });
+
+  it('keeps the work in progress on its branch when cancelled by a signal', async () => {
+    harness.decide(selfEdit);
+    harness.scriptClaude({ ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise(() => {}) });
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const [active] = harness.coordinator.getActiveSessions();
+    const branch = harness.arbiter.getSession(active.id)!.branchName;
+
+    harness.coordinator.emit('signal', 'SIGTERM');
+    await editing;
+
+    assert.equal(harness.claudeRuns[0].aborted, true);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, new RegExp(`Work in progress kept on branch \`${branch}\``));
+    assert.equal(harness.arbiter.getSession(active.id)?.status, 'abandoned');
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.match(await harness.git('log', '-1', '--format=%B', branch), /^WIP: please add a notes file\n\nCancelled by: SIGTERM/);
+    assert.equal(await harness.git('show', `${branch}:notes.md`), 'hello');
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+  });
+
+  it('cancels a verification fix-up run', async () => {
+    await harness.close();
+    harness = await Harness.create({ config: { verifyCommands: ['test -f fixed.txt'], verifyOnFailure: 'fix' } });
+    harness.decide(selfEdit);
+    harness.scriptClaude(
+      editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'),
+      { ...editRun({ 'fixed.txt': 'fixed\n' }, 'Fixed the check'), pauseUntil: new Promise(() => {}) }
+    );
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 2);
+    const [active] = harness.coordinator.getActiveSessions();
+
+    await harness.say(`!arbiter cancel ${active.id}`);
+    await editing;
+
+    assert.equal(harness.claudeRuns[1].aborted, true);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /Session Cancelled/);
+    assert.equal(harness.arbiter.getSession(active.id)?.status, 'abandoned');
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+  });
+
+  it('cancels a conflict resolution run', async () => {
+    let releaseEdit!: () => void;
+    harness.decide(selfEdit);
+    harness.scriptClaude(
+      { ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise<void>((resolve) => { releaseEdit = resolve; }) },
+      { ...editRun({}, 'Resolving'), pauseUntil: new Promise(() => {}) }
+    );
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const [active] = harness.coordinator.getActiveSessions();
+
+    // Someone else lands a conflicting notes.md on main meanwhile
+    await writeFile(join(harness.repoPath, 'notes.md'), 'goodbye\n');
+    await harness.git('add', 'notes.md');
+    await harness.git('commit', '-q', '-m', 'Conflicting notes');
+    releaseEdit();
+
+    await harness.waitFor(() => harness.claudeRuns.length === 2);
+    assert.equal(harness.claudeRuns[1].workdir, harness.repoPath);
+    await harness.say(`!arbiter cancel ${active.id}`);
+    await editing;
+
+    assert.equal(harness.claudeRuns[1].aborted, true);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /Session Cancelled/);
+    assert.equal(harness.arbiter.getSession(active.id)?.status, 'abandoned');
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.deepEqual(await harness.log(), ['Conflicting notes', 'Initial commit']);
+    assert.equal(await harness.git('status', '--porcelain'), '');
+  });
+
+  it('restarts on request, for maintainers only', async () => {
+    harness.arbiter.setAuthorization({ defaultRole: 'requester', users: { 'admin-1': 'maintainer' }, roles: {} });
+
+    await harness.say('!arbiter restart');
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /restart the bot/);
+
+    const exited = harness.waitForExit();
+    await harness.say('!arbiter restart config change', { authorId: 'admin-1', authorName: 'admin' });
+    await exited;
+    assert.deepEqual(harness.exitCodes, [0]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Fake Forge Server
+ * In-memory stand-in for the GitHub pull request REST endpoints, so PR mode
+ * can be exercised locally and in tests (point FORGE_API_URL at it)
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+/**
+ * A pull request held by the fake server
+ */
+export interface FakePullRequest {
+  number: number;
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+  state: 'open' | 'closed';
+  merged: boolean;
+  owner: string;
+  repo: string;
+}
+
+export class FakeForgeServer {
+  private server: Server | null = null;
+  private pulls: Map<number, FakePullRequest> = new Map();
+  private nextNumber = 1;
+  private baseUrl = '';
+
+  /**
+   * Start listening (port 0 picks a free port)
+   * @returns the API base URL
+   */
+  async start(port = 0, host = '127.0.0.1'): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.sendJson(res, 500, { message: String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(port, host, resolve));
+    const address = this.server.address() as AddressInfo;
+    this.baseUrl = `http://${host}:${address.port}`;
+    console.log(`[FakeForge] Listening on ${this.baseUrl}`);
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * All pull requests opened so far
+   */
+  getPullRequests(): FakePullRequest[] {
+    return Array.from(this.pulls.values());
+  }
+
+  /**
+   * Simulate a pull request being merged on the forge
+   */
+  merge(number: number): void {
+    const pr = this.pulls.get(number);
+    if (pr) {
+      pr.state = 'closed';
+      pr.merged = true;
+    }
+  }
+
+  /**
+   * Simulate a pull request being closed without merging
+   */
+  close(number: number): void {
+    const pr = this.pulls.get(number);
+    if (pr) {
+      pr.state = 'closed';
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const match = url.pathname.match(/^\/repos\/([^/]+)\/([^/]+)\/pulls(?:\/(\d+))?$/);
+    if (!match) {
+      this.sendJson(res, 404, { message: 'Not Found' });
+      return;
+    }
+    const [, owner, repo, numberParam] = match;
+
+    if (!req.headers.authorization) {
+      this.sendJson(res, 401, { message: 'Requires authentication' });
+      return;
+    }
+
+    if (req.method === 'POST' && !numberParam) {
+      const body = JSON.parse(await this.readBody(req) || '{}');
+      if (!body.title || !body.head || !body.base) {
+        this.sendJson(res, 422, { message: 'Validation Failed' });
+        return;
+      }
+
+      const pr: FakePullRequest = {
+        number: this.nextNumber++,
+        title: body.title,
+        body: body.body ?? '',
+        head: body.head,
+        base: body.base,
+        state: 'open',
+        merged: false,
+        owner,
+        repo,
+      };
+      this.pulls.set(pr.number, pr);
+      this.sendJson(res, 201, this.toResource(pr));
+      return;
+    }
+
+    if (req.method === 'GET' && numberParam) {
+      const pr = this.pulls.get(parseInt(numberParam, 10));
+      if (!pr || pr.owner !== owner || pr.repo !== repo) {
+        this.sendJson(res, 404, { message: 'Not Found' });
+        return;
+      }
+      this.sendJson(res, 200, this.toResource(pr));
+      return;
+    }
+
+    this.sendJson(res, 405, { message: 'Method Not Allowed' });
+  }
+
+  private toResource(pr: FakePullRequest): object {
+    return {
+      number: pr.number,
+      html_url: `${this.baseUrl}/${pr.owner}/${pr.repo}/pull/${pr.number}`,
+      state: pr.state,
+      merged: pr.merged,
+      title: pr.title,
+      body: pr.body,
+      head: { ref: pr.head },
+      base: { ref: pr.base },
+    };
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString('utf8'); });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Fake Claude Runner
+ * Plays scripted runs instead of spawning the Claude CLI: writes the files
+ * the run would have edited, then emits recorded stream-json events through
+ * the same parsing and onOutput callbacks as the real runner
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { ClaudeRunner, ClaudeRunnerConfig, ClaudeRunResult } from '../src/claude/runner.js';
+import { ClaudeUsage, StreamParser } from '../src/claude/streamParser.js';
+
+/**
+ * One scripted Claude run
+ */
+export interface ScriptedClaudeRun {
+  events: (string | object)[];       // stream-json lines (objects are serialized)
+  files?: Record<string, string>;    // Worktree-relative files written before the events play
+  exitCode?: number;
+  pauseUntil?: Promise<unknown>;     // Hold the run after writing files until this settles (or the run is aborted)
+}
+
+/**
+ * A run the fake runner performed
+ */
+export interface FakeClaudeRun {
+  workdir: string;
+  prompt: string;
+  permissionMode?: ClaudeRunnerConfig['permissionMode'];
+  aborted: boolean;
+}
+
+export class FakeClaudeRunner extends ClaudeRunner {
+  private abortRequested = false;
+  private wakeOnAbort: (() => void) | null = null;
+  private readonly history: FakeClaudeRun[];
+
+  /**
+   * Scripts and history can be shared so a factory can hand out one runner per run:
+   * each run() takes the next script and records itself in the history
+   */
+  constructor(private scripts: ScriptedClaudeRun[], history: FakeClaudeRun[] = []) {
+    super();
+    this.history = history;
+  }
+
+  async run(config: ClaudeRunnerConfig): Promise<ClaudeRunResult> {
+    const { workdir, prompt, onOutput, permissionMode } = config;
+    const script = this.scripts.shift();
+    const record: FakeClaudeRun = { workdir, prompt, permissionMode, aborted: false };
+    this.history.push(record);
+
+    if (!script) {
+      return { exitCode: 1, summary: 'No scripted Claude run left', success: false };
+    }
+
+    for (const [path, content] of Object.entries(script.files ?? {})) {
+      const fullPath = join(workdir, path);
+      await mkdir(dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, content);
+    }
+
+    if (script.pauseUntil && !this.abortRequested) {
+      await Promise.race([script.pauseUntil, new Promise<void>((resolve) => { this.wakeOnAbort = resolve; })]);
+    }
+
+    const parser = new StreamParser(workdir);
+    let lastContent = '';
+    let usage: ClaudeUsage | undefined;
+    for (const line of script.events) {
+      // Like a killed process, an aborted run stops producing output
+      if (this.abortRequested) break;
+
+      for (const event of parser.parse(typeof line === 'string' ? line : JSON.stringify(line))) {
+        lastContent = event.content || lastContent;
+        usage = event.usage ?? usage;
+        await onOutput?.(event);
+        this.emit('output', event);
+      }
+    }
+
+    record.aborted = this.abortRequested;
+    const exitCode = this.abortRequested ? 143 : script.exitCode ?? 0;
+    return {
+      exitCode,
+      summary: lastContent || 'No output captured',
+      success: exitCode === 0,
+      usage,
+    };
+  }
+
+  abort(): void {
+    this.abortRequested = true;
+    this.wakeOnAbort?.();
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Fake Slack Server
+ * In-memory stand-in for the Web API methods and Socket Mode connection the
+ * Slack transport uses (point SLACK_API_URL at `<url>/api`)
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebSocket, WebSocketServer } from 'ws';
+
+export const BOT_TOKEN = 'xoxb-fake';
+export const APP_TOKEN = 'xapp-fake';
+export const BOT_USER_ID = 'UBOT';
+
+/**
+ * A message posted through chat.postMessage (edits update it in place)
+ */
+export interface FakeSlackMessage {
+  channel: string;
+  ts: string;
+  text: string;
+  thread_ts?: string;
+}
+
+export class FakeSlackServer {
+  private server: Server | null = null;
+  private sockets: WebSocketServer | null = null;
+  private socket: WebSocket | null = null;
+  private baseUrl = '';
+  private nextTs = 1;
+  private nextEnvelope = 1;
+  private acks: Map<string, () => void> = new Map();
+
+  readonly posted: FakeSlackMessage[] = [];
+  readonly reactions: { channel: string; timestamp: string; name: string }[] = [];
+  readonly users: Map<string, string> = new Map([[BOT_USER_ID, 'arbiter']]);
+  readonly channels: Map<string, string> = new Map();
+  connections = 0;             // Socket Mode connections opened so far
+  failConnections = 0;         // Refuse this many apps.connections.open calls (a Slack outage)
+
+  /**
+   * Start listening on a free port
+   * @returns the Web API base URL
+   */
+  async start(): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.sendJson(res, 500, { ok: false, error: String(error) });
+      });
+    });
+    this.sockets = new WebSocketServer({ server: this.server, path: '/socket' });
+    this.sockets.on('connection', (socket) => {
+      this.socket = socket;
+      this.connections++;
+      socket.on('message', (data) => {
+        const { envelope_id } = JSON.parse(data.toString()) as { envelope_id?: string };
+        if (envelope_id) {
+          this.acks.get(envelope_id)?.();
+          this.acks.delete(envelope_id);
+        }
+      });
+      socket.send(JSON.stringify({ type: 'hello' }));
+    });
+
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return `${this.baseUrl}/api`;
+  }
+
+  async stop(): Promise<void> {
+    for (const client of this.sockets?.clients ?? []) {
+      client.terminate();
+    }
+    await new Promise<void>((resolve) => this.sockets?.close(() => resolve()) ?? resolve());
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()) ?? resolve());
+    this.server = null;
+    this.sockets = null;
+  }
+
+  /**
+   * Deliver an Events API event over the socket
+   * @returns once the transport has acknowledged the envelope
+   */
+  deliver(event: object): Promise<void> {
+    return this.send({ type: 'events_api', payload: { event } });
+  }
+
+  /**
+   * Send a raw Socket Mode frame; an envelope_id is added so the ack can be awaited
+   */
+  send(frame: object): Promise<void> {
+    if (!this.socket) {
+      throw new Error('No Socket Mode connection');
+    }
+    const envelopeId = `env-${this.nextEnvelope++}`;
+    const acked = new Promise<void>((resolve) => this.acks.set(envelopeId, resolve));
+    this.socket.send(JSON.stringify({ envelope_id: envelopeId, ...frame }));
+    return acked;
+  }
+
+  /**
+   * Drop the Socket Mode connection, as a network blip would
+   */
+  dropSocket(): void {
+    this.socket?.terminate();
+    this.socket = null;
+  }
+
+  /**
+   * Send a frame that isn't an envelope at all
+   */
+  sendRaw(data: string): void {
+    this.socket?.send(data);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = new URL(req.url ?? '/', this.baseUrl).pathname.replace(/^\/api\//, '');
+    const params = new URLSearchParams(await this.readBody(req));
+    const token = req.headers.authorization?.replace(/^Bearer /, '');
+
+    const expected = method === 'apps.connections.open' ? APP_TOKEN : BOT_TOKEN;
+    if (token !== expected) {
+      this.sendJson(res, 200, { ok: false, error: 'invalid_auth' });
+      return;
+    }
+
+    switch (method) {
+      case 'auth.test':
+        this.sendJson(res, 200, { ok: true, user_id: BOT_USER_ID, user: 'arbiter' });
+        return;
+
+      case 'apps.connections.open':
+        if (this.failConnections > 0) {
+          this.failConnections--;
+          this.sendJson(res, 200, { ok: false, error: 'internal_error' });
+          return;
+        }
+        this.sendJson(res, 200, { ok: true, url: `${this.baseUrl.replace(/^http/, 'ws')}/socket` });
+        return;
+
+      case 'chat.postMessage': {
+        const message: FakeSlackMessage = {
+          channel: params.get('channel')!,
+          ts: `1700000000.${String(this.nextTs++).padStart(6, '0')}`,
+          text: params.get('text') ?? '',
+          thread_ts: params.get('thread_ts') ?? undefined,
+        };
+        this.posted.push(message);
+        this.sendJson(res, 200, { ok: true, channel: message.channel, ts: message.ts });
+        return;
+      }
+
+      case 'chat.update': {
+        const message = this.posted.find((m) => m.channel === params.get('channel') && m.ts === params.get('ts'));
+        if (!message) {
+          this.sendJson(res, 200, { ok: false, error: 'message_not_found' });
+          return;
+        }
+        message.text = params.get('text') ?? '';
+        this.sendJson(res, 200, { ok: true });
+        return;
+      }
+
+      case 'reactions.add':
+        this.reactions.push({ channel: params.get('channel')!, timestamp: params.get('timestamp')!, name: params.get('name')! });
+        this.sendJson(res, 200, { ok: true });
+        return;
+
+      case 'conversations.history':
+      case 'conversations.replies': {
+        const channel = params.get('channel');
+        const thread = params.get('ts');
+        const messages = this.posted
+          .filter((m) => m.channel === channel && (method === 'conversations.history' ? !m.thread_ts : m.thread_ts === thread || m.ts === thread))
+          .map((m) => ({ type: 'message', ts: m.ts, thread_ts: m.thread_ts, text: m.text, user: BOT_USER_ID, bot_id: 'BBOT' }));
+        this.sendJson(res, 200, { ok: true, messages });
+        return;
+      }
+
+      case 'users.info': {
+        const name = this.users.get(params.get('user') ?? '');
+        this.sendJson(res, 200, name ? { ok: true, user: { name } } : { ok: false, error: 'user_not_found' });
+        return;
+      }
+
+      case 'conversations.info': {
+        const name = this.channels.get(params.get('channel') ?? '');
+        this.sendJson(res, 200, name ? { ok: true, channel: { name } } : { ok: false, error: 'channel_not_found' });
+        return;
+      }
+
+      default:
+        this.sendJson(res, 200, { ok: false, error: 'unknown_method' });
+    }
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => { body += chunk.toString('utf8'); });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
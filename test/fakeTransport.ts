@@ -0,0 +1,188 @@
+/**
+ * Fake transport - scripted in-memory chat for tests
+ * Messages are delivered programmatically and everything the arbiter sends,
+ * edits or reacts with is recorded for assertions
+ */
+
+import { BaseTransport } from '../src/transports/base.js';
+import { ChatMessage, ChatReaction, TransportType } from '../src/types.js';
+
+/**
+ * Configuration for the fake transport
+ */
+export interface FakeTransportConfig {
+  botId?: string;
+  botName?: string;
+  maxMessageLength?: number;
+  threads?: boolean;        // Support createThread (off by default, like most transports)
+}
+
+/**
+ * A message the arbiter sent, with its edit history
+ */
+export interface FakeSentMessage {
+  id: string;
+  channelId: string;
+  content: string;          // Latest content (after edits)
+  edits: string[];          // Previous contents, oldest first
+}
+
+/**
+ * A reaction the arbiter added
+ */
+export interface FakeReactionRecord {
+  messageId: string;
+  channelId: string;
+  emoji: string;
+}
+
+/**
+ * A thread the arbiter opened
+ */
+export interface FakeThreadRecord {
+  id: string;
+  parentChannelId: string;
+  messageId: string;
+  name: string;
+}
+
+export class FakeTransport extends BaseTransport {
+  type: TransportType = 'cli';    // Stands in for a real chat; 'cli' has no transport-specific handling
+  maxMessageLength: number;
+  createThread?: (channelId: string, messageId: string, name: string) => Promise<string>;
+
+  private botId: string;
+  private botName: string;
+  private sent: FakeSentMessage[] = [];
+  private reactions: FakeReactionRecord[] = [];
+  private threads: FakeThreadRecord[] = [];
+  private history: Map<string, ChatMessage[]> = new Map();
+  private messageCounter = 0;
+  private connected = false;
+
+  constructor(config: FakeTransportConfig = {}) {
+    super();
+    this.botId = config.botId ?? 'fake-bot';
+    this.botName = config.botName ?? 'Arbiter';
+    this.maxMessageLength = config.maxMessageLength ?? 2000;
+
+    if (config.threads) {
+      this.createThread = async (channelId, messageId, name) => {
+        const id = `thread-${++this.messageCounter}`;
+        this.threads.push({ id, parentChannelId: channelId, messageId, name });
+        return id;
+      };
+    }
+  }
+
+  async connect(): Promise<void> {
+    this.connected = true;
+    this.emitReady();
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  async send(channelId: string, content: string): Promise<void> {
+    await this.sendAndGetId(channelId, content);
+  }
+
+  async sendAndGetId(channelId: string, content: string): Promise<string> {
+    const id = `fake-${++this.messageCounter}`;
+    this.sent.push({ id, channelId, content, edits: [] });
+    this.record({
+      id,
+      content,
+      authorId: this.botId,
+      authorName: this.botName,
+      channelId,
+      channelName: channelId,
+      timestamp: new Date(),
+      transport: this.type,
+    });
+    return id;
+  }
+
+  async editMessage(channelId: string, messageId: string, content: string): Promise<void> {
+    const message = this.sent.find((m) => m.id === messageId && m.channelId === channelId);
+    if (!message) {
+      throw new Error(`Message ${messageId} not found in channel ${channelId}`);
+    }
+    message.edits.push(message.content);
+    message.content = content;
+  }
+
+  async react(messageId: string, channelId: string, emoji: string): Promise<void> {
+    this.reactions.push({ messageId, channelId, emoji });
+  }
+
+  async getMessageHistory(channelId: string, limit = 30): Promise<ChatMessage[]> {
+    return (this.history.get(channelId) ?? []).slice(-limit);
+  }
+
+  getBotId(): string {
+    return this.botId;
+  }
+
+  getBotName(): string {
+    return this.botName;
+  }
+
+  /**
+   * Deliver a user message and wait until the arbiter has finished handling it
+   */
+  async deliver(message: Partial<ChatMessage> & Pick<ChatMessage, 'content'>): Promise<ChatMessage> {
+    if (!this.connected) {
+      throw new Error('Fake transport is not connected');
+    }
+
+    const full: ChatMessage = {
+      id: `user-${++this.messageCounter}`,
+      authorId: 'user-1',
+      authorName: 'tester',
+      channelId: 'general',
+      channelName: 'general',
+      timestamp: new Date(),
+      transport: this.type,
+      ...message,
+    };
+    this.record(full);
+    await this.emitMessage(full);
+    return full;
+  }
+
+  /**
+   * Deliver a reaction from a user and wait until it has been handled
+   */
+  async deliverReaction(reaction: Partial<ChatReaction> & Pick<ChatReaction, 'messageId' | 'emoji'>): Promise<void> {
+    await this.emitReaction({
+      channelId: 'general',
+      authorId: 'user-1',
+      authorName: 'tester',
+      transport: this.type,
+      ...reaction,
+    });
+  }
+
+  /**
+   * Messages sent by the arbiter (optionally for one channel), oldest first
+   */
+  getSent(channelId?: string): FakeSentMessage[] {
+    return this.sent.filter((m) => !channelId || m.channelId === channelId);
+  }
+
+  getReactions(): FakeReactionRecord[] {
+    return [...this.reactions];
+  }
+
+  getThreads(): FakeThreadRecord[] {
+    return [...this.threads];
+  }
+
+  private record(message: ChatMessage): void {
+    const messages = this.history.get(message.channelId) ?? [];
+    messages.push(message);
+    this.history.set(message.channelId, messages);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for follow-up classification of messages posted during a session
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { classifyByRules } from '../src/arbiter/followUp.js';
+import { ArbiterDecision, ChatMessage, WorkSession } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+const ignore: ArbiterDecision = { shouldAct: false, confidence: 90, reason: 'Chatter', actionType: 'ignore' };
+const respond: ArbiterDecision = { shouldAct: true, confidence: 90, reason: 'Question', actionType: 'respond' };
+
+function message(content: string, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { id: 'm-2', content, authorId: 'user-2', authorName: 'other', channelId: 'general', ...extra } as ChatMessage;
+}
+
+describe('classifyByRules', () => {
+  const session = {
+    id: 'sess-1',
+    triggeredBy: message('add a dark mode', { id: 'm-1', authorId: 'user-1' }),
+    relatedMessages: [],
+    statusMessageIds: ['status-1'],
+    threadId: 'thread-1',
+  } as unknown as WorkSession;
+
+  it('settles replies, acknowledgements and the requester in the thread', () => {
+    assert.equal(classifyByRules(message('thanks', { replyToId: 'status-1' }), session)?.kind, 'follow_up', 'replies win');
+    assert.equal(classifyByRules(message('make it darker', { replyToId: 'm-1' }), session)?.kind, 'follow_up');
+    assert.equal(classifyByRules(message('lol nice!!'), session)?.kind, 'chatter');
+    assert.equal(classifyByRules(message('👍 🎉'), session)?.kind, 'chatter');
+    assert.equal(
+      classifyByRules(message('use #111 for the background', { authorId: 'user-1', threadId: 'thread-1' }), session)?.kind,
+      'follow_up'
+    );
+    assert.equal(classifyByRules(message('use #111 for the background', { threadId: 'thread-1' }), session), null, 'others go to the model');
+    assert.equal(classifyByRules(message('okay but what about the tests?'), session), null);
+  });
+});
+
+describe('Follow-ups in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('only feeds follow-ups to the running session', async () => {
+    harness.decide(selfEdit);
+    harness.scriptClaude({ ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise(() => {}) });
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const session = harness.arbiter.getSession(harness.coordinator.getActiveSessions()[0].id)!;
+    const statusMessage = harness.transport.getSent('general')[0];
+    assert.deepEqual(session.statusMessageIds, [statusMessage.id]);
+
+    // Small talk from someone else is settled by the rules and goes to the decision system
+    harness.decide(ignore, ignore, respond);
+    await harness.say('lol', { authorId: 'user-2', authorName: 'other' });
+    assert.equal(harness.followUps.getCalls().length, 0);
+
+    // The model sorts out the rest
+    harness.followUps.enqueue({ kind: 'chatter', reason: 'Talking about lunch' });
+    await harness.say('anyone up for lunch?', { authorId: 'user-2', authorName: 'other' });
+    harness.followUps.enqueue({ kind: 'new_request', reason: 'Unrelated question' });
+    await harness.say('what does the status command show?');
+    assert.equal(session.pendingMessages.length, 0);
+    assert.equal(harness.transport.getSent('general').at(-1)!.content, 'Sure thing!');
+
+    // A reply to the status message is always a follow-up
+    await harness.say('put it under docs/', { authorId: 'user-2', authorName: 'other', replyToId: statusMessage.id });
+    assert.deepEqual(session.pendingMessages.map((m) => m.content), ['put it under docs/']);
+    assert.equal(session.shouldCheckpoint, true);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /Got it!/);
+    assert.equal(harness.followUps.getCalls().length, 2);
+
+    await harness.say('!arbiter cancel');
+    await editing;
+  });
+});
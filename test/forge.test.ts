@@ -0,0 +1,85 @@
+/**
+ * Tests for pull request mode against the fake forge server
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { GitHubForge } from '../src/git/forge.js';
+import { ArbiterDecision, WorkSession } from '../src/types.js';
+import { FakeForgeServer } from './fakeForge.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+
+describe('Pull request mode', () => {
+  let forge: FakeForgeServer;
+  let harness: Harness;
+
+  beforeEach(async () => {
+    forge = new FakeForgeServer();
+    const apiUrl = await forge.start();
+    harness = await Harness.create({
+      config: { pullRequestPollMs: 20 },
+      forge: new GitHubForge({ apiUrl, owner: 'acme', repo: 'bot', token: 'forge-token' }),
+    });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    await forge.stop();
+  });
+
+  const openPullRequest = async () => {
+    harness.decide(selfEdit);
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+    const completed = new Promise<WorkSession>((resolve) => harness.arbiter.once('session:completed', resolve));
+    await harness.say('please add a notes file');
+    return completed;
+  };
+
+  it('pushes the branch and opens a pull request instead of merging', async () => {
+    const session = await openPullRequest();
+
+    const [pr] = forge.getPullRequests();
+    assert.equal(pr.owner, 'acme');
+    assert.equal(pr.head, session.branchName);
+    assert.equal(pr.base, 'main');
+    assert.match(pr.title, /^Self-edit: /);
+    assert.match(pr.body, new RegExp(`Session: \`${session.id}\``));
+    assert.deepEqual(session.pullRequest && { number: session.pullRequest.number, state: session.pullRequest.state }, { number: 1, state: 'open' });
+
+    assert.equal(await harness.gitOrigin('show', `${session.branchName}:notes.md`), 'hello');
+    assert.deepEqual(await harness.log(), ['Initial commit'], 'main is left to the forge');
+    assert.equal(harness.exitCodes.length, 0, 'no restart in PR mode');
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.includes('Pull request opened')));
+  });
+
+  it('announces a pull request merged on the forge', async () => {
+    const session = await openPullRequest();
+
+    forge.merge(1);
+    await harness.waitFor(() => harness.transport.getSent('general').some((m) => m.content.includes('PR #1 was merged')));
+    assert.equal(harness.arbiter.getSession(session.id)?.pullRequest?.state, 'merged');
+  });
+
+  it('announces a pull request closed without merging', async () => {
+    const session = await openPullRequest();
+
+    forge.close(1);
+    await harness.waitFor(() => harness.transport.getSent('general').some((m) => m.content.includes('PR #1 was closed without merging')));
+    assert.equal(harness.arbiter.getSession(session.id)?.pullRequest?.state, 'closed');
+  });
+
+  it('keeps the branch when the forge is unreachable', async () => {
+    await forge.stop();
+    harness.decide(selfEdit);
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+
+    await harness.say('please add a notes file');
+
+    const report = harness.transport.getSent('general').find((m) => m.content.includes('no pull request was opened'));
+    assert.ok(report, 'expected a failure report');
+    assert.match(report.content, /Branch `arbiter\/[^`]+` has been kept/);
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+});
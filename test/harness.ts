@@ -0,0 +1,246 @@
+/**
+ * Replay Test Harness
+ * Runs the real Arbiter pipeline against scripted inputs:
+ * - a FakeTransport that messages are delivered through and replies recorded on
+ * - FakeLlmProviders returning canned decisions and replies
+ * - a FakeClaudeRunner playing recorded stream-json runs
+ * - a throwaway git repository for the WorktreeManager
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { Arbiter } from '../src/arbiter/index.js';
+import { getCoordinator, SessionCoordinator } from '../src/arbiter/coordinator.js';
+import type { RateLimits } from '../src/arbiter/rateLimit.js';
+import { FakeClaudeRunner, FakeClaudeRun, ScriptedClaudeRun } from './fakeRunner.js';
+import { FakeLlmProvider, setLlmProvider } from '../src/llm/index.js';
+import type { ForgeAdapter } from '../src/git/forge.js';
+import { JsonFileSessionStore } from '../src/git/sessionStore.js';
+import { FakeTransport, FakeTransportConfig } from './fakeTransport.js';
+import { getUsageLedger, UsageLedger } from '../src/usage/index.js';
+import { ArbiterConfig, ArbiterDecision, ChatMessage } from '../src/types.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Neutral psychological analysis so profiling never consumes scripted replies
+ */
+const NEUTRAL_ANALYSIS = {
+  sentiment: { valence: 50, arousal: 50, dominance: 50 },
+  bigFiveSignals: {},
+  affinityImpact: { delta: 0, reasons: [] },
+  styleIndicators: {},
+  topics: [],
+  requestType: 'other',
+  observationType: 'none',
+};
+
+export interface HarnessOptions {
+  config?: Partial<ArbiterConfig>;
+  files?: Record<string, string>;     // Initial contents of the temporary repository
+  transport?: FakeTransportConfig;
+  persist?: boolean;                  // Keep sessions, the queue and rate limits in a JSON store, so restart() restores them
+  rateLimits?: RateLimits;
+  forge?: ForgeAdapter;               // Pull request mode; branches are pushed to a bare "origin" repository
+}
+
+export class Harness {
+  readonly decisions = new FakeLlmProvider();
+  readonly replies = new FakeLlmProvider('Sure thing!');
+  readonly followUps = new FakeLlmProvider({ kind: 'follow_up', reason: 'About the task in progress' });
+  readonly claudeScripts: ScriptedClaudeRun[] = [];
+  readonly claudeRuns: FakeClaudeRun[] = [];
+  readonly exitCodes: number[] = [];
+  readonly coordinator: SessionCoordinator = getCoordinator();
+  readonly usage: UsageLedger = getUsageLedger();
+  arbiter!: Arbiter;
+
+  transport: FakeTransport;
+
+  private exitWaiters: (() => void)[] = [];
+
+  private constructor(readonly repoPath: string, readonly worktreeBase: string, private options: HarnessOptions) {
+    this.transport = new FakeTransport(options.transport);
+  }
+
+  /**
+   * Create a temporary repository and start an arbiter wired to fakes
+   */
+  static async create(options: HarnessOptions = {}): Promise<Harness> {
+    const root = await mkdtemp(join(tmpdir(), 'arbiter-test-'));
+    const harness = new Harness(join(root, 'repo'), join(root, 'worktrees'), options);
+    await harness.initRepo(options.files ?? { 'README.md': '# Test repo\n' });
+
+    setLlmProvider('decision', harness.decisions);
+    setLlmProvider('respond', harness.replies);
+    setLlmProvider('followup', harness.followUps);
+    setLlmProvider('psychology', new FakeLlmProvider(NEUTRAL_ANALYSIS));
+    setLlmProvider('prompt', new FakeLlmProvider('Enhanced task description'));
+    harness.usage.clear();
+    harness.usage.setBudget({});
+
+    // Restarts are recorded instead of exiting the test process
+    harness.coordinator.setExitHandler((code) => {
+      harness.exitCodes.push(code);
+      harness.exitWaiters.splice(0).forEach((resolve) => resolve());
+    });
+
+    await harness.startArbiter();
+    return harness;
+  }
+
+  /**
+   * Stop the arbiter and start a fresh one (with a new transport) on the same repository,
+   * as the process would after a restart
+   */
+  async restart(): Promise<void> {
+    await this.waitFor(() => this.coordinator.canStartSession());
+    await this.arbiter.stop();
+    this.transport = new FakeTransport(this.options.transport);
+    await this.startArbiter();
+  }
+
+  /**
+   * Queue the decisions the decision model will return, in order
+   */
+  decide(...decisions: ArbiterDecision[]): void {
+    this.decisions.enqueue(...decisions);
+  }
+
+  /**
+   * Queue Claude runs, in order
+   */
+  scriptClaude(...runs: ScriptedClaudeRun[]): void {
+    this.claudeScripts.push(...runs);
+  }
+
+  /**
+   * Deliver a chat message and wait for the arbiter to finish handling it
+   */
+  say(content: string, overrides: Partial<ChatMessage> = {}): Promise<ChatMessage> {
+    return this.transport.deliver({ content, ...overrides });
+  }
+
+  /**
+   * Poll until a condition holds (e.g. a paused Claude run has started)
+   * @throws Error if it doesn't within the timeout
+   */
+  async waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Condition not met within ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  /**
+   * Wait for the coordinator to exit for a restart or shutdown
+   */
+  waitForExit(): Promise<void> {
+    return new Promise((resolve) => this.exitWaiters.push(resolve));
+  }
+
+  /**
+   * Run git in the temporary repository
+   */
+  async git(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: this.repoPath });
+    return stdout.trim();
+  }
+
+  /**
+   * Run git in the bare "origin" repository (pull request mode)
+   */
+  async gitOrigin(...args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd: join(this.repoPath, '..', 'origin.git') });
+    return stdout.trim();
+  }
+
+  /**
+   * Commit subjects on the default branch, newest first
+   */
+  async log(): Promise<string[]> {
+    const output = await this.git('log', '--format=%s', 'main');
+    return output.split('\n').filter(Boolean);
+  }
+
+  async close(): Promise<void> {
+    await this.arbiter.stop();
+    await rm(join(this.repoPath, '..'), { recursive: true, force: true });
+  }
+
+  private async startArbiter(): Promise<void> {
+    this.arbiter = new Arbiter({
+      confidenceThreshold: 70,
+      gitRepoPath: this.repoPath,
+      worktreeBasePath: this.worktreeBase,
+      defaultBranch: 'main',
+      ...this.options.config,
+    });
+    if (this.options.persist) {
+      this.arbiter.setSessionStore(new JsonFileSessionStore(join(this.repoPath, '..', 'sessions.json')));
+    }
+    if (this.options.rateLimits) {
+      this.arbiter.setRateLimits(this.options.rateLimits);
+    }
+    if (this.options.forge) {
+      this.arbiter.setForge(this.options.forge);
+    }
+    this.arbiter.setClaudeRunnerFactory(() => new FakeClaudeRunner(this.claudeScripts, this.claudeRuns));
+    this.arbiter.addTransport('fake', this.transport);
+    await this.arbiter.start();
+  }
+
+  private async initRepo(files: Record<string, string>): Promise<void> {
+    await execFileAsync('git', ['init', '-q', '-b', 'main', this.repoPath]);
+    await this.git('config', 'user.name', 'Arbiter Test');
+    await this.git('config', 'user.email', 'arbiter-test@example.com');
+    for (const [path, content] of Object.entries(files)) {
+      await writeFile(join(this.repoPath, path), content);
+    }
+    await this.git('add', '-A');
+    await this.git('commit', '-q', '-m', 'Initial commit');
+
+    if (this.options.forge) {
+      const origin = join(this.repoPath, '..', 'origin.git');
+      await execFileAsync('git', ['init', '-q', '--bare', '-b', 'main', origin]);
+      await this.git('remote', 'add', 'origin', origin);
+      await this.git('push', '-q', 'origin', 'main');
+    }
+  }
+}
+
+/**
+ * A recorded stream-json run that edits files and finishes successfully
+ */
+export function editRun(files: Record<string, string>, summary: string): ScriptedClaudeRun {
+  return {
+    files,
+    events: [
+      { type: 'system', subtype: 'init', message: 'Session started' },
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'Let me make that change.' }] } },
+      ...Object.entries(files).flatMap(([path, content]) => [
+        {
+          type: 'assistant',
+          message: { content: [{ type: 'tool_use', id: `tool-${path}`, name: 'Write', input: { file_path: path, content } }] },
+        },
+        {
+          type: 'user',
+          message: { content: [{ type: 'tool_result', tool_use_id: `tool-${path}`, content: `Wrote ${path}` }] },
+        },
+      ]),
+      {
+        type: 'result',
+        subtype: 'success',
+        result: summary,
+        usage: { input_tokens: 1000, output_tokens: 200, cache_read_input_tokens: 500 },
+        total_cost_usd: 0.05,
+      },
+    ],
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * End-to-end replay tests for the Arbiter pipeline
+ */
+
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Harness, editRun } from './harness.js';
+
+describe('Arbiter pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('replies when the decision is respond', async () => {
+    harness.decide({ shouldAct: true, confidence: 90, reason: 'Question', actionType: 'respond' });
+
+    await harness.say('what does this bot do?');
+
+    const sent = harness.transport.getSent('general').map((m) => m.content);
+    assert.deepEqual(sent, ['Sure thing!']);
+    assert.equal(harness.claudeRuns.length, 0);
+  });
+
+  it('stays quiet when the decision is ignore', async () => {
+    harness.decide({ shouldAct: false, confidence: 90, reason: 'Chatter', actionType: 'ignore' });
+
+    await harness.say('lunch anyone?');
+
+    assert.equal(harness.transport.getSent().length, 0);
+  });
+
+  it('merges a self-edit to main and requests a restart', async () => {
+    harness.decide({
+      shouldAct: true,
+      confidence: 95,
+      reason: 'Code change request',
+      actionType: 'self_edit',
+      suggestedApproach: 'Add a greeting module',
+    });
+    harness.scriptClaude(editRun({ 'greeting.ts': 'export const greeting = "hola";\n' }, 'Added greeting.ts'));
+
+    const exited = harness.waitForExit();
+    await harness.say('please add a greeting module');
+
+    // Claude ran in the session worktree with the enhanced prompt
+    assert.equal(harness.claudeRuns.length, 1);
+    assert.match(harness.claudeRuns[0].prompt, /Enhanced task description/);
+
+    // The live status message is completed and followed by a merge summary
+    const sent = harness.transport.getSent('general');
+    const status = sent.find((m) => m.content.includes('Editing myself'));
+    assert.ok(status, 'expected a live status message');
+    assert.match(status.content, /🔧 Write greeting\.ts\n✓ Wrote greeting\.ts \(1 lines\)/);
+    assert.match(status.content, /✅ \*\*Completed\*\*$/);
+    const summary = sent.find((m) => m.content.includes('Changes merged to main'));
+    assert.ok(summary, 'expected a merge summary');
+    assert.match(summary.content, /Added greeting\.ts/);
+
+    // The change is on main
+    const log = await harness.log();
+    assert.ok(log.some((subject) => subject === 'Self-edit: Add a greeting module'), log.join('\n'));
+    assert.equal(await readFile(join(harness.repoPath, 'greeting.ts'), 'utf8'), 'export const greeting = "hola";\n');
+
+    // Session finished and the merge triggered a restart
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.equal(harness.arbiter.getActiveSessions().length, 0);
+    await exited;
+    assert.deepEqual(harness.exitCodes, [0]);
+  });
+
+  it('keeps main untouched when Claude fails', async () => {
+    harness.decide({ shouldAct: true, confidence: 95, reason: 'Code change request', actionType: 'self_edit' });
+    harness.scriptClaude({
+      events: [{ type: 'error', error: 'Tool execution failed' }],
+      exitCode: 1,
+    });
+
+    await harness.say('please refactor everything');
+
+    const sent = harness.transport.getSent('general');
+    const status = sent.find((m) => m.content.includes('Editing myself'));
+    assert.ok(status, 'expected a live status message');
+    assert.match(status.content, /❌ \*\*Failed\*\*$/);
+    assert.ok(sent.some((m) => m.content.includes('Task failed')), 'expected a failure summary');
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.equal(harness.exitCodes.length, 0);
+  });
+});
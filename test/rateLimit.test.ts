@@ -0,0 +1,130 @@
+/**
+ * Tests for self-edit rate limiting
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { RateLimiter, describeRateLimit, formatRetryAfter, parseRateLimit } from '../src/arbiter/rateLimit.js';
+import type { WorkSession } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const HOUR = 3_600_000;
+const selfEdit = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' as const };
+
+describe('RateLimiter', () => {
+  it('parses limit specs', () => {
+    assert.deepEqual(parseRateLimit('3/hour'), { capacity: 3, periodMs: HOUR });
+    assert.deepEqual(parseRateLimit('10 / 30m'), { capacity: 10, periodMs: 30 * 60_000 });
+    assert.deepEqual(parseRateLimit('1/days'), { capacity: 1, periodMs: 24 * HOUR });
+    assert.throws(() => parseRateLimit('3 per hour'), /Invalid rate limit/);
+    assert.throws(() => parseRateLimit('0/hour'), /Invalid rate limit/);
+    assert.throws(() => parseRateLimit('5/500ms'), /Invalid rate limit/);
+    assert.equal(describeRateLimit({ capacity: 10, periodMs: 30 * 60_000 }), '10 per 30 minutes');
+    assert.equal(formatRetryAfter(90 * 60_000), '1 hour 30 min');
+  });
+
+  it('refills tokens over time and reports when to retry', () => {
+    let now = 0;
+    const limiter = new RateLimiter({ user: { capacity: 2, periodMs: HOUR } }, () => now);
+    const alice = { authorId: 'alice', channelId: 'general' };
+
+    assert.equal(limiter.tryConsume(alice).allowed, true);
+    assert.equal(limiter.tryConsume(alice).allowed, true);
+    const denied = limiter.tryConsume(alice);
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.scope, 'user');
+    assert.equal(denied.retryAfterMs, HOUR / 2);
+
+    // Other users have their own bucket
+    assert.equal(limiter.tryConsume({ authorId: 'bob', channelId: 'general' }).allowed, true);
+
+    now += HOUR / 2;
+    assert.equal(limiter.tryConsume(alice).allowed, true);
+    assert.equal(limiter.tryConsume(alice).allowed, false);
+  });
+
+  it('only takes tokens when every bucket has one', () => {
+    const limiter = new RateLimiter({
+      user: { capacity: 2, periodMs: HOUR },
+      channel: { capacity: 1, periodMs: HOUR },
+    }, () => 0);
+
+    assert.equal(limiter.tryConsume({ authorId: 'alice', channelId: 'a' }).allowed, true);
+    assert.equal(limiter.tryConsume({ authorId: 'alice', channelId: 'a' }).scope, 'channel');
+
+    // The request denied by the channel limit didn't use alice's second token
+    assert.equal(limiter.tryConsume({ authorId: 'alice', channelId: 'b' }).allowed, true);
+    assert.equal(limiter.tryConsume({ authorId: 'alice', channelId: 'c' }).scope, 'user');
+  });
+});
+
+describe('Self-edit rate limits in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('tells the user when to retry instead of starting another session', async () => {
+    harness.arbiter.setRateLimits({ user: { capacity: 1, periodMs: HOUR } });
+    harness.decide(selfEdit, selfEdit);
+    harness.scriptClaude({ ...editRun({ 'a.txt': 'a\n' }, 'Added a.txt'), exitCode: 1 });
+
+    await harness.say('please add a.txt');
+    assert.equal(harness.claudeRuns.length, 1);
+
+    await harness.say('please add b.txt');
+    assert.equal(harness.claudeRuns.length, 1, 'the second request should be throttled');
+
+    const reply = harness.transport.getSent('general').at(-1)!.content;
+    assert.match(reply, /self-edits are limited to 1 per hour per user\. Try again in 1 hour \(after \d\d:\d\d UTC\)/);
+  });
+});
+
+describe('Self-edit rate limits across queueing and restarts', () => {
+  it('leaves the token alone for a request that never runs', async () => {
+    const harness = await Harness.create({ config: { maxParallelSessions: 1 }, rateLimits: { user: { capacity: 1, periodMs: HOUR } } });
+    try {
+      harness.coordinator.registerSession({
+        id: 'sess-busy',
+        triggeredBy: { channelId: 'other', channelName: 'other', authorName: 'someone', content: 'a long task' },
+      } as WorkSession);
+      harness.decide(selfEdit, selfEdit);
+      harness.scriptClaude({ ...editRun({ 'b.txt': 'b\n' }, 'Added b.txt'), exitCode: 1 });
+
+      // Queued, then withdrawn
+      await harness.say('please add a.txt');
+      assert.match(harness.transport.getSent('general').at(-1)!.content, /🕒 \*\*Queued\*\*/);
+      await harness.say('!arbiter cancel');
+      harness.coordinator.completeSession('sess-busy', true);
+
+      await harness.say('please add b.txt');
+      assert.equal(harness.claudeRuns.length, 1);
+      assert.ok(!harness.transport.getSent('general').some((m) => m.content.includes('Slow down')));
+    } finally {
+      await harness.close();
+    }
+  });
+
+  it('keeps spent tokens over a restart', async () => {
+    const harness = await Harness.create({ persist: true, rateLimits: { user: { capacity: 1, periodMs: HOUR } } });
+    try {
+      harness.decide(selfEdit, selfEdit);
+      harness.scriptClaude({ ...editRun({ 'a.txt': 'a\n' }, 'Added a.txt'), exitCode: 1 });
+
+      await harness.say('please add a.txt');
+      assert.equal(harness.claudeRuns.length, 1);
+
+      await harness.restart();
+      await harness.say('please add b.txt');
+      assert.equal(harness.claudeRuns.length, 1, 'the restart must not refill the bucket');
+      assert.match(harness.transport.getSent('general').at(-1)!.content, /Slow down/);
+    } finally {
+      await harness.close();
+    }
+  });
+});
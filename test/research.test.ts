@@ -0,0 +1,93 @@
+/**
+ * Tests for the research action (read-only Claude runs in a throwaway worktree)
+ */
+
+import assert from 'node:assert/strict';
+import { access } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ArbiterDecision } from '../src/types.js';
+import { Harness } from './harness.js';
+
+const research: ArbiterDecision = { shouldAct: true, confidence: 90, reason: 'Question about the code', actionType: 'research' };
+
+describe('Research in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create({ files: { 'README.md': '# Test repo\n', 'limits.ts': 'export const MAX = 3;\n' } });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('answers from a read-only run and discards the worktree', async () => {
+    harness.decide(research);
+    harness.scriptClaude({
+      // Anything written despite plan mode is thrown away with the worktree
+      files: { 'notes.md': 'scratch\n' },
+      events: [
+        { type: 'system', subtype: 'init', message: 'Session started' },
+        { type: 'assistant', message: { content: [{ type: 'tool_use', id: 'tool-1', name: 'Read', input: { file_path: 'limits.ts' } }] } },
+        { type: 'user', message: { content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'export const MAX = 3;' }] } },
+        { type: 'result', subtype: 'success', result: 'The limit is 3 (`limits.ts:1`).', total_cost_usd: 0.02 },
+      ],
+    });
+
+    await harness.say('what is the session limit set to?');
+
+    assert.equal(harness.claudeRuns.length, 1);
+    const run = harness.claudeRuns[0];
+    assert.equal(run.permissionMode, 'plan');
+    assert.match(run.prompt, /what is the session limit set to\?/);
+    assert.match(run.prompt, /path\/to\/file\.ts:line/);
+
+    const status = harness.transport.getSent('general').find((m) => m.content.includes('Researching'));
+    assert.ok(status, 'expected a live status message');
+    assert.match(status.content, /Read limits\.ts/);
+    assert.ok(harness.transport.getSent('general').some((m) => m.content.includes('The limit is 3 (`limits.ts:1`)')));
+
+    // Nothing committed, merged or kept
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+    assert.equal(await harness.git('branch', '--list', 'arbiter/*'), '');
+    await assert.rejects(access(run.workdir));
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+    assert.equal(harness.exitCodes.length, 0);
+  });
+
+  it("doesn't treat messages during research as follow-ups", async () => {
+    let finish!: () => void;
+    harness.decide(research);
+    harness.scriptClaude({
+      pauseUntil: new Promise<void>((resolve) => { finish = resolve; }),
+      events: [{ type: 'result', subtype: 'success', result: 'Done.' }],
+    });
+
+    const researching = harness.say('how are follow-ups routed?');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+
+    harness.decide({ shouldAct: true, confidence: 90, reason: 'Chat', actionType: 'respond' });
+    await harness.say('also, good morning everyone');
+    assert.equal(harness.followUps.getCalls().length, 0);
+    assert.equal(harness.transport.getSent('general').at(-1)!.content, 'Sure thing!');
+
+    finish();
+    await researching;
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+
+  it('shares the session rate limit and answers directly once it is used up', async () => {
+    harness.arbiter.setRateLimits({ user: { capacity: 1, periodMs: 60 * 60 * 1000 } });
+    harness.decide(research, research);
+    harness.scriptClaude({ events: [{ type: 'result', subtype: 'success', result: 'The limit is 3.' }] });
+
+    await harness.say('what is the session limit set to?');
+    await harness.say('and where is it enforced?');
+
+    assert.equal(harness.claudeRuns.length, 1);
+    const sent = harness.transport.getSent('general').map((m) => m.content);
+    assert.match(sent.at(-2)!, /Slow down\*\* - research sessions are limited to 1 per hour per user/);
+    assert.equal(sent.at(-1), 'Sure thing!');
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+});
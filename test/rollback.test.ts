@@ -0,0 +1,125 @@
+/**
+ * Tests for the boot guard's automatic rollback
+ * Each boot runs in a child process, since the guard hooks process exit and signals
+ */
+
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { recordPendingMerge } from '../src/arbiter/rollback.js';
+
+const execFileAsync = promisify(execFile);
+const ROLLBACK_MODULE = resolve('src/arbiter/rollback.ts');
+
+type BootEnding = 'healthy' | 'crash-before-ready' | 'crash-after-ready' | 'sigterm-before-ready' | 'sigterm-after-ready';
+
+describe('Automatic rollback', () => {
+  let repoPath: string;
+  let mergeCommit: string;
+
+  const git = async (...args: string[]) => (await execFileAsync('git', args, { cwd: repoPath })).stdout.trim();
+  const state = async () => JSON.parse(await readFile(join(repoPath, '.arbiter', 'boot-state.json'), 'utf8'));
+
+  /**
+   * Boot in a child process and end it the given way
+   * @returns the rollback the guard performed on the way in, if any
+   */
+  const boot = async (ending: BootEnding): Promise<{ sessionId: string; reason: string } | null> => {
+    const config = { repoPath, defaultBranch: 'main', crashWindowMs: 60000, maxCrashes: 2, stableMs: ending === 'healthy' ? 0 : 60000 };
+    const script = `
+      import { beginBoot, markBootReady } from ${JSON.stringify(ROLLBACK_MODULE)};
+      const config = ${JSON.stringify(config)};
+      console.log('NOTICE ' + JSON.stringify(beginBoot(config)));
+      const ending = ${JSON.stringify(ending)};
+      if (ending.endsWith('after-ready') || ending === 'healthy') markBootReady(config);
+      if (ending === 'sigterm-after-ready') process.on('SIGTERM', () => process.exit(143));   // The app's own handler
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      if (ending.startsWith('crash')) process.exit(1);
+      if (ending.startsWith('sigterm')) { process.kill(process.pid, 'SIGTERM'); await new Promise(() => setTimeout(() => {}, 5000)); }
+    `;
+
+    let stdout: string;
+    try {
+      ({ stdout } = await execFileAsync(process.execPath, ['--import', 'tsx', '--input-type=module', '-e', script], { timeout: 30000 }));
+    } catch (error) {
+      const failed = error as { stdout: string; code?: number; signal?: string };
+      const expected = ending.startsWith('crash') ? failed.code === 1
+        : ending === 'sigterm-before-ready' ? failed.signal === 'SIGTERM'
+        : failed.code === 143;
+      assert.ok(expected, `unexpected exit for ${ending}: code ${failed.code}, signal ${failed.signal}`);
+      stdout = failed.stdout;
+    }
+    return JSON.parse(stdout.split('\n').find((line) => line.startsWith('NOTICE '))!.slice('NOTICE '.length));
+  };
+
+  beforeEach(async () => {
+    repoPath = await mkdtemp(join(tmpdir(), 'arbiter-rollback-'));
+    await git('init', '-q', '-b', 'main');
+    await git('config', 'user.name', 'Arbiter Test');
+    await git('config', 'user.email', 'arbiter-test@example.com');
+    await writeFile(join(repoPath, '.gitignore'), '.arbiter/\n');
+    await writeFile(join(repoPath, 'app.txt'), 'v1\n');
+    await git('add', '-A');
+    await git('commit', '-q', '-m', 'Initial commit');
+
+    await git('checkout', '-q', '-b', 'arbiter/change');
+    await writeFile(join(repoPath, 'app.txt'), 'v2\n');
+    await git('commit', '-q', '-am', 'Change app');
+    await git('checkout', '-q', 'main');
+    await git('merge', '-q', '--no-ff', '-m', 'Merge arbiter/change', 'arbiter/change');
+    mergeCommit = await git('rev-parse', 'HEAD');
+
+    recordPendingMerge(repoPath, { sessionId: 'sess-1', mergeCommit, branchName: 'arbiter/change', mergedAt: new Date().toISOString() });
+  });
+
+  afterEach(async () => {
+    await rm(repoPath, { recursive: true, force: true });
+  });
+
+  it('keeps a merge that boots and stays up', async () => {
+    assert.equal(await boot('healthy'), null);
+
+    const after = await state();
+    assert.equal(after.pendingMerge, undefined);
+    assert.equal(after.lastKnownGood.commit, mergeCommit);
+
+    assert.equal(await boot('crash-before-ready'), null);
+    assert.equal(await boot('healthy'), null, 'a known-good merge is never rolled back');
+    assert.equal(await git('rev-parse', 'HEAD'), mergeCommit);
+  });
+
+  it('rolls back a merge that fails to start', async () => {
+    assert.equal(await boot('crash-before-ready'), null);
+    const notice = await boot('healthy');
+
+    assert.equal(notice?.sessionId, 'sess-1');
+    assert.equal(notice?.reason, 'the bot failed to start after the merge');
+    assert.equal(await readFile(join(repoPath, 'app.txt'), 'utf8'), 'v1\n');
+    assert.match(await git('log', '-1', '--format=%s'), /^Revert "Merge arbiter\/change"/);
+  });
+
+  it('rolls back a merge that keeps crashing after ready', async () => {
+    assert.equal(await boot('crash-after-ready'), null);
+    assert.equal((await state()).failures.length, 1);
+    assert.equal(await boot('crash-after-ready'), null);
+
+    const notice = await boot('healthy');
+    assert.match(notice?.reason ?? '', /crashed 2 times within 1 minutes/);
+    assert.equal(await readFile(join(repoPath, 'app.txt'), 'utf8'), 'v1\n');
+  });
+
+  it("doesn't count being stopped by a signal as a failure", async () => {
+    assert.equal(await boot('sigterm-before-ready'), null);
+    assert.equal((await state()).currentBoot.stoppedBy, 'SIGTERM');
+    assert.equal(await boot('sigterm-after-ready'), null);
+    assert.equal(await boot('sigterm-before-ready'), null);
+
+    assert.deepEqual((await state()).failures, []);
+    assert.equal(await boot('healthy'), null);
+    assert.equal(await git('rev-parse', 'HEAD'), mergeCommit);
+  });
+});
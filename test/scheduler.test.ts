@@ -0,0 +1,170 @@
+/**
+ * Tests for the session scheduler (parallelism cap and queue)
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { SessionScheduler } from '../src/arbiter/scheduler.js';
+import type { ActiveSession } from '../src/arbiter/coordinator.js';
+import { FakeTransport } from './fakeTransport.js';
+import { ArbiterDecision, ChatMessage, WorkSession } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+
+const NEW_FILE = `--- /dev/null
++++ b/patched.txt
+@@ -0,0 +1 @@
++from a patch
+`;
+
+function request(authorId: string, channelId = 'general') {
+  const message = { id: `m-${authorId}`, authorId, authorName: authorId, channelId, content: 'add a file' } as ChatMessage;
+  return { messages: [message], decision: selfEdit, transport: new FakeTransport() };
+}
+
+describe('SessionScheduler', () => {
+  it('hands out slots up to the limit, counting sessions that are still starting', () => {
+    const scheduler = new SessionScheduler(2);
+
+    assert.equal(scheduler.tryAcquire(0), true);
+    assert.equal(scheduler.tryAcquire(0), true);
+    assert.equal(scheduler.tryAcquire(0), false, 'both slots are starting');
+
+    // Once registered, the coordinator's active count covers them
+    scheduler.release();
+    scheduler.release();
+    assert.equal(scheduler.hasCapacity(2), false);
+    assert.equal(scheduler.hasCapacity(1), true);
+    assert.equal(new SessionScheduler().hasCapacity(100), true, '0 means unlimited');
+  });
+
+  it('queues in order and cancels by ID or by requester', () => {
+    const scheduler = new SessionScheduler(1);
+    const first = scheduler.enqueue(request('alice'));
+    const second = scheduler.enqueue(request('bob'));
+    const third = scheduler.enqueue(request('alice', 'random'));
+
+    assert.deepEqual([first.position, second.position, third.position], [1, 2, 3]);
+    assert.equal(first.request.id, 'queue-1');
+
+    const alice = request('alice').messages[0];
+    assert.equal(scheduler.findByCommand(alice, {}), first.request, 'latest in the channel');
+    assert.equal(scheduler.findByCommand(alice, { requestId: 'queue-2' }), second.request);
+
+    assert.equal(scheduler.cancel('queue-1'), first.request);
+    assert.equal(scheduler.cancel('queue-1'), null);
+    assert.equal(scheduler.getPosition(third.request.id), 2);
+    assert.equal(scheduler.dequeue(), second.request);
+  });
+});
+
+describe('Session queue in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create({ config: { maxParallelSessions: 1 } });
+  });
+
+  afterEach(async () => {
+    if (harness.coordinator.getActiveSessions().some((s) => s.id === 'sess-busy')) {
+      harness.coordinator.completeSession('sess-busy', true);
+    }
+    await harness.close();
+  });
+
+  it('queues requests while the slots are busy and starts the next one on completion', async () => {
+    // Occupy the only slot with a session from elsewhere
+    harness.coordinator.registerSession({
+      id: 'sess-busy',
+      triggeredBy: { channelId: 'other', channelName: 'other', authorName: 'someone', content: 'a long task' },
+    } as WorkSession);
+
+    harness.decide(selfEdit, selfEdit);
+    harness.scriptClaude({ ...editRun({ 'b.txt': 'b\n' }, 'Added b.txt'), exitCode: 1 });
+
+    await harness.say('please add a.txt');
+    await harness.say('please add b.txt', { authorId: 'user-2', authorName: 'other-tester' });
+    assert.equal(harness.claudeRuns.length, 0);
+
+    const sent = () => harness.transport.getSent('general').map((m) => m.content);
+    assert.match(sent()[0], /🕒 \*\*Queued\*\* - position 1 \(`queue-1`\)/);
+    assert.match(sent()[1], /position 2 \(`queue-2`\)/);
+
+    await harness.say('cancel');
+    assert.ok(!sent().some((m) => m.includes('Cancelled')), 'a bare "cancel" is just chat');
+
+    await harness.say('!arbiter cancel');
+    assert.match(sent().at(-1)!, /Cancelled queued request `queue-1`: please add a\.txt/);
+
+    // Freeing the slot starts the remaining request
+    const finished = new Promise<string>((resolve) => {
+      const onCompleted = (session: ActiveSession) => {
+        if (session.id === 'sess-busy') return;
+        harness.coordinator.off('session:completed', onCompleted);
+        resolve(session.id);
+      };
+      harness.coordinator.on('session:completed', onCompleted);
+    });
+    harness.coordinator.completeSession('sess-busy', true);
+    const sessionId = await finished;
+
+    assert.equal(harness.claudeRuns.length, 1);
+    assert.equal(harness.arbiter.getSession(sessionId)?.triggeredBy.content, 'please add b.txt');
+    assert.ok(sent().some((m) => m.includes('Task failed')), 'expected the queued run to report back');
+
+    // Let the worktree cleanup finish before the repository is removed
+    await harness.waitFor(() => harness.arbiter.getSession(sessionId)?.status === 'completed');
+  });
+  it('queues a patch behind busy slots instead of merging next to them', async () => {
+    harness.coordinator.registerSession({
+      id: 'sess-busy',
+      triggeredBy: { channelId: 'other', channelName: 'other', authorName: 'someone', content: 'a long task' },
+    } as WorkSession);
+
+    await harness.say(`\`\`\`diff\n${NEW_FILE}\`\`\``, { mentionsBotId: true });
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /🕒 \*\*Queued\*\* - position 1/);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+
+    const exited = harness.waitForExit();
+    harness.coordinator.completeSession('sess-busy', true);
+    await exited;
+    assert.equal(await harness.git('show', 'main:patched.txt'), 'from a patch');
+  });
+});
+
+describe('Session queue across a restart', () => {
+  it('starts a request queued behind a merge once the bot is back', async () => {
+    const harness = await Harness.create({ config: { maxParallelSessions: 1 }, persist: true });
+    try {
+      let finishFirst!: () => void;
+      harness.decide(selfEdit, selfEdit);
+      harness.scriptClaude(
+        { ...editRun({ 'a.txt': 'a\n' }, 'Added a.txt'), pauseUntil: new Promise<void>((resolve) => { finishFirst = resolve; }) },
+        editRun({ 'b.txt': 'b\n' }, 'Added b.txt'),
+      );
+
+      const first = harness.say('please add a.txt');
+      await harness.waitFor(() => harness.claudeRuns.length === 1);
+      await harness.say('please add b.txt', { channelId: 'other', channelName: 'other' });
+      assert.match(harness.transport.getSent('other').at(-1)!.content, /🕒 \*\*Queued\*\* - position 1/);
+
+      // The merge restarts the bot before the slot can go to the queued request
+      const restarted = harness.waitForExit();
+      finishFirst();
+      await first;
+      await restarted;
+      assert.equal(harness.claudeRuns.length, 1);
+      assert.equal(await harness.git('show', 'main:a.txt'), 'a');
+
+      const mergedAgain = harness.waitForExit();
+      await harness.restart();
+      await mergedAgain;
+      assert.equal(harness.claudeRuns.length, 2);
+      assert.equal(harness.claudeRuns[1].prompt.includes('please add b.txt'), true);
+      assert.equal(await harness.git('show', 'main:b.txt'), 'b');
+    } finally {
+      await harness.close();
+    }
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the JSON file session store
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { JsonFileSessionStore, serializeSession } from '../src/git/sessionStore.js';
+import { WorkSession, WorkSessionStatus } from '../src/types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function session(id: string, status: WorkSessionStatus, ageDays: number, overrides: Partial<WorkSession> = {}): WorkSession {
+  const updatedAt = new Date(Date.now() - ageDays * DAY);
+  return {
+    id,
+    worktreePath: `/tmp/worktrees/${id}`,
+    branchName: `arbiter/${id}`,
+    triggeredBy: { id: 'm1', content: 'do it', authorId: 'u1', authorName: 'tester', channelId: 'c1', timestamp: updatedAt, transport: 'cli' },
+    relatedMessages: [],
+    status,
+    createdAt: updatedAt,
+    updatedAt,
+    commits: [],
+    pendingMessages: [],
+    shouldCheckpoint: false,
+    checkpointCount: 0,
+    ...overrides,
+  };
+}
+
+describe('JsonFileSessionStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'arbiter-store-'));
+    path = join(dir, 'sessions.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('drops finished sessions past the retention window', async () => {
+    const openPr = { number: 1, url: 'https://example.com/pr/1', state: 'open' as const, forge: 'github', updatedAt: new Date() };
+    await writeFile(path, JSON.stringify([
+      session('old-done', 'completed', 40),
+      session('old-failed', 'failed', 40),
+      session('old-abandoned', 'abandoned', 40),
+      session('old-interrupted', 'interrupted', 40),
+      session('old-open-pr', 'completed', 40, { pullRequest: openPr }),
+      session('recent-done', 'completed', 5),
+    ].map(serializeSession)));
+
+    const store = new JsonFileSessionStore(path, 30 * DAY);
+    const loaded = await store.load();
+
+    const kept = ['old-interrupted', 'old-open-pr', 'recent-done'];
+    assert.deepEqual(loaded.map((s) => s.id), kept);
+    const onDisk = JSON.parse(await readFile(path, 'utf8')) as { id: string }[];
+    assert.deepEqual(onDisk.map((s) => s.id), kept);
+  });
+
+  it('writes through a temp file', async () => {
+    const store = new JsonFileSessionStore(path);
+    await store.load();
+    await Promise.all([
+      store.save(session('a', 'active', 0)),
+      store.save(session('b', 'active', 0)),
+    ]);
+
+    assert.deepEqual(await readdir(dir), ['sessions.json']);
+    const reloaded = await new JsonFileSessionStore(path).load();
+    assert.deepEqual(reloaded.map((s) => s.id), ['a', 'b']);
+    assert.ok(reloaded[0].updatedAt instanceof Date);
+  });
+});
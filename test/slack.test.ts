@@ -0,0 +1,158 @@
+/**
+ * Tests for the Slack transport against a fake Slack server
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { parseSocketEnvelope, SlackTransport } from '../src/transports/slack.js';
+import { ChatMessage, ChatReaction } from '../src/types.js';
+import { APP_TOKEN, BOT_TOKEN, BOT_USER_ID, FakeSlackServer } from './fakeSlack.js';
+
+// Envelopes are acknowledged before they are handled
+async function until(condition: () => boolean): Promise<void> {
+  for (let waited = 0; !condition(); waited += 10) {
+    if (waited > 2000) throw new Error('Condition not met within 2000ms');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('parseSocketEnvelope', () => {
+  it('accepts envelopes and rejects anything else', () => {
+    assert.deepEqual(parseSocketEnvelope('{"type":"hello"}'), { type: 'hello' });
+    assert.equal(parseSocketEnvelope('not json'), null);
+    assert.equal(parseSocketEnvelope('[1, 2]'), null);
+    assert.equal(parseSocketEnvelope('{"type":"events_api","payload":{"event":"message"}}'), null);
+  });
+});
+
+describe('SlackTransport', () => {
+  let slack: FakeSlackServer;
+  let transport: SlackTransport;
+  let received: ChatMessage[];
+  let reactions: ChatReaction[];
+
+  beforeEach(async () => {
+    slack = new FakeSlackServer();
+    slack.users.set('U1', 'tester');
+    slack.channels.set('C1', 'general');
+    const apiBaseUrl = await slack.start();
+
+    transport = new SlackTransport({ botToken: BOT_TOKEN, appToken: APP_TOKEN, apiBaseUrl, reconnectDelayMs: 10 });
+    received = [];
+    reactions = [];
+    transport.onMessage(async (message) => { received.push(message); });
+    transport.onReaction(async (reaction) => { reactions.push(reaction); });
+
+    const ready = new Promise<void>((resolve) => transport.onReady(resolve));
+    await transport.connect();
+    await ready;
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+    await slack.stop();
+  });
+
+  it('turns message events into chat messages', async () => {
+    await slack.deliver({ type: 'message', ts: '1700000001.000100', channel: 'C1', user: 'U1', text: `<@${BOT_USER_ID}> hi &amp; bye` });
+    await until(() => received.length === 1);
+
+    assert.equal(received[0].content, '@arbiter hi & bye');
+    assert.equal(received[0].authorName, 'tester');
+    assert.equal(received[0].channelId, 'C1');
+    assert.equal(received[0].channelName, 'general');
+    assert.equal(received[0].mentionsBotId, true);
+    assert.equal(received[0].threadId, undefined);
+  });
+
+  it('ignores its own messages, edits and malformed events', async () => {
+    await slack.deliver({ type: 'message', ts: '1.1', channel: 'C1', user: BOT_USER_ID, text: 'echo' });
+    await slack.deliver({ type: 'message', subtype: 'message_changed', ts: '1.2', channel: 'C1', user: 'U1' });
+    await slack.deliver({ type: 'message', ts: 1.3, channel: 'C1', user: 'U1', text: 'ts is not a string' });
+    await slack.deliver({ type: 'reaction_added', user: 'U1', reaction: 'eyes' });
+    await slack.deliver({ type: 'app_mention', ts: '1.4', channel: 'C1', user: 'U1', text: 'duplicate' });
+    slack.sendRaw('not json');
+
+    // A well-formed event after the junk still gets through
+    await slack.deliver({ type: 'message', ts: '1.5', channel: 'C1', user: 'U1', text: 'hello' });
+    await until(() => received.length > 0);
+    assert.deepEqual(received.map((m) => m.content), ['hello']);
+    assert.deepEqual(reactions, []);
+  });
+
+  it('answers thread replies in the thread', async () => {
+    await slack.deliver({ type: 'message', ts: '1700000002.000200', thread_ts: '1700000001.000100', channel: 'C1', user: 'U1', text: 'in a thread' });
+    await until(() => received.length === 1);
+
+    const [message] = received;
+    assert.equal(message.channelId, 'C1:1700000001.000100');
+    assert.equal(message.threadId, 'C1:1700000001.000100');
+    assert.equal(message.parentChannelId, 'C1');
+    assert.equal(message.replyToId, '1700000001.000100');
+
+    await transport.send(message.channelId, 'reply');
+    const statusId = await transport.sendAndGetId(message.channelId, 'working...');
+    await transport.editMessage(message.channelId, statusId, 'done');
+    await transport.send('C1', 'in the channel');
+
+    assert.deepEqual(slack.posted.map(({ channel, thread_ts, text }) => ({ channel, thread_ts, text })), [
+      { channel: 'C1', thread_ts: '1700000001.000100', text: 'reply' },
+      { channel: 'C1', thread_ts: '1700000001.000100', text: 'done' },
+      { channel: 'C1', thread_ts: undefined, text: 'in the channel' },
+    ]);
+
+    const history = await transport.getMessageHistory(message.channelId);
+    assert.deepEqual(history.map((m) => m.content), ['reply', 'done']);
+  });
+
+  it('opens session threads on the triggering message', async () => {
+    const threadId = await transport.createThread('C1', '1700000001.000100', 'Session');
+    await transport.send(threadId, 'live output');
+    await transport.react('1700000001.000100', threadId, '👀');
+
+    assert.deepEqual(slack.posted.at(-1), { channel: 'C1', ts: slack.posted.at(-1)!.ts, text: 'live output', thread_ts: '1700000001.000100' });
+    assert.deepEqual(slack.reactions, [{ channel: 'C1', timestamp: '1700000001.000100', name: 'eyes' }]);
+  });
+
+  it('keeps reconnecting after a failed attempt', async () => {
+    slack.failConnections = 2;
+    slack.dropSocket();
+    await until(() => slack.connections === 2);
+    assert.equal(slack.failConnections, 0);
+
+    await slack.deliver({ type: 'message', ts: '1.1', channel: 'C1', user: 'U1', text: 'back again' });
+    await until(() => received.length === 1);
+    assert.equal(received[0].content, 'back again');
+  });
+
+  it('stops reconnecting once disconnected', async () => {
+    slack.failConnections = 1;
+    slack.dropSocket();
+    await until(() => slack.failConnections === 0);
+    await transport.disconnect();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(slack.connections, 1);
+  });
+
+  it('maps reaction names back to emoji', async () => {
+    await slack.deliver({ type: 'reaction_added', user: 'U1', reaction: 'white_check_mark', item: { type: 'message', channel: 'C1', ts: '1.1' } });
+    await until(() => reactions.length === 1);
+
+    assert.deepEqual(reactions, [{ messageId: '1.1', channelId: 'C1', emoji: '✅', authorId: 'U1', authorName: 'tester', transport: 'slack' }]);
+  });
+
+  it('gives reactions in a thread the thread channel ID', async () => {
+    // A status message this transport posted in a thread
+    const statusId = await transport.sendAndGetId('C1:1700000001.000100', 'Review this');
+    // A thread message from before a restart, which has to be looked up
+    slack.posted.push({ channel: 'C1', ts: '1600000000.000001', text: 'older', thread_ts: '1600000000.000000' });
+
+    for (const ts of [statusId, '1600000000.000001']) {
+      await slack.deliver({ type: 'reaction_added', user: 'U1', reaction: 'white_check_mark', item: { type: 'message', channel: 'C1', ts } });
+    }
+    await until(() => reactions.length === 2);
+
+    assert.deepEqual(reactions.map((r) => r.channelId), ['C1:1700000001.000100', 'C1:1600000000.000000']);
+  });
+});
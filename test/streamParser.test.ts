@@ -0,0 +1,83 @@
+/**
+ * Tests for stream-json tool call parsing
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { StreamParser } from '../src/claude/streamParser.js';
+
+function assistant(...content: object[]): string {
+  return JSON.stringify({ type: 'assistant', message: { content } });
+}
+
+function user(...content: object[]): string {
+  return JSON.stringify({ type: 'user', message: { content } });
+}
+
+describe('StreamParser', () => {
+  it('describes edits relative to the working directory', () => {
+    const parser = new StreamParser('/work/repo');
+
+    const [use] = parser.parse(assistant({
+      type: 'tool_use',
+      id: 'toolu_1',
+      name: 'Edit',
+      input: { file_path: '/work/repo/src/foo.ts', old_string: 'a', new_string: 'b\nc\nd' },
+    }));
+    assert.equal(use.type, 'tool_use');
+    assert.equal(use.content, 'Edit src/foo.ts');
+    assert.deepEqual(
+      { id: use.toolUse?.id, name: use.toolUse?.name, filePath: use.toolUse?.filePath, editSummary: use.toolUse?.editSummary },
+      { id: 'toolu_1', name: 'Edit', filePath: 'src/foo.ts', editSummary: '+3 -1' }
+    );
+
+    const [result] = parser.parse(user({ type: 'tool_result', tool_use_id: 'toolu_1', content: 'File updated' }));
+    assert.equal(result.type, 'tool_result');
+    assert.equal(result.content, 'Edited src/foo.ts (+3 -1)');
+    assert.equal(result.toolResult?.toolUse?.name, 'Edit');
+    assert.equal(result.toolResult?.isError, false);
+  });
+
+  it('correlates Bash results and reads their exit code', () => {
+    const parser = new StreamParser();
+
+    parser.parse(assistant({ type: 'tool_use', id: 'toolu_2', name: 'Bash', input: { command: 'npm test' } }));
+    const [result] = parser.parse(user({
+      type: 'tool_result',
+      tool_use_id: 'toolu_2',
+      is_error: true,
+      content: [{ type: 'text', text: 'Exit code 1\n1 failing' }],
+    }));
+
+    assert.equal(result.content, 'Ran npm test (exit 1)');
+    assert.equal(result.toolResult?.exitCode, 1);
+    assert.equal(result.toolResult?.toolUse?.command, 'npm test');
+    assert.match(result.toolResult?.output ?? '', /1 failing/);
+  });
+
+  it('emits one event per content block', () => {
+    const parser = new StreamParser();
+
+    const events = parser.parse(assistant(
+      { type: 'text', text: 'Running the tests.' },
+      { type: 'tool_use', id: 'toolu_3', name: 'Bash', input: { command: 'npm test' } },
+      { type: 'tool_use', id: 'toolu_4', name: 'Read', input: { file_path: 'package.json' } },
+    ));
+
+    assert.deepEqual(events.map((e) => [e.type, e.content]), [
+      ['text', 'Running the tests.'],
+      ['tool_use', 'Bash npm test'],
+      ['tool_use', 'Read package.json'],
+    ]);
+  });
+
+  it('still reports results for unknown tool calls', () => {
+    const parser = new StreamParser();
+
+    const [result] = parser.parse(user({ type: 'tool_result', tool_use_id: 'missing', content: 'ok' }));
+
+    assert.equal(result.content, 'Tool completed');
+    assert.equal(result.toolResult?.toolUse, undefined);
+    assert.deepEqual(parser.parse('plain output'), [{ type: 'text', content: 'plain output' }]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for per-session threads (several sessions in one channel)
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ArbiterDecision, ChatMessage } from '../src/types.js';
+import { Harness, editRun } from './harness.js';
+
+const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+
+function inThread(threadId: string): Partial<ChatMessage> {
+  return { channelId: threadId, threadId, parentChannelId: 'general' };
+}
+
+describe('Session threads', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create({ transport: { threads: true } });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('runs two sessions in one channel, each in its own thread', async () => {
+    harness.decide(selfEdit, selfEdit);
+    harness.scriptClaude(
+      { ...editRun({ 'a.txt': 'a\n' }, 'Added a.txt'), pauseUntil: new Promise(() => {}) },
+      { ...editRun({ 'b.txt': 'b\n' }, 'Added b.txt'), pauseUntil: new Promise(() => {}) }
+    );
+
+    // Without threads the second request would be taken as a follow-up to the first
+    const first = harness.say('please add a.txt');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const second = harness.say('please add b.txt');
+    await harness.waitFor(() => harness.claudeRuns.length === 2);
+
+    const threads = harness.transport.getThreads();
+    assert.equal(threads.length, 2);
+    assert.ok(threads.every((t) => t.parentChannelId === 'general'));
+
+    const sessions = harness.coordinator.getActiveSessions().map((s) => harness.arbiter.getSession(s.id)!);
+    assert.deepEqual(sessions.map((s) => s.threadId), threads.map((t) => t.id));
+    assert.match(threads[0].name, new RegExp(`^${sessions[0].id}: please add a\\.txt`));
+    assert.match(harness.transport.getSent(threads[0].id)[0].content, /Editing myself in worktree/);
+    assert.equal(harness.transport.getSent('general').length, 0, 'session output stays in the threads');
+
+    // Follow-ups are routed by thread
+    await harness.say('also add a newline at the end', inThread(threads[1].id));
+    assert.equal(sessions[0].pendingMessages.length, 0);
+    assert.equal(sessions[1].pendingMessages.length, 1);
+    assert.match(harness.transport.getSent(threads[1].id).at(-1)!.content, /Got it!/);
+
+    // "!arbiter cancel" in a thread defaults to that thread's session
+    await harness.say('!arbiter cancel', inThread(threads[0].id));
+    await first;
+    assert.equal(sessions[0].status, 'abandoned');
+    assert.equal(harness.arbiter.getSession(sessions[1].id)?.status, 'active');
+
+    await harness.say('!arbiter cancel', inThread(threads[1].id));
+    await second;
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+
+  it('opens a new thread for a new request made in a session thread', async () => {
+    harness.decide(selfEdit, selfEdit);
+    harness.scriptClaude(
+      { ...editRun({ 'a.txt': 'a\n' }, 'Added a.txt'), pauseUntil: new Promise(() => {}) },
+      { ...editRun({ 'b.txt': 'b\n' }, 'Added b.txt'), pauseUntil: new Promise(() => {}) }
+    );
+
+    const first = harness.say('please add a.txt');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const [firstThread] = harness.transport.getThreads();
+
+    harness.followUps.enqueue({ kind: 'new_request', reason: 'Unrelated change' });
+    const second = harness.say('please add b.txt', { ...inThread(firstThread.id), authorId: 'user-2', authorName: 'other' });
+    await harness.waitFor(() => harness.claudeRuns.length === 2);
+
+    const [firstSession, secondSession] = harness.coordinator.getActiveSessions().map((s) => harness.arbiter.getSession(s.id)!);
+    const secondThread = harness.transport.getThreads()[1];
+    assert.equal(firstSession.threadId, firstThread.id);
+    assert.equal(secondSession.threadId, secondThread.id);
+
+    // The new thread hangs off a starter message in the parent channel
+    const [starter] = harness.transport.getSent('general');
+    assert.equal(secondThread.parentChannelId, 'general');
+    assert.equal(secondThread.messageId, starter.id);
+    assert.match(starter.content, new RegExp(`^🧵 \\*\\*${secondSession.id}\\*\\*: please add b\\.txt`));
+    assert.match(harness.transport.getSent(secondThread.id)[0].content, /Editing myself in worktree/);
+    assert.ok(harness.transport.getSent(firstThread.id).some((m) => m.content.includes(`Started \`${secondSession.id}\` in a new thread`)));
+
+    await harness.say('!arbiter cancel', inThread(firstThread.id));
+    await harness.say('!arbiter cancel', inThread(secondThread.id));
+    await Promise.all([first, second]);
+    assert.equal(harness.coordinator.getActiveSessionCount(), 0);
+  });
+});
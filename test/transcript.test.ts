@@ -0,0 +1,111 @@
+/**
+ * Record-and-replay tests for Claude transcripts
+ */
+
+import assert from 'node:assert/strict';
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ClaudeEvent, ClaudeRunner } from '../src/claude/runner.js';
+import { ReplayClaudeRunner } from '../src/claude/replayRunner.js';
+import { readTranscript } from '../src/claude/transcript.js';
+
+const RECORDED_EVENTS = [
+  { type: 'system', subtype: 'init', message: 'Session started' },
+  { type: 'assistant', message: { content: [{ type: 'text', text: 'Looking at the code.' }] } },
+  { type: 'assistant', message: { content: [{ type: 'tool_use', id: 'tool-1', name: 'Edit', input: {} }] } },
+  { type: 'result', subtype: 'success', result: 'Done editing' },
+];
+
+describe('Claude transcripts', () => {
+  let dir: string;
+  let originalPath: string | undefined;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'arbiter-transcript-'));
+
+    // Stand-in `claude` executable that prints a recorded stream-json run
+    const script = RECORDED_EVENTS.map((event) => `echo '${JSON.stringify(event)}'`).join('\n');
+    await writeFile(join(dir, 'claude'), `#!/bin/sh\n${script}\necho 'warning: test' >&2\nexit 0\n`);
+    await chmod(join(dir, 'claude'), 0o755);
+    originalPath = process.env.PATH;
+    process.env.PATH = `${dir}:${originalPath}`;
+  });
+
+  afterEach(async () => {
+    process.env.PATH = originalPath;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function record(transcriptPath: string): Promise<ClaudeEvent[]> {
+    const events: ClaudeEvent[] = [];
+    const result = await new ClaudeRunner().run({
+      workdir: dir,
+      prompt: 'Fix the bug',
+      transcriptPath,
+      onOutput: (event) => events.push(event),
+    });
+    assert.equal(result.exitCode, 0);
+    return events;
+  }
+
+  it('records every run of a session to one transcript', async () => {
+    const transcriptPath = join(dir, 'transcripts', 'sess-1.jsonl');
+    await record(transcriptPath);
+    await record(transcriptPath);
+
+    const runs = await readTranscript(transcriptPath);
+    assert.equal(runs.length, 2);
+    assert.equal(runs[0].start.prompt, 'Fix the bug');
+    assert.deepEqual(
+      runs[0].entries.filter((e) => e.type === 'event').map((e) => e.type === 'event' && JSON.parse(e.line)),
+      RECORDED_EVENTS
+    );
+    assert.ok(runs[0].entries.some((e) => e.type === 'stderr' && e.text.includes('warning: test')));
+    assert.deepEqual(runs[0].exit && { exitCode: runs[0].exit.exitCode, aborted: runs[0].exit.aborted }, {
+      exitCode: 0,
+      aborted: false,
+    });
+  });
+
+  it('replays a transcript through the same callbacks as the live run', async () => {
+    const transcriptPath = join(dir, 'sess-2.jsonl');
+    const liveEvents = await record(transcriptPath);
+
+    const replayed: ClaudeEvent[] = [];
+    const runner = await ReplayClaudeRunner.fromFile(transcriptPath);
+    const result = await runner.run({
+      workdir: dir,
+      prompt: 'ignored',
+      onOutput: (event) => replayed.push(event),
+    });
+
+    assert.deepEqual(replayed, liveEvents);
+    assert.equal(result.success, true);
+    assert.equal(result.summary, 'Done editing');
+
+    // Only one run was recorded
+    const second = await runner.run({ workdir: dir, prompt: 'ignored' });
+    assert.equal(second.success, false);
+  });
+
+  it('stops replaying when aborted', async () => {
+    const transcriptPath = join(dir, 'sess-3.jsonl');
+    await record(transcriptPath);
+
+    const runner = await ReplayClaudeRunner.fromFile(transcriptPath);
+    const replayed: ClaudeEvent[] = [];
+    const result = await runner.run({
+      workdir: dir,
+      prompt: 'ignored',
+      onOutput: (event) => {
+        replayed.push(event);
+        if (event.type === 'tool_use') runner.abort();
+      },
+    });
+
+    assert.deepEqual(replayed.map((e) => e.type), ['system', 'text', 'tool_use']);
+    assert.equal(result.success, false);
+  });
+});
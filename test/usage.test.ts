@@ -0,0 +1,197 @@
+/**
+ * Tests for the token/cost ledger and daily budgets
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ArbiterDecision } from '../src/types.js';
+import { UsageLedger, estimateCost, startOfDay } from '../src/usage/index.js';
+import { Harness, editRun } from './harness.js';
+
+describe('UsageLedger', () => {
+  it('summarizes records by feature, user and session', async () => {
+    const ledger = new UsageLedger();
+    ledger.record({ feature: 'decision', userId: 'u1', channelId: 'c1' }, { model: 'gpt-4o-mini', inputTokens: 1000, outputTokens: 100 });
+    ledger.record({ feature: 'claude', userId: 'u1', channelId: 'c1', sessionId: 's1' }, { model: 'claude', inputTokens: 5000, outputTokens: 800, costUsd: 0.25 });
+    ledger.record({ feature: 'respond', userId: 'u2', channelId: 'c1' }, { model: 'local-llama', inputTokens: 300, outputTokens: 50 });
+
+    const summary = await ledger.summarize({ since: startOfDay() });
+
+    assert.equal(summary.total.calls, 3);
+    assert.equal(summary.total.inputTokens, 6300);
+    assert.equal(summary.byFeature.decision.costUsd, estimateCost('gpt-4o-mini', 1000, 100));
+    assert.equal(summary.byFeature.respond.costUsd, 0, 'unknown models are free');
+    assert.equal(summary.byUser.u1.calls, 2);
+    assert.equal(summary.bySession.s1.costUsd, 0.25);
+
+    const session = await ledger.summarize({ sessionId: 's1' });
+    assert.deepEqual(Object.keys(session.byFeature), ['claude']);
+  });
+
+  it('reports when the overall or per-user budget is spent', async () => {
+    const ledger = new UsageLedger();
+    ledger.record({ feature: 'claude', userId: 'u1' }, { model: 'claude', inputTokens: 0, outputTokens: 0, costUsd: 0.6 });
+
+    assert.equal((await ledger.checkBudget('u1')).exceeded, false, 'no budget configured');
+
+    ledger.setBudget({ userDailyUsd: 0.5 });
+    assert.equal((await ledger.checkBudget('u2')).exceeded, false);
+    const user = await ledger.checkBudget('u1');
+    assert.equal(user.exceeded, true);
+    assert.match(user.reason ?? '', /Your daily budget/);
+
+    ledger.setBudget({ dailyUsd: 0.5 });
+    const overall = await ledger.checkBudget('u2');
+    assert.equal(overall.exceeded, true);
+    assert.deepEqual(overall.daily, { spentUsd: 0.6, limitUsd: 0.5 });
+  });
+
+  it('counts spend from before a restart when kept in a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'arbiter-usage-'));
+    const file = join(dir, 'usage.jsonl');
+    try {
+      const expired = { feature: 'claude', model: 'claude', timestamp: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000), inputTokens: 0, outputTokens: 0, costUsd: 5 };
+      await writeFile(file, JSON.stringify(expired) + '\n');
+
+      const before = new UsageLedger();
+      await before.useFile(file);
+      before.record({ feature: 'claude', userId: 'u1' }, { model: 'claude', inputTokens: 0, outputTokens: 0, costUsd: 0.6 });
+      await before.flush();
+
+      const after = new UsageLedger();
+      await after.useFile(file);
+      after.setBudget({ dailyUsd: 0.5 });
+      assert.equal((await after.checkBudget('u1')).exceeded, true);
+      assert.equal((await after.summarize()).total.costUsd, 0.6, 'records past the retention window are dropped');
+      assert.equal((await readFile(file, 'utf8')).trim().split('\n').length, 1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Usage accounting in the pipeline', () => {
+  let harness: Harness;
+
+  beforeEach(async () => {
+    harness = await Harness.create();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  it('attributes LLM calls and Claude runs to the session and requester', async () => {
+    harness.decide({ shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit', suggestedApproach: 'Add a file' });
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+
+    const exited = harness.waitForExit();
+    await harness.say('please add a notes file');
+    await exited;
+
+    const [session] = Object.keys((await harness.usage.summarize()).bySession);
+    assert.ok(session, 'expected usage attributed to a session');
+
+    const summary = await harness.usage.summarize({ sessionId: session });
+    assert.deepEqual(Object.keys(summary.byFeature).sort(), ['claude', 'prompt']);
+    assert.equal(summary.byFeature.claude.inputTokens, 1500);
+    assert.equal(summary.byFeature.claude.costUsd, 0.05);
+    assert.deepEqual(Object.keys(summary.byUser), ['user-1']);
+
+    const today = await harness.usage.summarize({ userId: 'user-1' });
+    assert.ok(today.byFeature.decision, 'expected the decision call to be recorded');
+
+    await harness.say(`!arbiter usage ${session}`);
+    const report = harness.transport.getSent('general').at(-1)!.content;
+    assert.match(report, new RegExp(`Usage for session ${session}`));
+    assert.match(report, /claude: 1 call, 1,700 tokens \(1,500 in \/ 200 out\), \$0\.0500/);
+  });
+
+  it('refuses self_edit once the daily budget is spent', async () => {
+    harness.usage.setBudget({ dailyUsd: 0.01 });
+    harness.usage.record({ feature: 'claude', userId: 'someone-else' }, { model: 'claude', inputTokens: 0, outputTokens: 0, costUsd: 0.02 });
+    harness.decide({ shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' });
+
+    await harness.say('please refactor everything');
+
+    const sent = harness.transport.getSent('general').map((m) => m.content);
+    assert.match(sent[0], /💸 Daily budget reached/);
+    assert.equal(sent[1], 'Sure thing!');
+    assert.equal(harness.claudeRuns.length, 0);
+
+    await harness.say('!arbiter usage');
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /⛔ Daily budget reached/);
+  });
+
+  it('refuses research once the daily budget is spent', async () => {
+    harness.usage.setBudget({ dailyUsd: 0.01 });
+    harness.usage.record({ feature: 'claude' }, { model: 'claude', inputTokens: 0, outputTokens: 0, costUsd: 0.02 });
+    harness.decide({ shouldAct: true, confidence: 90, reason: 'Question about the code', actionType: 'research' });
+
+    await harness.say('how does the scheduler pick the next request?');
+
+    assert.match(harness.transport.getSent('general')[0].content, /💸 Daily budget reached .* I can't start research/);
+    assert.equal(harness.claudeRuns.length, 0);
+  });
+
+  it('holds back follow-ups once the budget is spent mid-session', async () => {
+    const selfEdit: ArbiterDecision = { shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' };
+    harness.decide(selfEdit);
+    harness.scriptClaude({ ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise(() => {}) });
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    const session = harness.arbiter.getSession(harness.coordinator.getActiveSessions()[0].id)!;
+
+    harness.usage.setBudget({ userDailyUsd: 0.01 });
+    harness.usage.record({ feature: 'claude', userId: 'user-1' }, { model: 'claude', inputTokens: 0, outputTokens: 0, costUsd: 0.02 });
+    await harness.say('and put it under docs/');
+
+    assert.equal(session.pendingMessages.length, 0);
+    assert.match(harness.transport.getSent('general').at(-1)!.content, /💸 Your daily budget is used up .* pass this on to the running session/);
+
+    await harness.say('!arbiter cancel');
+    await editing;
+  });
+
+  it('skips the verification fix-up once the budget is spent', async () => {
+    await harness.close();
+    harness = await Harness.create({ config: { verifyCommands: ['test -f fixed.txt'], verifyOnFailure: 'fix' } });
+    harness.usage.setBudget({ userDailyUsd: 0.04 });
+    harness.decide({ shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' });
+    harness.scriptClaude(editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'));
+
+    // The first run alone ($0.05) uses up the budget
+    await harness.say('please add a notes file');
+
+    assert.equal(harness.claudeRuns.length, 1);
+    const sent = harness.transport.getSent('general').map((m) => m.content);
+    assert.ok(sent.some((m) => /💸 Your daily budget is used up .* let Claude fix the failed check/.test(m)));
+    assert.match(sent.at(-1)!, /Verification failed - not merged[\s\S]*The daily budget is spent/);
+    assert.deepEqual(await harness.log(), ['Initial commit']);
+  });
+
+  it('skips conflict resolution once the budget is spent', async () => {
+    let releaseEdit!: () => void;
+    harness.usage.setBudget({ userDailyUsd: 0.04 });
+    harness.decide({ shouldAct: true, confidence: 95, reason: 'Code change', actionType: 'self_edit' });
+    harness.scriptClaude({ ...editRun({ 'notes.md': 'hello\n' }, 'Added notes.md'), pauseUntil: new Promise<void>((resolve) => { releaseEdit = resolve; }) });
+
+    const editing = harness.say('please add a notes file');
+    await harness.waitFor(() => harness.claudeRuns.length === 1);
+    await writeFile(join(harness.repoPath, 'notes.md'), 'goodbye\n');
+    await harness.git('add', 'notes.md');
+    await harness.git('commit', '-q', '-m', 'Conflicting notes');
+    releaseEdit();
+    await editing;
+
+    assert.equal(harness.claudeRuns.length, 1);
+    const sent = harness.transport.getSent('general').map((m) => m.content);
+    assert.ok(sent.some((m) => /💸 Your daily budget is used up .* let Claude resolve the merge conflict/.test(m)));
+    assert.match(sent.at(-1)!, /Changes committed but merge failed/);
+    assert.deepEqual(await harness.log(), ['Conflicting notes', 'Initial commit']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for the webhook transport's request signing and replay protection
+ */
+
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { NONCE_HEADER, SIGNATURE_HEADER, signWebhookBody, TIMESTAMP_HEADER, webhookSignatureHeaders, WebhookTransport } from '../src/transports/webhook.js';
+import { ChatMessage } from '../src/types.js';
+
+const SECRET = 'webhook-secret';
+
+describe('WebhookTransport', () => {
+  let transport: WebhookTransport;
+  let received: ChatMessage[];
+  let url: string;
+
+  beforeEach(async () => {
+    transport = new WebhookTransport({ port: 0, hostname: '127.0.0.1', secret: SECRET, maxAgeSeconds: 60 });
+    received = [];
+    transport.onMessage(async (message) => { received.push(message); });
+    await transport.connect();
+    url = `http://127.0.0.1:${transport.getPort()}/messages`;
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+  });
+
+  const body = (content: string) => JSON.stringify({ content, authorId: 'ci', authorName: 'CI', channelId: 'ci-builds' });
+
+  const post = async (payload: string, headers: Record<string, string>) => {
+    const response = await fetch(url, { method: 'POST', body: payload, headers: { 'Content-Type': 'application/json', ...headers } });
+    return { status: response.status, body: await response.json() as { error?: string } };
+  };
+
+  it('accepts a signed, fresh request', async () => {
+    const payload = body('build failed');
+    const response = await post(payload, webhookSignatureHeaders(SECRET, payload));
+
+    assert.equal(response.status, 202);
+    assert.deepEqual(received.map((m) => m.content), ['build failed']);
+  });
+
+  it('rejects a replayed request', async () => {
+    const payload = body('build failed');
+    const headers = webhookSignatureHeaders(SECRET, payload);
+    assert.equal((await post(payload, headers)).status, 202);
+
+    assert.deepEqual(await post(payload, headers), { status: 401, body: { error: 'Nonce already used' } });
+    assert.equal(received.length, 1);
+  });
+
+  it('rejects timestamps outside the window', async () => {
+    const payload = body('build failed');
+    const old = webhookSignatureHeaders(SECRET, payload, new Date(Date.now() - 2 * 60 * 1000));
+    const future = webhookSignatureHeaders(SECRET, payload, new Date(Date.now() + 2 * 60 * 1000));
+
+    assert.deepEqual(await post(payload, old), { status: 401, body: { error: 'Stale timestamp' } });
+    assert.deepEqual(await post(payload, future), { status: 401, body: { error: 'Stale timestamp' } });
+    assert.equal(received.length, 0);
+  });
+
+  it('rejects a timestamp or nonce changed after signing', async () => {
+    const payload = body('build failed');
+    const headers = webhookSignatureHeaders(SECRET, payload, new Date(Date.now() - 2 * 60 * 1000));
+    const refreshed = { ...headers, [TIMESTAMP_HEADER]: String(Math.floor(Date.now() / 1000)) };
+    const renonced = { ...webhookSignatureHeaders(SECRET, payload), [NONCE_HEADER]: 'another-nonce' };
+
+    assert.deepEqual(await post(payload, refreshed), { status: 401, body: { error: 'Invalid signature' } });
+    assert.deepEqual(await post(payload, renonced), { status: 401, body: { error: 'Invalid signature' } });
+
+    // Signing the body alone, as before, isn't enough
+    assert.equal((await post(payload, { [SIGNATURE_HEADER]: signWebhookBody(SECRET, payload, '', '') })).status, 401);
+    assert.equal(received.length, 0);
+  });
+});